@@ -0,0 +1,39 @@
+/**
+ * Helpers shared by the content plugins
+ */
+import path from 'node:path';
+import type { ViteDevServer } from 'vite';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a date string is a real YYYY-MM-DD date
+ */
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Reload the page when files in a content folder are added, edited or removed
+ * @param server - Vite dev server
+ * @param dir - Absolute path of the content folder
+ * @param resolvedId - Resolved id of the virtual module built from the folder
+ */
+export function reloadOnContentChange(server: ViteDevServer, dir: string, resolvedId: string): void {
+  server.watcher.add(dir);
+
+  const reload = (file: string) => {
+    if (!path.resolve(file).startsWith(dir)) return;
+
+    const module = server.moduleGraph.getModuleById(resolvedId);
+    if (module) server.moduleGraph.invalidateModule(module);
+    server.ws.send({ type: 'full-reload' });
+  };
+
+  server.watcher.on('add', reload);
+  server.watcher.on('change', reload);
+  server.watcher.on('unlink', reload);
+}
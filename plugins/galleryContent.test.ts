@@ -0,0 +1,43 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { validateManifest } from './galleryContent';
+
+let dir: string;
+
+/**
+ * Build a valid manifest entry for a file
+ */
+function entry(file: string) {
+  return { file, title: 'Rocket', artist: 'Sara', date: '2025-06-01' };
+}
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gallery-'));
+  fs.writeFileSync(path.join(dir, 'cat.png'), '');
+  fs.writeFileSync(path.join(dir, 'cat.jpg'), '');
+  fs.writeFileSync(path.join(dir, 'dog.png'), '');
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('validateManifest', () => {
+  it('accepts files in the gallery folder', () => {
+    expect(validateManifest([entry('cat.png'), entry('dog.png')], dir).map(item => item.file)).toEqual(['cat.png', 'dog.png']);
+  });
+
+  it('rejects files whose ids collide', () => {
+    expect(() => validateManifest([entry('cat.png'), entry('cat.png')], dir)).toThrow('same id "cat"');
+    expect(() => validateManifest([entry('cat.png'), entry('cat.jpg')], dir)).toThrow('same id "cat"');
+  });
+
+  it('rejects paths outside the gallery folder', () => {
+    expect(() => validateManifest([entry('../cat.png')], dir)).toThrow('directly in the gallery folder');
+    expect(() => validateManifest([entry('a/cat.png')], dir)).toThrow('directly in the gallery folder');
+    expect(() => validateManifest([entry(path.join(dir, 'cat.png'))], dir)).toThrow('directly in the gallery folder');
+    expect(() => validateManifest([entry('..\\cat.png')], dir)).toThrow('directly in the gallery folder');
+  });
+});
@@ -0,0 +1,204 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import sharp from 'sharp';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { isValidDate, reloadOnContentChange } from './contentUtils';
+
+const VIRTUAL_ID = 'virtual:gallery';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+const DEV_URL_PREFIX = '/@gallery/';
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.svg'];
+
+/**
+ * Widths generated for every image; the largest doubles as the lightbox size
+ */
+export const THUMBNAIL_WIDTHS = [320, 640, 1280];
+
+/**
+ * An entry of `manifest.json` as written by contributors
+ */
+export interface GalleryManifestEntry {
+  file: string;
+  title: string;
+  artist: string;
+  date: string;
+  alt?: string;
+}
+
+// A generated image size waiting to be served or emitted
+interface GeneratedImage {
+  fileName: string;
+  width: number;
+  source: Buffer;
+}
+
+/**
+ * Id of a gallery image, also used to name its thumbnails
+ */
+function getItemId(file: string): string {
+  return path.basename(file, path.extname(file));
+}
+
+/**
+ * Validate the parsed manifest against the files in the gallery folder
+ * @throws Error describing the first problem found
+ */
+export function validateManifest(value: unknown, dir: string): GalleryManifestEntry[] {
+  if (!Array.isArray(value)) {
+    throw new Error('manifest.json must contain a list of drawings');
+  }
+
+  const seen = new Set<string>();
+  return value.map((raw, index) => {
+    const entry = raw as Partial<GalleryManifestEntry> | null;
+    const label = `entry ${index + 1}`;
+
+    if (!entry || typeof entry.file !== 'string' || !entry.file) {
+      throw new Error(`${label}: "file" is required`);
+    }
+    // Without separators the path cannot be absolute or climb out with `..`
+    if (/[\\/]/.test(entry.file)) {
+      throw new Error(`${label}: "${entry.file}" must be a file name directly in the gallery folder`);
+    }
+    if (!IMAGE_EXTENSIONS.includes(path.extname(entry.file).toLowerCase())) {
+      throw new Error(`${label}: "${entry.file}" is not a supported image type`);
+    }
+    if (!fs.existsSync(path.join(dir, entry.file))) {
+      throw new Error(`${label}: "${entry.file}" does not exist in ${dir}`);
+    }
+    const id = getItemId(entry.file);
+    if (seen.has(id)) {
+      throw new Error(`${label}: "${entry.file}" has the same id "${id}" as an earlier entry`);
+    }
+    if (typeof entry.title !== 'string' || !entry.title.trim()) {
+      throw new Error(`${label}: "title" is required`);
+    }
+    if (typeof entry.artist !== 'string' || !entry.artist.trim()) {
+      throw new Error(`${label}: "artist" is required`);
+    }
+    if (!isValidDate(entry.date)) {
+      throw new Error(`${label}: "date" is required and must be YYYY-MM-DD`);
+    }
+    if (entry.alt !== undefined && typeof entry.alt !== 'string') {
+      throw new Error(`${label}: "alt" must be text`);
+    }
+
+    seen.add(id);
+    return {
+      file: entry.file,
+      title: entry.title.trim(),
+      artist: entry.artist.trim(),
+      date: entry.date,
+      alt: entry.alt?.trim()
+    };
+  });
+}
+
+/**
+ * Generate the WebP sizes of one image
+ * Images are never enlarged, so small drawings may produce fewer distinct sizes.
+ */
+async function generateSizes(file: string, id: string): Promise<{ width: number; height: number; images: GeneratedImage[] }> {
+  const metadata = await sharp(file).metadata();
+  const originalWidth = metadata.width ?? THUMBNAIL_WIDTHS[0];
+  const originalHeight = metadata.height ?? THUMBNAIL_WIDTHS[0];
+
+  const widths = [...new Set(THUMBNAIL_WIDTHS.map(width => Math.min(width, originalWidth)))];
+  const images = await Promise.all(widths.map(async width => ({
+    fileName: `${id}-${width}.webp`,
+    width,
+    source: await sharp(file).resize({ width, withoutEnlargement: true }).webp({ quality: 80 }).toBuffer()
+  })));
+
+  return { width: originalWidth, height: originalHeight, images };
+}
+
+/**
+ * Vite plugin exposing the drawing gallery as `virtual:gallery`
+ * Reads `manifest.json` from the folder, validates it and generates
+ * responsive WebP thumbnails. The build emits them as hashed assets;
+ * the dev server serves them from memory.
+ * @param dir - Folder holding the images and manifest
+ */
+export function galleryContent(dir: string): Plugin {
+  const galleryDir = path.resolve(dir);
+  const manifestPath = path.join(galleryDir, 'manifest.json');
+  const devImages = new Map<string, Buffer>();
+  let config: ResolvedConfig;
+
+  return {
+    name: 'deci-gallery-content',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_ID) return null;
+
+      this.addWatchFile(galleryDir);
+      if (!fs.existsSync(manifestPath)) return 'export default [];';
+      this.addWatchFile(manifestPath);
+
+      let entries: GalleryManifestEntry[];
+      try {
+        entries = validateManifest(JSON.parse(fs.readFileSync(manifestPath, 'utf8')), galleryDir);
+      } catch (e) {
+        this.error(`Invalid gallery manifest ${manifestPath}: ${(e as Error).message}`);
+      }
+
+      const items: string[] = [];
+      for (const entry of entries) {
+        const itemId = getItemId(entry.file);
+        const file = path.join(galleryDir, entry.file);
+        this.addWatchFile(file);
+
+        const { width, height, images } = await generateSizes(file, itemId);
+
+        const sources = images.map(image => {
+          if (config.command === 'build') {
+            const ref = this.emitFile({ type: 'asset', name: `gallery/${image.fileName}`, source: image.source });
+            return `{ width: ${image.width}, url: import.meta.ROLLUP_FILE_URL_${ref} }`;
+          }
+
+          devImages.set(image.fileName, image.source);
+          return `{ width: ${image.width}, url: ${JSON.stringify(DEV_URL_PREFIX + image.fileName)} }`;
+        });
+
+        items.push(`{
+  id: ${JSON.stringify(itemId)},
+  title: ${JSON.stringify(entry.title)},
+  artist: ${JSON.stringify(entry.artist)},
+  date: ${JSON.stringify(entry.date)},
+  alt: ${JSON.stringify(entry.alt || `${entry.title} by ${entry.artist}`)},
+  width: ${width},
+  height: ${height},
+  sources: [${sources.join(', ')}]
+}`);
+      }
+
+      return `export default [${items.join(',\n')}];`;
+    },
+
+    configureServer(server) {
+      // Serve generated thumbnails from memory
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.startsWith(DEV_URL_PREFIX)) return next();
+
+        const image = devImages.get(decodeURIComponent(req.url.slice(DEV_URL_PREFIX.length)));
+        if (!image) return next();
+
+        res.setHeader('Content-Type', 'image/webp');
+        res.end(image);
+      });
+
+      // Regenerate when drawings or the manifest change
+      reloadOnContentChange(server, galleryDir, RESOLVED_ID);
+    }
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter, toNewsItem } from './newsContent';
+
+const fields = { title: 'Meetup', date: '2025-06-01' };
+
+describe('toNewsItem', () => {
+  it('renders the markdown body', () => {
+    expect(toNewsItem('meetup', fields, 'We meet on **Thursday**.').html).toBe('<p>We meet on <strong>Thursday</strong>.</p>\n');
+  });
+
+  it('shows raw HTML as text', () => {
+    const { html } = toNewsItem('meetup', fields, 'Hi <img src=x onerror="alert(1)">\n\n<script>alert(1)</script>');
+
+    expect(html).not.toMatch(/<(img|script)/);
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('rejects links and images that are not http(s)', () => {
+    expect(() => toNewsItem('meetup', fields, '[click](javascript:alert(1))')).toThrow(/must start with http/);
+    expect(() => toNewsItem('meetup', fields, '![pic](data:image/png;base64,AAAA)')).toThrow(/must start with http/);
+    expect(toNewsItem('meetup', fields, '[portal](https://example.com)').html).toContain('href="https://example.com"');
+  });
+
+  it('rejects missing and unknown fields', () => {
+    expect(() => toNewsItem('meetup', { date: '2025-06-01' }, '')).toThrow('"title" is required');
+    expect(() => toNewsItem('meetup', { ...fields, author: 'me' }, '')).toThrow('unknown field(s): author');
+  });
+});
+
+describe('parseFrontMatter', () => {
+  it('reads scalar values and lists', () => {
+    const { data, body } = parseFrontMatter('---\ntitle: "Hi"\npinned: true\ntags: [a, b]\n---\nBody');
+
+    expect(data).toEqual({ title: 'Hi', pinned: true, tags: ['a', 'b'] });
+    expect(body).toBe('Body');
+  });
+});
@@ -0,0 +1,241 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Marked, type Token } from 'marked';
+import type { Plugin } from 'vite';
+import type { NewsItem } from '../src/content/types';
+import { isValidDate, reloadOnContentChange } from './contentUtils';
+import { loadPolls } from './pollsContent';
+
+const VIRTUAL_ID = 'virtual:news';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+
+const KNOWN_FIELDS = ['title', 'date', 'tags', 'pinned', 'expires', 'url', 'poll', 'body'];
+
+/**
+ * Escape text for use inside HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Posts come from contributors' pull requests, so raw HTML in them is shown as text
+const markdown = new Marked({
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    }
+  }
+});
+
+/**
+ * Render the markdown body of a post
+ * @throws Error if a link or image points anywhere but an http(s) address
+ */
+function renderMarkdown(source: string): string {
+  const tokens = markdown.lexer(source);
+  markdown.walkTokens(tokens, (token: Token) => {
+    if ((token.type === 'link' || token.type === 'image') && !/^https?:\/\//i.test(token.href)) {
+      throw new Error(`${token.type} "${token.href}" must start with http:// or https://`);
+    }
+  });
+  return markdown.parser(tokens);
+}
+
+/**
+ * Parse a scalar front-matter value (string, boolean or inline list)
+ */
+function parseValue(raw: string): unknown {
+  const value = raw.trim();
+
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map(item => parseValue(item))
+      .filter(item => item !== '');
+  }
+
+  if (/^(['"]).*\1$/.test(value)) {
+    return value.slice(1, -1);
+  }
+
+  return value;
+}
+
+/**
+ * Split a markdown file into front-matter fields and body
+ * Supports the small YAML subset used by news posts:
+ * `key: value`, inline lists (`[a, b]`) and dash lists.
+ */
+export function parseFrontMatter(source: string): { data: Record<string, unknown>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(source);
+  if (!match) {
+    throw new Error('missing front-matter block (--- ... ---)');
+  }
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const listItem = /^\s+-\s+(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (listItem && listKey) {
+      (data[listKey] as unknown[]).push(parseValue(listItem[1]));
+      continue;
+    }
+
+    const field = /^([A-Za-z]+):\s*(.*)$/.exec(line);
+    if (!field) {
+      throw new Error(`cannot read front-matter line "${line}"`);
+    }
+
+    const [, key, value] = field;
+    if (value.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseValue(value);
+      listKey = null;
+    }
+  }
+
+  return { data, body: match[2] };
+}
+
+/**
+ * Validate parsed fields and build a news item
+ * @throws Error describing the first problem found
+ */
+export function toNewsItem(slug: string, data: Record<string, unknown>, body: string): NewsItem {
+  const unknown = Object.keys(data).filter(key => !KNOWN_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`unknown field(s): ${unknown.join(', ')}`);
+  }
+
+  if (typeof data.title !== 'string' || !data.title.trim()) {
+    throw new Error('"title" is required');
+  }
+  if (!isValidDate(data.date)) {
+    throw new Error('"date" is required and must be YYYY-MM-DD');
+  }
+  if (data.expires !== undefined && !isValidDate(data.expires)) {
+    throw new Error('"expires" must be YYYY-MM-DD');
+  }
+  if (data.expires !== undefined && (data.expires as string) < data.date) {
+    throw new Error('"expires" must not be before "date"');
+  }
+  if (data.pinned !== undefined && typeof data.pinned !== 'boolean') {
+    throw new Error('"pinned" must be true or false');
+  }
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some(tag => typeof tag !== 'string' || !tag))) {
+    throw new Error('"tags" must be a list of words');
+  }
+  if (data.url !== undefined && (typeof data.url !== 'string' || !/^https?:\/\//.test(data.url))) {
+    throw new Error('"url" must start with http:// or https://');
+  }
+  if (data.poll !== undefined && (typeof data.poll !== 'string' || !/^[a-z0-9-]+$/.test(data.poll))) {
+    throw new Error('"poll" must be the file name of a poll in content/polls');
+  }
+
+  const source = typeof data.body === 'string' ? data.body : body;
+
+  return {
+    slug,
+    title: data.title.trim(),
+    date: data.date,
+    tags: ((data.tags as string[] | undefined) ?? []).map(tag => tag.toLowerCase()),
+    pinned: data.pinned === true,
+    expires: data.expires as string | undefined,
+    url: data.url as string | undefined,
+    poll: data.poll as string | undefined,
+    html: renderMarkdown(source.trim())
+  };
+}
+
+/**
+ * Read and validate every news file in a directory
+ * `README.md` is skipped so the folder can document itself.
+ */
+export function loadNews(dir: string): NewsItem[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const items: NewsItem[] = [];
+  for (const file of fs.readdirSync(dir).sort()) {
+    const ext = path.extname(file);
+    if (!['.md', '.json'].includes(ext) || file.toLowerCase() === 'readme.md') continue;
+
+    const slug = path.basename(file, ext);
+    const source = fs.readFileSync(path.join(dir, file), 'utf8');
+
+    try {
+      if (ext === '.json') {
+        const data = JSON.parse(source);
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          throw new Error('expected a JSON object');
+        }
+        items.push(toNewsItem(slug, data, ''));
+      } else {
+        const { data, body } = parseFrontMatter(source);
+        items.push(toNewsItem(slug, data, body));
+      }
+    } catch (e) {
+      throw new Error(`Invalid news file ${path.join(dir, file)}: ${(e as Error).message}`);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Vite plugin exposing the news collection as `virtual:news`
+ * Files are validated when the module is built, so a broken post fails the build.
+ * @param dir - Folder holding the news files
+ * @param pollsDir - Folder holding the polls posts may embed
+ */
+export function newsContent(dir: string, pollsDir?: string): Plugin {
+  const newsDir = path.resolve(dir);
+
+  return {
+    name: 'deci-news-content',
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+
+      this.addWatchFile(newsDir);
+      try {
+        const items = loadNews(newsDir);
+
+        if (pollsDir) {
+          this.addWatchFile(path.resolve(pollsDir));
+          const pollIds = new Set(loadPolls(path.resolve(pollsDir)).map(poll => poll.id));
+          const broken = items.find(item => item.poll && !pollIds.has(item.poll));
+          if (broken) {
+            throw new Error(`News item "${broken.slug}" embeds unknown poll "${broken.poll}"`);
+          }
+        }
+
+        return `export default ${JSON.stringify(items)};`;
+      } catch (e) {
+        this.error((e as Error).message);
+      }
+    },
+
+    configureServer(server) {
+      // Reload the page when posts are added, edited or removed
+      reloadOnContentChange(server, newsDir, RESOLVED_ID);
+    }
+  };
+}
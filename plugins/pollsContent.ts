@@ -0,0 +1,111 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import type { Poll } from '../src/content/types';
+import { isValidDate, reloadOnContentChange } from './contentUtils';
+
+const VIRTUAL_ID = 'virtual:polls';
+const RESOLVED_ID = '\0' + VIRTUAL_ID;
+
+const ID_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * Validate a parsed poll definition
+ * @throws Error describing the first problem found
+ */
+export function toPoll(id: string, value: unknown): Poll {
+  const data = value as Partial<Poll> | null;
+
+  if (!ID_PATTERN.test(id)) {
+    throw new Error('file name may only use lowercase letters, digits and dashes');
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('expected a JSON object');
+  }
+  if (typeof data.question !== 'string' || !data.question.trim()) {
+    throw new Error('"question" is required');
+  }
+  if (data.multiple !== undefined && typeof data.multiple !== 'boolean') {
+    throw new Error('"multiple" must be true or false');
+  }
+  if (data.closes !== undefined && !isValidDate(data.closes)) {
+    throw new Error('"closes" must be YYYY-MM-DD');
+  }
+  if (!Array.isArray(data.options) || data.options.length < 2) {
+    throw new Error('"options" must list at least two answers');
+  }
+
+  const seen = new Set<string>();
+  const options = data.options.map((option, index) => {
+    if (!option || typeof option.id !== 'string' || !ID_PATTERN.test(option.id)) {
+      throw new Error(`option ${index + 1}: "id" may only use lowercase letters, digits and dashes`);
+    }
+    if (typeof option.label !== 'string' || !option.label.trim()) {
+      throw new Error(`option ${index + 1}: "label" is required`);
+    }
+    if (seen.has(option.id)) {
+      throw new Error(`option ${index + 1}: id "${option.id}" is used twice`);
+    }
+
+    seen.add(option.id);
+    return { id: option.id, label: option.label.trim() };
+  });
+
+  return {
+    id,
+    question: data.question.trim(),
+    multiple: data.multiple === true,
+    options,
+    closes: data.closes
+  };
+}
+
+/**
+ * Read and validate every poll in a directory
+ */
+export function loadPolls(dir: string): Poll[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(file => path.extname(file) === '.json')
+    .sort()
+    .map(file => {
+      try {
+        return toPoll(path.basename(file, '.json'), JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+      } catch (e) {
+        throw new Error(`Invalid poll file ${path.join(dir, file)}: ${(e as Error).message}`);
+      }
+    });
+}
+
+/**
+ * Vite plugin exposing the poll definitions as `virtual:polls`
+ * @param dir - Folder holding one JSON file per poll
+ */
+export function pollsContent(dir: string): Plugin {
+  const pollsDir = path.resolve(dir);
+
+  return {
+    name: 'deci-polls-content',
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+
+      this.addWatchFile(pollsDir);
+      try {
+        return `export default ${JSON.stringify(loadPolls(pollsDir))};`;
+      } catch (e) {
+        this.error((e as Error).message);
+      }
+    },
+
+    configureServer(server) {
+      // Reload the page when polls are added, edited or removed
+      reloadOnContentChange(server, pollsDir, RESOLVED_ID);
+    }
+  };
+}
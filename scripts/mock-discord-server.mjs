@@ -0,0 +1,77 @@
+/**
+ * Fixture Discord API for trying DiscordWidget locally
+ *
+ *   pnpm mock:discord
+ *   VITE_DISCORD_API_URL=http://localhost:3003 VITE_DISCORD_SERVER_ID=1234 pnpm dev
+ *
+ * Serves a fixed widget and invite for any server id and invite code. Set PORT to listen
+ * elsewhere, DELAY to answer slowly (in milliseconds, e.g. to try the timeout) or
+ * FAIL=1 to answer every request with an error.
+ */
+import http from 'node:http';
+
+const port = Number(process.env.PORT) || 3003;
+const delay = Number(process.env.DELAY) || 0;
+const fail = process.env.FAIL === '1';
+
+const names = ['Nour', 'Omar', 'Salma', 'Youssef', 'Mariam', 'Karim', 'Laila', 'Hassan', 'Farida', 'Ziad'];
+const statuses = ['online', 'online', 'idle', 'dnd'];
+
+const members = names.map((username, index) => ({
+  id: String(index),
+  username,
+  discriminator: '0000',
+  // Every third member has no avatar, to show the initial instead
+  avatar: null,
+  avatar_url: index % 3 === 2 ? '' : `https://api.dicebear.com/9.x/pixel-art/png?seed=${username}`,
+  status: statuses[index % statuses.length]
+}));
+
+function widget(id) {
+  return {
+    id,
+    name: 'Deci.Dev (fixture)',
+    instant_invite: null,
+    channels: [],
+    members,
+    presence_count: members.length
+  };
+}
+
+function invite(code) {
+  return {
+    code,
+    guild: { id: '1234', name: 'Deci.Dev (fixture)' },
+    approximate_member_count: 321,
+    approximate_presence_count: members.length
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'GET') return send(res, 405, { message: 'Method not allowed' });
+
+  const path = new URL(req.url, 'http://localhost').pathname;
+  const widgetMatch = /^\/guilds\/(\d+)\/widget\.json$/.exec(path);
+  const inviteMatch = /^\/invites\/([\w-]+)$/.exec(path);
+
+  setTimeout(() => {
+    if (fail) return send(res, 500, { message: 'Fixture failure' });
+    if (widgetMatch) return send(res, 200, widget(widgetMatch[1]));
+    if (inviteMatch) return send(res, 200, invite(inviteMatch[1]));
+    send(res, 404, { message: 'Unknown route' });
+  }, delay);
+});
+
+server.listen(port, () => {
+  console.log(`Mock Discord API listening on http://localhost:${port}`);
+});
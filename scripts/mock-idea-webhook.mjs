@@ -0,0 +1,48 @@
+/**
+ * Stand-in webhook for trying WebhookIdeaTransport locally
+ *
+ *   pnpm mock:ideas
+ *   VITE_IDEA_WEBHOOK_URL=http://localhost:3002/ideas pnpm dev
+ *
+ * Received ideas are printed to the console. Set PORT to listen elsewhere.
+ */
+import http from 'node:http';
+
+const port = Number(process.env.PORT) || 3002;
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return send(res, 400, { error: 'Body must be JSON' });
+    }
+
+    if (typeof body?.content !== 'string' || typeof body?.idea !== 'object') {
+      return send(res, 400, { error: 'Expected { content, idea }' });
+    }
+
+    console.log(`\n${new Date().toISOString()} ${req.url}\n${body.content}`);
+    send(res, 204);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock idea webhook listening on http://localhost:${port}`);
+});
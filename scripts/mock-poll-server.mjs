@@ -0,0 +1,91 @@
+/**
+ * In-memory poll API for trying HttpPollStorage locally
+ *
+ *   pnpm mock:polls
+ *   VITE_POLL_API_URL=http://localhost:3001 pnpm dev
+ *
+ * Votes are lost when the server stops. Set PORT to listen elsewhere.
+ */
+import http from 'node:http';
+
+const port = Number(process.env.PORT) || 3001;
+
+// pollId -> { counts, total, voters }
+const polls = new Map();
+
+function getPoll(id) {
+  if (!polls.has(id)) {
+    polls.set(id, { counts: {}, total: 0, voters: new Set() });
+  }
+  return polls.get(id);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(raw || '{}'));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const match = /^\/polls\/([a-z0-9-]+)(\/votes)?$/.exec(new URL(req.url, 'http://localhost').pathname);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  const poll = getPoll(match[1]);
+  const results = () => ({ counts: poll.counts, total: poll.total });
+
+  if (req.method === 'GET' && !match[2]) {
+    return send(res, 200, results());
+  }
+
+  if (req.method === 'POST' && match[2]) {
+    let ballot;
+    try {
+      ballot = await readJson(req);
+    } catch {
+      return send(res, 400, { error: 'Body must be JSON' });
+    }
+
+    const { voterId, options } = ballot;
+    if (typeof voterId !== 'string' || !Array.isArray(options) || options.length === 0) {
+      return send(res, 400, { error: 'Expected { voterId, options }' });
+    }
+    if (poll.voters.has(voterId)) {
+      return send(res, 409, { error: 'Already voted' });
+    }
+
+    poll.voters.add(voterId);
+    poll.total++;
+    for (const id of new Set(options.map(String))) {
+      poll.counts[id] = (poll.counts[id] ?? 0) + 1;
+    }
+    console.log(`Vote for ${match[1]}: ${options.join(', ')}`);
+    return send(res, 200, results());
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(port, () => {
+  console.log(`Mock poll server listening on http://localhost:${port}`);
+});
@@ -1,21 +1,48 @@
 import type { Component } from 'solid-js';
-import { createSignal, onMount, onCleanup } from 'solid-js';
+import { createEffect, createSignal, For, on, onMount, onCleanup, Show } from 'solid-js';
 
 // Import components from index
 import { 
   Background, 
+  BackgroundController,
   Title, 
   DragGame,
-  FlappyGame 
+  ArcadeHub,
+  GameShell,
+  NewsList,
+  Gallery,
+  IdeaForm,
+  MotionToggle,
+  SoundControl,
+  DiscordPanel,
+  LanguageSwitcher,
+  ThemePicker,
+  TrophyCase,
+  AchievementToasts,
+  startAchievementTracking,
+  createRoute,
+  getGame,
+  isGameUnlocked,
+  unlockWithShareToken
 } from './components';
 
 // Import utilities from index
-import { setupSecretCodeDetection, SecretCodeDetector } from './utils';
+import {
+  animation,
+  DISCORD_INVITE_URL,
+  eventBus,
+  formatRoute,
+  motionPreference,
+  Route,
+  router,
+  setupSecretCodeDetection,
+  unlockStorage
+} from './utils';
+import { t } from './i18n';
+import { theme } from './theme';
 
-// Type definitions
-declare const gsap: any;
-declare const Draggable: any;
-declare const ScrollTrigger: any;
+// Section links, in page order
+const NAV_ROUTES: Exclude<Route['name'], 'game'>[] = ['home', 'games', 'news', 'about'];
 
 /**
  * Main application component
@@ -26,23 +53,53 @@ const App: Component = () => {
   let messageBoxRef: HTMLDivElement | undefined;
   let discordButtonRef: HTMLAnchorElement | undefined;
   let footerBoxRef: HTMLDivElement | undefined;
-  let backgroundRef: HTMLDivElement | undefined;
+  let galleryBoxRef: HTMLDivElement | undefined;
+  let background: BackgroundController | undefined;
   let dragGameRef: HTMLDivElement | undefined;
+  let arcadeRef: HTMLDivElement | undefined;
+  let aboutRef: HTMLElement | undefined;
   
   // State
   const [showMessage, setShowMessage] = createSignal(false);
-  const [showSecretGame, setShowSecretGame] = createSignal(false);
+  const route = createRoute();
   
-  // Store secret code detector for cleanup
-  let secretCodeDetector: SecretCodeDetector | null = null;
+  // Currently opened arcade game, if it is unlocked
+  const activeGame = () => {
+    const current = route();
+    const game = current.name === 'game' ? getGame(current.gameId) : undefined;
+    return game && isGameUnlocked(game) ? game : undefined;
+  };
+  
+  // Seed pinned by a game link, so its layout can be reproduced
+  const pinnedSeed = () => {
+    const current = route();
+    return current.name === 'game' ? current.seed : undefined;
+  };
+  
+  /**
+   * Open a game in the arcade shell
+   */
+  const openGame = (gameId: string) => router.navigate({ name: 'game', gameId });
+  
+  /**
+   * Close the arcade shell, going back if the game was opened from the page
+   */
+  const closeGame = () => router.back({ name: 'games' });
+  
+  // Store secret code cleanup
+  let stopSecretCodeDetection: (() => void) | null = null;
+  let stopAchievementTracking: (() => void) | null = null;
+  
+  // Movement distance for entrance animations; calm mode only fades
+  const offset = (distance: number) => (motionPreference.isReduced() ? 0 : distance);
   
   /**
    * Handle container shake animation
    */
   const shakeContainer = () => {
-    if (!containerRef) return;
+    if (!containerRef || motionPreference.isReduced()) return;
     
-    gsap.to(containerRef, {
+    animation.to(containerRef, {
       x: '+=10',
       duration: 0.1,
       repeat: 5,
@@ -58,21 +115,59 @@ const App: Component = () => {
     shakeContainer();
     
     // Trigger ripple effect on icons
-    if (backgroundRef) {
-      const backgroundComponent = backgroundRef as any;
-      if (backgroundComponent.createRippleEffect) {
-        backgroundComponent.createRippleEffect();
-      }
-    }
+    background?.ripple();
   };
   
   /**
-   * Show the secret game when Konami code is detected
+   * Unlock and open the secret game when Konami code is detected
    */
   const revealSecretGame = () => {
-    setShowSecretGame(true);
+    if (unlockStorage.unlock('konami')) {
+      eventBus.emit('secretUnlocked', { secret: 'konami' });
+    }
+    openGame('flappy');
   };
   
+  // Guard game links: unknown or still locked games fall back to the arcade,
+  // and a valid share token unlocks the game before opening it
+  createEffect(on(route, (current) => {
+    if (current.name !== 'game') return;
+    
+    const game = getGame(current.gameId);
+    if (!game) {
+      router.replace({ name: 'games' });
+    } else if (current.token) {
+      unlockWithShareToken(game, current.token);
+      router.replace(isGameUnlocked(game) ? { name: 'game', gameId: game.id, seed: current.seed } : { name: 'games' });
+    } else if (!isGameUnlocked(game)) {
+      router.replace({ name: 'games' });
+    }
+  }));
+  
+  // The game shell covers the page, so the background can rest
+  createEffect(on(activeGame, game => {
+    if (game) {
+      background?.pause();
+    } else {
+      background?.resume();
+    }
+  }, { defer: true }));
+  
+  // Scroll to the linked section; news only exists once the entrance animation has finished
+  createEffect(on([route, showMessage], ([current]) => {
+    const sections: Partial<Record<Route['name'], HTMLElement | undefined>> = {
+      games: arcadeRef,
+      news: messageBoxRef,
+      about: aboutRef
+    };
+    const section = sections[current.name];
+    if (section) {
+      section.scrollIntoView({ behavior: motionPreference.isReduced() ? 'auto' : 'smooth', block: 'start' });
+    } else if (current.name === 'home') {
+      window.scrollTo({ top: 0, behavior: motionPreference.isReduced() ? 'auto' : 'smooth' });
+    }
+  }, { defer: true }));
+  
   /**
    * Handle hover effects with GSAP
    */
@@ -80,18 +175,19 @@ const App: Component = () => {
     // Discord button hover effect
     if (discordButtonRef) {
       discordButtonRef.addEventListener('mouseenter', () => {
-        gsap.to(discordButtonRef, {
+        if (motionPreference.isReduced()) return;
+        animation.to(discordButtonRef, {
           scale: 1.05,
-          boxShadow: '0 10px 15px rgba(99, 102, 241, 0.4)',
+          boxShadow: theme().shadows.lift,
           duration: 0.3,
           ease: 'power1.out'
         });
       });
       
       discordButtonRef.addEventListener('mouseleave', () => {
-        gsap.to(discordButtonRef, {
+        animation.to(discordButtonRef, {
           scale: 1,
-          boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+          boxShadow: theme().shadows.rest,
           duration: 0.3,
           ease: 'power1.out'
         });
@@ -101,22 +197,24 @@ const App: Component = () => {
     // Message box hover effect
     if (messageBoxRef) {
       messageBoxRef.addEventListener('mouseenter', () => {
-        gsap.to(messageBoxRef, { scale: 1.05, duration: 0.3, ease: 'power1.out' });
+        if (motionPreference.isReduced()) return;
+        animation.to(messageBoxRef, { scale: 1.05, duration: 0.3, ease: 'power1.out' });
       });
       
       messageBoxRef.addEventListener('mouseleave', () => {
-        gsap.to(messageBoxRef, { scale: 1, duration: 0.3, ease: 'power1.out' });
+        animation.to(messageBoxRef, { scale: 1, duration: 0.3, ease: 'power1.out' });
       });
     }
     
     // Footer box hover effect
     if (footerBoxRef) {
       footerBoxRef.addEventListener('mouseenter', () => {
-        gsap.to(footerBoxRef, { scale: 1.05, duration: 0.3, ease: 'power1.out' });
+        if (motionPreference.isReduced()) return;
+        animation.to(footerBoxRef, { scale: 1.05, duration: 0.3, ease: 'power1.out' });
       });
       
       footerBoxRef.addEventListener('mouseleave', () => {
-        gsap.to(footerBoxRef, { scale: 1, duration: 0.3, ease: 'power1.out' });
+        animation.to(footerBoxRef, { scale: 1, duration: 0.3, ease: 'power1.out' });
       });
     }
   };
@@ -127,8 +225,8 @@ const App: Component = () => {
   const animateContainer = () => {
     if (!containerRef) return;
     
-    gsap.fromTo(containerRef,
-      { y: 100, opacity: 0 },
+    animation.fromTo(containerRef,
+      { y: offset(100), opacity: 0 },
       { 
         y: 0, 
         opacity: 1, 
@@ -140,16 +238,24 @@ const App: Component = () => {
           
           // Animate the message box after it appears
           if (messageBoxRef) {
-            gsap.fromTo(messageBoxRef,
-              { y: 20, opacity: 0 },
+            animation.fromTo(messageBoxRef,
+              { y: offset(20), opacity: 0 },
               { y: 0, opacity: 1, duration: 0.8, ease: 'power2.out' }
             );
           }
           
+          // Animate the gallery box
+          if (galleryBoxRef) {
+            animation.fromTo(galleryBoxRef,
+              { y: offset(20), opacity: 0 },
+              { y: 0, opacity: 1, duration: 0.8, delay: 0.1, ease: 'power2.out' }
+            );
+          }
+          
           // Animate the footer box
           if (footerBoxRef) {
-            gsap.fromTo(footerBoxRef,
-              { y: 20, opacity: 0 },
+            animation.fromTo(footerBoxRef,
+              { y: offset(20), opacity: 0 },
               { y: 0, opacity: 1, duration: 0.8, delay: 0.2, ease: 'power2.out' }
             );
           }
@@ -160,29 +266,6 @@ const App: Component = () => {
   
   // Setup on component mount
   onMount(() => {
-    // Register GSAP plugins
-    if (typeof gsap !== 'undefined' && typeof gsap.registerPlugin === 'function') {
-      // Register Draggable if available
-      try {
-        if (typeof Draggable !== 'undefined') {
-          gsap.registerPlugin(Draggable);
-        }
-      } catch (e) {
-        console.warn('Draggable plugin not available', e);
-      }
-      
-      // Register ScrollTrigger if available
-      try {
-        if (typeof ScrollTrigger !== 'undefined') {
-          gsap.registerPlugin(ScrollTrigger);
-        }
-      } catch (e) {
-        console.warn('ScrollTrigger plugin not available', e);
-      }
-    } else {
-      console.warn('GSAP not available or missing registerPlugin method');
-    }
-    
     // Setup hover effects
     setupHoverEffects();
     
@@ -190,84 +273,132 @@ const App: Component = () => {
     animateContainer();
     
     // Initialize secret code detection
-    secretCodeDetector = setupSecretCodeDetection(revealSecretGame);
+    stopSecretCodeDetection = setupSecretCodeDetection(revealSecretGame);
+    
+    // Count this visit and start listening for achievement progress
+    stopAchievementTracking = startAchievementTracking();
   });
   
   // Cleanup on component unmount
   onCleanup(() => {
-    if (secretCodeDetector) {
-      secretCodeDetector.stop();
+    if (stopSecretCodeDetection) {
+      stopSecretCodeDetection();
     }
+    stopAchievementTracking?.();
   });
   
   return (
-    <div class="min-h-screen bg-gray-800 text-white flex flex-col items-center justify-center p-4 overflow-hidden relative">
+    <div class="min-h-screen bg-page text-ink flex flex-col items-center justify-center p-4 overflow-hidden relative">
+      {/* Language, theme, animation and sound preferences */}
+      <div class="fixed top-3 end-3 z-40 flex flex-col items-end gap-2">
+        <LanguageSwitcher />
+        <ThemePicker />
+        <MotionToggle />
+        <SoundControl />
+      </div>
+      
       {/* Background with floating icons */}
-      <Background ref={backgroundRef} />
+      <Background ref={background} seed={pinnedSeed()} />
       
       {/* Main title */}
-      <Title text="Deci.Dev" onTitleClick={handleTitleClick} />
+      <Title text={t().app.title} onTitleClick={handleTitleClick} />
       
       {/* Main content container */}
       <div 
         ref={containerRef}
-        class="max-w-2xl w-full bg-gray-700/80 backdrop-blur-sm rounded-xl p-6 shadow-xl opacity-0 z-10 relative"
+        class="max-w-2xl w-full bg-panel/80 backdrop-blur-sm rounded-xl p-6 shadow-xl opacity-0 z-10 relative"
       >
-        {/* Discord button */}
-        <div class="flex justify-center mb-6">
+        {/* Discord button and live server overview */}
+        <div class="flex justify-center mb-4">
           <a 
             ref={discordButtonRef}
-            href="https://discord.gg/hhYF8heujS" 
-            class="inline-block bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg text-lg shadow-lg"
+            href={DISCORD_INVITE_URL}
+            class="inline-block bg-primary hover:bg-primary-hover text-on-primary font-bold py-3 px-6 rounded-lg text-lg shadow-lg"
           >
-            <i class="fab fa-discord mr-2"></i> Join Discord Server
+            <i class="fab fa-discord me-2"></i> {t().app.joinDiscord}
           </a>
         </div>
+        <DiscordPanel />
+        
+        {/* Section links */}
+        <nav class="flex flex-wrap justify-center gap-2 mb-6 text-sm" aria-label={t().nav.label}>
+          <For each={NAV_ROUTES}>
+            {(name) => (
+              <a
+                href={`#${formatRoute({ name })}`}
+                class={`px-3 py-1 rounded-full border ${route().name === name || (name === 'games' && route().name === 'game') ? 'bg-primary text-on-primary border-primary' : 'border-primary-bright/50 hover:border-primary-ink'}`}
+                aria-current={route().name === name ? 'page' : undefined}
+              >
+                {t().nav[name]}
+              </a>
+            )}
+          </For>
+        </nav>
         
         {/* Mini-game */}
-        <DragGame ref={dragGameRef} containerRef={containerRef} />
+        <DragGame
+          ref={dragGameRef}
+          containerRef={containerRef}
+          onScoreChange={score => eventBus.emit('scoreChanged', { gameId: 'drag', score })}
+        />
+        
+        {/* Arcade with all registered games */}
+        <div ref={arcadeRef} class="scroll-mt-4">
+          <ArcadeHub onOpenGame={openGame} />
+          <TrophyCase />
+        </div>
         
         {/* Message section */}
         {showMessage() && (
           <div 
             ref={messageBoxRef}
-            class="mb-8 bg-gray-800/90 p-5 rounded-lg shadow-md opacity-0"
+            class="mb-8 scroll-mt-4 bg-page/90 p-5 rounded-lg shadow-md opacity-0"
           >
-            <h2 class="text-2xl text-indigo-400 mb-3 font-bold font-pixelify flex items-center">
-              <i class="fas fa-newspaper mr-2"></i> Important Links & News
+            <h2 class="text-2xl text-primary-ink mb-3 font-bold font-pixelify flex items-center">
+              <i class="fas fa-newspaper me-2"></i> {t().app.newsHeading}
             </h2>
-            <p class="text-lg mb-4 font-tagesschrift">
-              WE WILL MAKE IMPORTANTE LINKS HERE AND NEWS
-              and send this page to all members with out mobadra execute us 
-            </p>
-            <br />
-            <p>We are voting now to add gallery for deci.dev friends drawings</p>
+            <NewsList />
+          </div>
+        )}
+        
+        {/* Gallery section */}
+        {showMessage() && (
+          <div 
+            ref={galleryBoxRef}
+            class="mb-8 bg-page/90 p-5 rounded-lg shadow-md opacity-0"
+          >
+            <h2 class="text-2xl text-primary-ink mb-3 font-bold font-pixelify flex items-center">
+              <i class="fas fa-palette me-2"></i> {t().app.galleryHeading}
+            </h2>
+            <Gallery />
           </div>
         )}
         
         {/* Footer */}
-        <footer class="mt-8 text-center">
+        <footer ref={aboutRef} class="mt-8 text-center scroll-mt-4">
           <div 
             ref={footerBoxRef}
-            class="mb-6 bg-gray-800/90 p-4 rounded-lg opacity-0"
+            class="mb-6 bg-page/90 p-4 rounded-lg opacity-0"
           >
-            <p class="text-lg font-tagesschrift">
-              <i class="fas fa-lightbulb text-yellow-400 mr-2"></i>
-              We need ideas to add it in website to make deci.dev website soul like this mini games  
-              and please everyone who wants to share something in this page ask in discord server
+            <p class="text-lg font-tagesschrift mb-4">
+              <i class="fas fa-lightbulb text-highlight me-2"></i>
+              {t().app.ideasIntro}
             </p>
+            <IdeaForm />
           </div>
-          <p class="text-sm text-gray-400">
-            <i class="fas fa-code mr-1"></i> 
-            &copy; 2025 lizard. All rights reserved.
+          <p class="text-sm text-ink-muted">
+            <i class="fas fa-code me-1"></i> {t().app.copyright}
           </p>
         </footer>
       </div>
       
-      {/* Secret game modal */}
-      {showSecretGame() && (
-        <FlappyGame onClose={() => setShowSecretGame(false)} />
-      )}
+      {/* Arcade game modal */}
+      <Show when={activeGame()} keyed>
+        {(game) => <GameShell game={game} seed={pinnedSeed()} onClose={closeGame} />}
+      </Show>
+      
+      {/* Achievement unlock toasts */}
+      <AchievementToasts />
     </div>
   );
 };
@@ -1,223 +1,355 @@
-import { createSignal, createEffect, For, onMount, onCleanup } from 'solid-js';
+import { createEffect, createMemo, on, onCleanup, onMount } from 'solid-js';
+import { theme } from '../theme';
+import { createSeed, createStream } from '../utils';
+import {
+  createParticles,
+  Particle,
+  particlePose,
+  ParticlePose,
+  RIPPLE_DURATION,
+  Trophy,
+  TROPHY_SIZE,
+  trophyPose
+} from './backgroundParticles';
+import { onEvent } from './events';
+import { createReducedMotion } from './reducedMotion';
 
-// Type definitions
-declare const gsap: any;
+/**
+ * Imperative controls for the background, handed to the parent through `ref`
+ */
+export interface BackgroundController {
+  /** Send a wave through the icons from the center */
+  ripple: () => void;
+  /**
+   * Show a trophy
+   * @param x - Horizontal position as a percentage of the viewport
+   * @param y - Vertical position as a percentage of the viewport
+   */
+  celebrate: (x: number, y: number) => void;
+  /** Stop drawing until resumed, e.g. while a game covers the page */
+  pause: () => void;
+  resume: () => void;
+}
 
 // Props interface
 export interface BackgroundProps {
+  /** Receives the controller once the background is mounted */
+  ref?: BackgroundController | ((controller: BackgroundController) => void);
+  /** Maximum number of icons (default: 15) */
+  count?: number;
+  /** Font Awesome icon classes to draw (defaults to the theme's icon set) */
+  icons?: string[];
+  /** Icons per 100,000 square pixels of screen, capped by `count` (default: no limit) */
+  density?: number;
+  /** Seed for the icon scatter, so it can be reproduced (a fresh one each time by default) */
+  seed?: number;
   onCelebration?: () => void;
 }
 
+// Icons are rendered once per color at this size and scaled when drawn
+const SPRITE_SIZE = 64;
+
+// Frame interval on low-end devices, in seconds
+const LOW_END_FRAME_TIME = 1 / 30;
+
+// Longest step the clock takes between two frames, so a stalled tab does not jump
+const MAX_FRAME_TIME = 0.1;
+
+/**
+ * Guess whether the device should get a lighter background
+ */
+function isLowEndDevice(): boolean {
+  if (typeof navigator === 'undefined') return false;
+
+  const nav = navigator as Navigator & { deviceMemory?: number; connection?: { saveData?: boolean } };
+  return (
+    (nav.hardwareConcurrency !== undefined && nav.hardwareConcurrency <= 4) ||
+    (nav.deviceMemory !== undefined && nav.deviceMemory <= 4) ||
+    nav.connection?.saveData === true
+  );
+}
+
+/**
+ * Render a Font Awesome icon into a square sprite
+ * The glyph and font are read from the stylesheet, so any loaded icon class works.
+ * @returns Undefined when the icon is unknown
+ */
+function renderIconSprite(iconClass: string, color: string, pixelRatio: number): HTMLCanvasElement | undefined {
+  const probe = document.createElement('i');
+  probe.className = `fas ${iconClass}`;
+  probe.style.cssText = 'position:absolute;visibility:hidden';
+  document.body.appendChild(probe);
+
+  const glyph = getComputedStyle(probe, '::before').content.replace(/^["']|["']$/g, '');
+  const { fontFamily, fontWeight } = getComputedStyle(probe);
+  probe.remove();
+  if (!glyph || glyph === 'none') return undefined;
+
+  const sprite = document.createElement('canvas');
+  sprite.width = sprite.height = Math.ceil(SPRITE_SIZE * pixelRatio);
+  const context = sprite.getContext('2d');
+  if (!context) return undefined;
+
+  context.scale(pixelRatio, pixelRatio);
+  context.font = `${fontWeight} ${SPRITE_SIZE * 0.8}px ${fontFamily}`;
+  context.fillStyle = color;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(glyph, SPRITE_SIZE / 2, SPRITE_SIZE / 2);
+  return sprite;
+}
+
 /**
- * Animated background component with floating icons
+ * Animated background of floating icons drawn on a canvas
+ * Drawing pauses while the tab is hidden and is lighter on low-end devices.
  */
 export function Background(props: BackgroundProps) {
   // Refs
-  let backgroundRef: HTMLDivElement | undefined;
-  
-  // State for icons
-  const [iconsCount] = createSignal(15);
-  const [icons] = createSignal([
-    'fa-rocket', 'fa-star', 'fa-moon', 'fa-sun', 'fa-heart',
-    'fa-bolt', 'fa-code', 'fa-music', 'fa-fire', 'fa-gamepad'
-  ]);
-  const [floatingIcons, setFloatingIcons] = createSignal<{
-    id: number;
-    icon: string;
-    x: number;
-    y: number;
-    size: number;
-    rotation: number;
-  }[]>([]);
-  
+  let canvasRef: HTMLCanvasElement | undefined;
+
+  const reduced = createReducedMotion();
+  const lowEnd = isLowEndDevice();
+  const pixelRatio = lowEnd ? 1 : Math.min(window.devicePixelRatio || 1, 2);
+
+  const icons = createMemo(() => props.icons ?? theme().icons);
+
+  // Simulation state
+  let particles: Particle[] = [];
+  // Seed of the current scatter, kept so a resize only adds or drops icons at the end
+  let scatterSeed = props.seed ?? createSeed();
+  let trophies: Trophy[] = [];
+  let sprites: (HTMLCanvasElement | undefined)[] = [];
+  let trophySprite: HTMLCanvasElement | undefined;
+  let time = 0;
+  let rippleStart: number | null = null;
+  let width = 0;
+  let height = 0;
+
+  // Drawing loop state
+  let frameId: number | undefined;
+  let lastFrame: number | undefined;
+  const pauseReasons = new Set<'hidden' | 'paused'>();
+
   /**
-   * Create a ripple effect with the icons
-   * This can be called from outside the component
+   * Number of icons for the current screen size
    */
-  const createRippleEffect = () => {
-    gsap.to('.floating-icon', {
-      scale: 1.5,
-      opacity: 0.8,
-      stagger: 0.02,
-      duration: 0.5,
-      yoyo: true,
-      repeat: 1
-    });
+  const particleCount = () => {
+    let count = props.count ?? 15;
+    if (props.density !== undefined) {
+      count = Math.min(count, Math.round((width * height / 100000) * props.density));
+    }
+    return lowEnd ? Math.ceil(count / 2) : count;
   };
-  
+
   /**
-   * Add a trophy icon at a specific position
-   * @param x - X position (percentage)
-   * @param y - Y position (percentage)
+   * Whether something is moving and needs more frames
    */
-  const celebrate = (x: number, y: number) => {
-    // Add trophy icon
-    const tempIcons = [...floatingIcons()];
-    const newIcon = {
-      id: Date.now(),
-      icon: 'fa-trophy',
-      x: x,
-      y: y,
-      size: 2,
-      rotation: 0
-    };
-    
-    tempIcons.push(newIcon);
-    setFloatingIcons(tempIcons);
-    
-    // Animate the trophy
-    setTimeout(() => {
-      const trophyElement = document.getElementById(`floating-icon-${newIcon.id}`);
-      if (trophyElement) {
-        gsap.fromTo(trophyElement,
-          { opacity: 0, scale: 0.5 },
-          { 
-            opacity: 1, 
-            scale: 1.5, 
-            duration: 0.5,
-            ease: 'back.out',
-            onComplete: () => {
-              // Float upward and fade out
-              gsap.to(trophyElement, {
-                y: '-=100',
-                opacity: 0,
-                duration: 1.5,
-                ease: 'power1.in',
-                onComplete: () => {
-                  // Remove from icons array
-                  setFloatingIcons(prev => prev.filter(icon => icon.id !== newIcon.id));
-                }
-              });
-            }
-          }
-        );
-      }
-    }, 10);
-    
-    // Notify parent if needed
-    if (props.onCelebration) {
-      props.onCelebration();
-    }
+  const isAnimating = () =>
+    !reduced() ||
+    trophies.length > 0 ||
+    (rippleStart !== null && time - rippleStart < RIPPLE_DURATION);
+
+  /**
+   * Draw one sprite with a pose
+   */
+  const drawSprite = (context: CanvasRenderingContext2D, sprite: HTMLCanvasElement | undefined, size: number, pose: ParticlePose) => {
+    if (!sprite || pose.opacity <= 0) return;
+
+    const scale = (size * pose.scale) / SPRITE_SIZE;
+    const angle = (pose.rotation * Math.PI) / 180;
+    const cos = Math.cos(angle) * scale * pixelRatio;
+    const sin = Math.sin(angle) * scale * pixelRatio;
+
+    context.globalAlpha = Math.min(pose.opacity, 1);
+    context.setTransform(cos, sin, -sin, cos, pose.x * pixelRatio, pose.y * pixelRatio);
+    context.drawImage(sprite, -SPRITE_SIZE / 2, -SPRITE_SIZE / 2, SPRITE_SIZE, SPRITE_SIZE);
   };
-  
+
   /**
-   * Set up the advanced animation timeline for background icons
+   * Draw the current frame
    */
-  const setupAnimation = () => {
-    // Create a timeline for more complex animations
-    const iconTimeline = gsap.timeline({ repeat: -1 });
-    
-    // First phase: Make icons float up and down
-    iconTimeline.to('.floating-icon', {
-      y: '+=30',
-      x: '+=10',
-      rotation: '+=60',
-      duration: 3,
-      ease: 'sine.inOut',
-      stagger: {
-        each: 0.1,
-        from: 'random'
-      }
-    });
-    
-    // Second phase: Scatter icons
-    iconTimeline.to('.floating-icon', {
-      x: (i) => `${gsap.utils.random(-50, 50)}%`,
-      y: (i) => `${gsap.utils.random(-30, 30)}%`,
-      scale: (i) => gsap.utils.random(0.8, 1.2),
-      rotation: '+=180',
-      duration: 4,
-      ease: 'power1.inOut',
-      stagger: {
-        each: 0.05,
-        from: 'center'
-      }
+  const draw = () => {
+    const context = canvasRef?.getContext('2d');
+    if (!context || !canvasRef) return;
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.clearRect(0, 0, canvasRef.width, canvasRef.height);
+
+    particles.forEach(particle => {
+      drawSprite(context, sprites[particle.icon], particle.size, particlePose(particle, width, height, time, rippleStart, reduced()));
     });
-    
-    // Third phase: Gather icons to center and then scatter again
-    iconTimeline.to('.floating-icon', {
-      x: '0%',
-      y: '0%',
-      scale: 1.5,
-      opacity: 0.8,
-      duration: 2,
-      ease: 'back.in(1.2)',
-      stagger: 0.03
-    }).to('.floating-icon', {
-      x: (i) => `${gsap.utils.random(-100, 100)}%`,
-      y: (i) => `${gsap.utils.random(-100, 100)}%`,
-      scale: (i) => gsap.utils.random(0.5, 1.5),
-      opacity: (i) => gsap.utils.random(0.1, 0.3),
-      rotation: '+=360',
-      duration: 3,
-      ease: 'power2.out',
-      stagger: 0.02
+
+    trophies = trophies.filter(trophy => {
+      const pose = trophyPose(trophy, width, height, time, reduced());
+      if (pose) drawSprite(context, trophySprite, TROPHY_SIZE, pose);
+      return pose !== null;
     });
+
+    context.globalAlpha = 1;
   };
-  
+
   /**
-   * Handle trophy event from other components
+   * Advance the clock and draw, then schedule the next frame while needed
    */
-  const handleTrophyEvent = (e: CustomEvent) => {
-    if (e.detail && typeof e.detail.x === 'number' && typeof e.detail.y === 'number') {
-      celebrate(e.detail.x, e.detail.y);
+  const frame = (now: number) => {
+    frameId = undefined;
+    const elapsed = lastFrame === undefined ? 0 : (now - lastFrame) / 1000;
+
+    // Low-end devices skip frames to stay near 30fps
+    if (lowEnd && lastFrame !== undefined && elapsed < LOW_END_FRAME_TIME) {
+      schedule();
+      return;
     }
+
+    lastFrame = now;
+    time += Math.min(elapsed, MAX_FRAME_TIME);
+    draw();
+    schedule();
   };
-  
-  // Generate initial floating icons
-  createEffect(() => {
-    const newIcons = [];
-    for (let i = 0; i < iconsCount(); i++) {
-      newIcons.push({
-        id: i,
-        icon: icons()[Math.floor(Math.random() * icons().length)],
-        x: Math.random() * 100, 
-        y: Math.random() * 100,
-        size: Math.random() * 1.5 + 1,
-        rotation: Math.random() * 360
-      });
+
+  /**
+   * Request a frame unless paused or idle
+   */
+  const schedule = () => {
+    if (frameId !== undefined || pauseReasons.size > 0 || !isAnimating()) {
+      if (frameId === undefined) lastFrame = undefined;
+      return;
     }
-    setFloatingIcons(newIcons);
-  });
-  
-  // Set up animations and event listeners
+    frameId = requestAnimationFrame(frame);
+  };
+
+  /**
+   * Stop drawing for a reason, until it is cleared
+   */
+  const stop = (reason: 'hidden' | 'paused') => {
+    pauseReasons.add(reason);
+    if (frameId !== undefined) cancelAnimationFrame(frameId);
+    frameId = undefined;
+    lastFrame = undefined;
+  };
+
+  /**
+   * Clear a pause reason and carry on if nothing else holds the background
+   */
+  const start = (reason: 'hidden' | 'paused') => {
+    pauseReasons.delete(reason);
+    schedule();
+  };
+
+  /**
+   * Match the canvas resolution to its size on screen
+   */
+  const resize = () => {
+    if (!canvasRef) return;
+
+    width = canvasRef.clientWidth;
+    height = canvasRef.clientHeight;
+    canvasRef.width = Math.round(width * pixelRatio);
+    canvasRef.height = Math.round(height * pixelRatio);
+
+    if (particles.length !== particleCount()) {
+      scatter(icons().length);
+    }
+    draw();
+  };
+
+  /**
+   * Place the particles for the current seed
+   * The same seed always yields the same leading particles, whatever the count.
+   */
+  const scatter = (iconCount: number) => {
+    particles = createParticles(particleCount(), iconCount, createStream(scatterSeed, 'background'));
+  };
+
+  /**
+   * Render the sprites for the current icon set and colors
+   */
+  const renderSprites = () => {
+    const { colors } = theme();
+    sprites = icons().map(icon => renderIconSprite(icon, colors.icon, pixelRatio));
+    trophySprite = renderIconSprite('fa-trophy', colors.highlight, pixelRatio);
+    draw();
+  };
+
+  const controller: BackgroundController = {
+    ripple: () => {
+      rippleStart = time;
+      schedule();
+    },
+    celebrate: (x: number, y: number) => {
+      trophies.push({ x: x / 100, y: y / 100, start: time });
+      schedule();
+      props.onCelebration?.();
+    },
+    pause: () => stop('paused'),
+    resume: () => start('paused')
+  };
+
+  /**
+   * Follow tab visibility
+   */
+  const handleVisibilityChange = () => {
+    if (document.hidden) {
+      stop('hidden');
+    } else {
+      start('hidden');
+    }
+  };
+
+  // Games announce hits with a trophy position
+  onEvent('trophy', ({ x, y }) => controller.celebrate(x, y));
+
+  // New icon set: scatter new particles and render their sprites
+  createEffect(on(icons, iconSet => {
+    scatter(iconSet.length);
+    renderSprites();
+  }, { defer: true }));
+
+  // A pinned seed reproduces its scatter
+  createEffect(on(() => props.seed, seed => {
+    scatterSeed = seed ?? createSeed();
+    scatter(icons().length);
+    draw();
+  }, { defer: true }));
+
+  // Theme colors changed
+  createEffect(on(theme, renderSprites, { defer: true }));
+
+  // Calm mode stops the ambient motion; a still frame is drawn instead
+  createEffect(on(reduced, () => {
+    draw();
+    schedule();
+  }, { defer: true }));
+
   onMount(() => {
-    setupAnimation();
-    
-    // Listen for trophy events
-    document.addEventListener('addTrophy', handleTrophyEvent as EventListener);
+    resize();
+    renderSprites();
+
+    // Icon glyphs are only available once the icon font has loaded
+    document.fonts?.addEventListener('loadingdone', renderSprites);
+    onCleanup(() => document.fonts?.removeEventListener('loadingdone', renderSprites));
+
+    const observer = new ResizeObserver(resize);
+    if (canvasRef) observer.observe(canvasRef);
+    onCleanup(() => observer.disconnect());
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (document.hidden) pauseReasons.add('hidden');
+
+    schedule();
+    (props.ref as ((controller: BackgroundController) => void) | undefined)?.(controller);
   });
-  
-  // Clean up event listeners
+
   onCleanup(() => {
-    document.removeEventListener('addTrophy', handleTrophyEvent as EventListener);
+    if (frameId !== undefined) cancelAnimationFrame(frameId);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
   });
-  
+
   return (
-    <div ref={backgroundRef} class="absolute inset-0 overflow-hidden pointer-events-none">
-      <For each={floatingIcons()}>
-        {(icon) => (
-          <div 
-            id={`floating-icon-${icon.id}`}
-            class="floating-icon absolute text-indigo-500 opacity-20"
-            style={{
-              left: `${icon.x}%`,
-              top: `${icon.y}%`,
-              'font-size': `${icon.size}rem`,
-              transform: `rotate(${icon.rotation}deg)`
-            }}
-          >
-            <i class={`fas ${icon.icon}`}></i>
-          </div>
-        )}
-      </For>
-    </div>
+    <canvas
+      ref={canvasRef}
+      class="fixed inset-0 w-full h-full pointer-events-none"
+      aria-hidden="true"
+    />
   );
 }
-
-// For external component access (expose the ripple effect)
-Background.prototype.createRippleEffect = function() {
-  if (this.createRippleEffect) {
-    this.createRippleEffect();
-  }
-}; 
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { createSignal, For, onMount, Show } from 'solid-js';
+import { DiscordMember, DiscordServerInfo, DiscordWidget, discordWidget } from '../utils';
+import { t } from '../i18n';
+
+// Online members shown as avatars
+const MAX_AVATARS = 8;
+
+// Status dot colors
+const STATUS_CLASSES: Record<DiscordMember['status'], string> = {
+  online: 'bg-primary-bright',
+  idle: 'bg-highlight',
+  dnd: 'bg-danger'
+};
+
+// Props interface
+export interface DiscordPanelProps {
+  /** Where server info is fetched from (defaults to the configured widget) */
+  widget?: DiscordWidget;
+}
+
+/**
+ * Live overview of the Discord server: name, online and member counts, and who is online
+ * Shows a static invitation when Discord cannot be reached and nothing is cached.
+ */
+export function DiscordPanel(props: DiscordPanelProps) {
+  const [info, setInfo] = createSignal<DiscordServerInfo | null>(null);
+  const [loading, setLoading] = createSignal(true);
+
+  const widget = () => props.widget ?? discordWidget;
+
+  onMount(async () => {
+    try {
+      setInfo(await widget().getInfo());
+    } catch (e) {
+      console.warn('Failed to load Discord server info', e);
+    } finally {
+      setLoading(false);
+    }
+  });
+
+  const shownMembers = () => info()?.members.slice(0, MAX_AVATARS) ?? [];
+  const hiddenCount = () => Math.max(0, (info()?.onlineCount ?? 0) - shownMembers().length);
+
+  return (
+    <section class="mb-6 p-4 rounded-lg bg-well/60 text-sm" aria-busy={loading()}>
+      <div class="flex flex-wrap items-center gap-3">
+        <i class="fab fa-discord text-3xl text-primary-ink" aria-hidden="true"></i>
+        <div class="flex-1 min-w-0">
+          <p class="font-pixelify text-lg text-primary-ink truncate">{info()?.name ?? t().discord.fallbackName}</p>
+          <Show
+            when={info()}
+            fallback={<p class="text-xs text-ink-muted">{loading() ? t().discord.loading : t().discord.fallback}</p>}
+          >
+            {(current) => (
+              <p class="flex flex-wrap gap-x-3 text-xs text-ink-soft">
+                <Show when={current().onlineCount !== undefined}>
+                  <span>
+                    <span class="inline-block w-2 h-2 me-1 rounded-full bg-primary-bright" aria-hidden="true"></span>
+                    {t().discord.online(current().onlineCount!)}
+                  </span>
+                </Show>
+                <Show when={current().memberCount !== undefined}>
+                  <span>
+                    <i class="fas fa-users me-1" aria-hidden="true"></i>
+                    {t().discord.members(current().memberCount!)}
+                  </span>
+                </Show>
+              </p>
+            )}
+          </Show>
+        </div>
+
+        <Show when={shownMembers().length > 0}>
+          <div class="flex items-center gap-2">
+            <ul class="flex -space-x-2 rtl:space-x-reverse" aria-label={t().discord.membersOnline}>
+              <For each={shownMembers()}>
+                {(member) => (
+                  <li class="relative" title={member.username}>
+                    <Show
+                      when={member.avatarUrl}
+                      fallback={
+                        <span class="flex items-center justify-center w-8 h-8 rounded-full ring-2 ring-panel bg-primary text-on-primary font-bold">
+                          {member.username.charAt(0).toUpperCase()}
+                        </span>
+                      }
+                    >
+                      {(url) => (
+                        <img
+                          src={url()}
+                          alt=""
+                          class="w-8 h-8 rounded-full ring-2 ring-panel bg-well object-cover"
+                          loading="lazy"
+                          referrerPolicy="no-referrer"
+                        />
+                      )}
+                    </Show>
+                    <span
+                      class={`absolute bottom-0 end-0 w-2.5 h-2.5 rounded-full ring-2 ring-panel ${STATUS_CLASSES[member.status]}`}
+                      aria-hidden="true"
+                    ></span>
+                    <span class="sr-only">{member.username}</span>
+                  </li>
+                )}
+              </For>
+            </ul>
+            <Show when={hiddenCount() > 0}>
+              <span class="text-xs text-ink-muted">{t().discord.more(hiddenCount())}</span>
+            </Show>
+          </div>
+        </Show>
+      </div>
+
+      <Show when={info()?.stale}>
+        <p class="mt-2 text-xs text-ink-faint">
+          <i class="fas fa-cloud me-1" aria-hidden="true"></i> {t().discord.stale}
+        </p>
+      </Show>
+    </section>
+  );
+}
+
+export default DiscordPanel;
@@ -0,0 +1,255 @@
+import { createEffect, createSignal, For, onCleanup, onMount, Show } from 'solid-js';
+import {
+  emptyIdeaDraft,
+  IDEA_CATEGORIES,
+  IDEA_LIMITS,
+  IdeaCategory,
+  IdeaDraft,
+  IdeaDraftStorage,
+  IdeaError,
+  IdeaErrors,
+  ideaTransport,
+  IdeaTransport,
+  LocalIdeaTransport,
+  SubmissionRateLimiter,
+  toIdeaSubmission,
+  validateIdea
+} from '../utils';
+import { t } from '../i18n';
+
+// Submissions faster than this after the first edit are treated as bots
+const MIN_FILL_TIME_MS = 3000;
+
+// Props interface
+export interface IdeaFormProps {
+  /** Where ideas are sent (defaults to the configured transport) */
+  transport?: IdeaTransport;
+  /** Autosave storage for the draft */
+  drafts?: IdeaDraftStorage;
+  /** Spam protection limiting submissions per browser */
+  rateLimiter?: SubmissionRateLimiter;
+}
+
+/**
+ * Form for sending website ideas to the maintainers
+ * The draft is autosaved; a honeypot field, a minimum fill time and a
+ * rate limit keep casual spam out.
+ */
+export function IdeaForm(props: IdeaFormProps) {
+  const transport = props.transport ?? ideaTransport;
+  const drafts = props.drafts ?? new IdeaDraftStorage();
+  const rateLimiter = props.rateLimiter ?? new SubmissionRateLimiter();
+  const localQueue = transport instanceof LocalIdeaTransport ? transport : null;
+
+  // State
+  const [draft, setDraft] = createSignal<IdeaDraft>(drafts.load());
+  const [touched, setTouched] = createSignal<Partial<Record<keyof IdeaDraft, boolean>>>({});
+  const [honeypot, setHoneypot] = createSignal('');
+  const [submitting, setSubmitting] = createSignal(false);
+  const [status, setStatus] = createSignal<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [queueSize, setQueueSize] = createSignal(localQueue?.getQueue().length ?? 0);
+
+  // Fill time counts from the first edit in this visit, and not at all for a restored draft
+  let firstEditAt: number | undefined;
+  let restoredDraft = draft().description.trim() !== '' || draft().contact.trim() !== '';
+  const errors = (): IdeaErrors => validateIdea(draft());
+  const visibleError = (field: keyof IdeaDraft) => (touched()[field] ? errors()[field] : undefined);
+
+  /**
+   * Describe a field problem in the current language
+   */
+  const errorMessage = (field: keyof IdeaDraft) => {
+    const error: IdeaError | undefined = visibleError(field);
+    const messages = t().ideas.errors;
+    if (error === 'required') return messages.required;
+    if (error === 'tooShort') return messages.tooShort(IDEA_LIMITS.descriptionMin);
+    if (error === 'tooLong') return messages.tooLong(field === 'contact' ? IDEA_LIMITS.contactMax : IDEA_LIMITS.descriptionMax);
+    return undefined;
+  };
+
+  /**
+   * Update one field of the draft
+   */
+  const updateField = <K extends keyof IdeaDraft>(field: K, value: IdeaDraft[K]) => {
+    firstEditAt ??= Date.now();
+    setDraft(current => ({ ...current, [field]: value }));
+    setStatus(null);
+  };
+
+  /**
+   * Mark a field as visited so its error is shown
+   */
+  const touch = (field: keyof IdeaDraft) => setTouched(current => ({ ...current, [field]: true }));
+
+  /**
+   * Clear the form after a successful submission
+   */
+  const resetForm = () => {
+    setDraft(emptyIdeaDraft());
+    setTouched({});
+    drafts.clear();
+    firstEditAt = undefined;
+    restoredDraft = false;
+  };
+
+  /**
+   * Validate and send the idea
+   */
+  const submitIdea = async (e: Event) => {
+    e.preventDefault();
+    if (submitting()) return;
+
+    setTouched({ category: true, description: true, contact: true });
+    if (Object.keys(errors()).length > 0) return;
+
+    // Bots fill hidden fields and submit instantly; pretend it worked
+    const filledTooFast = !restoredDraft && firstEditAt !== undefined && Date.now() - firstEditAt < MIN_FILL_TIME_MS;
+    if (honeypot() || filledTooFast) {
+      resetForm();
+      setStatus({ type: 'success', message: t().ideas.sent });
+      return;
+    }
+
+    const wait = rateLimiter.retryAfter();
+    if (wait > 0) {
+      setStatus({ type: 'error', message: t().ideas.rateLimited(Math.ceil(wait / 60000)) });
+      return;
+    }
+
+    setSubmitting(true);
+    setStatus(null);
+    try {
+      await transport.send(toIdeaSubmission(draft()));
+      rateLimiter.record();
+      resetForm();
+      setStatus({
+        type: 'success',
+        message: localQueue ? t().ideas.queued : t().ideas.sent
+      });
+    } catch (e) {
+      console.warn('Failed to send idea', e);
+      setStatus({ type: 'error', message: t().ideas.sendFailed });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Download the locally queued ideas as a JSON file
+   */
+  const downloadQueue = () => {
+    if (!localQueue) return;
+
+    const blob = new Blob([localQueue.exportJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'deci-dev-ideas.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Autosave the draft as it is typed
+  createEffect(() => drafts.save(draft()));
+
+  onMount(() => {
+    if (!localQueue) return;
+    const unsubscribe = localQueue.subscribe(() => setQueueSize(localQueue.getQueue().length));
+    onCleanup(unsubscribe);
+  });
+
+  const fieldClass = (field: keyof IdeaDraft) =>
+    `w-full bg-well border rounded px-2 py-1 ${visibleError(field) ? 'border-danger' : 'border-primary-bright/50'}`;
+
+  return (
+    <form class="text-start space-y-3" onSubmit={submitIdea} novalidate>
+      <label class="block">
+        <span class="block text-sm text-ink-soft mb-1">{t().ideas.category}</span>
+        <select
+          class={fieldClass('category')}
+          value={draft().category}
+          onChange={(e) => updateField('category', e.currentTarget.value as IdeaCategory)}
+          onBlur={() => touch('category')}
+          aria-invalid={!!visibleError('category')}
+          aria-describedby="idea-category-error"
+        >
+          <option value="">{t().ideas.chooseCategory}</option>
+          <For each={IDEA_CATEGORIES}>
+            {(category) => <option value={category}>{t().ideas.categories[category]}</option>}
+          </For>
+        </select>
+        <span id="idea-category-error" class="text-xs text-danger">{errorMessage('category')}</span>
+      </label>
+
+      <label class="block">
+        <span class="block text-sm text-ink-soft mb-1">{t().ideas.idea}</span>
+        <textarea
+          class={`${fieldClass('description')} min-h-24`}
+          value={draft().description}
+          maxLength={IDEA_LIMITS.descriptionMax}
+          placeholder={t().ideas.placeholder}
+          onInput={(e) => updateField('description', e.currentTarget.value)}
+          onBlur={() => touch('description')}
+          aria-invalid={!!visibleError('description')}
+          aria-describedby="idea-description-error"
+        />
+        <span class="flex justify-between text-xs">
+          <span id="idea-description-error" class="text-danger">{errorMessage('description')}</span>
+          <span class="text-ink-muted">{draft().description.trim().length}/{IDEA_LIMITS.descriptionMax}</span>
+        </span>
+      </label>
+
+      <label class="block">
+        <span class="block text-sm text-ink-soft mb-1">{t().ideas.contact} <span class="text-ink-faint">{t().ideas.contactHint}</span></span>
+        <input
+          class={fieldClass('contact')}
+          value={draft().contact}
+          maxLength={IDEA_LIMITS.contactMax}
+          autocomplete="off"
+          onInput={(e) => updateField('contact', e.currentTarget.value)}
+          onBlur={() => touch('contact')}
+          aria-invalid={!!visibleError('contact')}
+          aria-describedby="idea-contact-error"
+        />
+        <span id="idea-contact-error" class="text-xs text-danger">{errorMessage('contact')}</span>
+      </label>
+
+      {/* Honeypot: hidden from people, filled in by bots */}
+      <div class="absolute -start-[9999px]" aria-hidden="true">
+        <label>
+          {t().ideas.website}
+          <input tabIndex={-1} autocomplete="off" value={honeypot()} onInput={(e) => setHoneypot(e.currentTarget.value)} />
+        </label>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          class="bg-primary text-on-primary hover:bg-primary-hover rounded px-4 py-2 font-bold disabled:opacity-40"
+          disabled={submitting()}
+        >
+          <i class="fas fa-paper-plane rtl:-scale-x-100 me-2"></i>
+          {submitting() ? t().ideas.sending : t().ideas.send}
+        </button>
+        <Show when={localQueue && queueSize() > 0}>
+          <button type="button" class="text-sm text-primary-soft hover:underline" onClick={downloadQueue}>
+            <i class="fas fa-download me-1"></i> {t().ideas.download(queueSize())}
+          </button>
+        </Show>
+      </div>
+
+      <Show when={status()}>
+        {(current) => (
+          <p
+            class={`text-sm ${current().type === 'success' ? 'text-success' : 'text-danger'}`}
+            role={current().type === 'error' ? 'alert' : 'status'}
+          >
+            {current().message}
+          </p>
+        )}
+      </Show>
+    </form>
+  );
+}
+
+export default IdeaForm;
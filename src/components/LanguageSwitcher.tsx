@@ -0,0 +1,32 @@
+import { For } from 'solid-js';
+import { LOCALES, localePreference } from '../utils';
+import { getMessages, locale, t } from '../i18n';
+
+/**
+ * Switch the site language; each option is labelled in its own language
+ */
+export function LanguageSwitcher() {
+  return (
+    <div
+      role="group"
+      aria-label={t().language.label}
+      class="flex items-center gap-1 rounded-full bg-well/80 p-1 text-xs shadow-lg"
+    >
+      <i class="fas fa-language text-ink-muted mx-1" aria-hidden="true"></i>
+      <For each={LOCALES}>
+        {(option) => (
+          <button
+            class={`px-2 py-1 rounded-full ${locale() === option ? 'bg-primary text-on-primary' : 'text-ink-soft hover:text-ink'}`}
+            lang={option}
+            aria-pressed={locale() === option}
+            onClick={() => localePreference.setLocale(option)}
+          >
+            {getMessages(option).language.name}
+          </button>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default LanguageSwitcher;
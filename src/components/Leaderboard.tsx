@@ -0,0 +1,200 @@
+import { createSignal, For, Show, onMount, onCleanup } from 'solid-js';
+import { Portal } from 'solid-js/web';
+import { animation, motionPreference, scoreStorage } from '../utils';
+import { formatDate, t } from '../i18n';
+
+// Props interface
+export interface LeaderboardProps {
+  gameId: string;
+  title: string;
+  /** Score of a finished run not saved yet, offered for saving with initials */
+  pendingScore?: number;
+  /** Called once the pending score is saved; the owner should stop offering it */
+  onSave?: (rank: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Leaderboard panel showing the saved top scores of a mini-game
+ */
+export function Leaderboard(props: LeaderboardProps) {
+  // Refs
+  let panelRef: HTMLDivElement | undefined;
+  let fileInputRef: HTMLInputElement | undefined;
+
+  // State
+  const [version, setVersion] = createSignal(0);
+  const [initials, setInitials] = createSignal('');
+  const [savedRank, setSavedRank] = createSignal(0);
+  const [error, setError] = createSignal('');
+
+  const entries = () => {
+    version();
+    return scoreStorage.getTopScores(props.gameId);
+  };
+
+  const best = () => {
+    version();
+    return scoreStorage.getBest(props.gameId);
+  };
+
+  const canSave = () => {
+    version();
+    return props.pendingScore !== undefined && scoreStorage.qualifies(props.gameId, props.pendingScore);
+  };
+
+  /**
+   * Save the pending score under the entered initials
+   */
+  const saveScore = (e: Event) => {
+    e.preventDefault();
+    if (props.pendingScore === undefined || !initials().trim()) return;
+
+    const rank = scoreStorage.addEntry(props.gameId, initials(), props.pendingScore);
+    setSavedRank(rank);
+    if (rank > 0) props.onSave?.(rank);
+  };
+
+  /**
+   * Download all scores as a JSON file
+   */
+  const exportScores = () => {
+    const blob = new Blob([scoreStorage.exportJSON()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'deci-dev-scores.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Merge scores from a user-selected JSON file
+   */
+  const importScores = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      scoreStorage.importJSON(await file.text());
+      setError('');
+    } catch (err) {
+      console.warn('Failed to import scores', err);
+      setError(t().leaderboard.importFailed);
+    }
+  };
+
+  /**
+   * Close the panel on Escape
+   */
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      props.onClose();
+      e.preventDefault();
+    }
+  };
+
+  onMount(() => {
+    const unsubscribe = scoreStorage.subscribe(() => setVersion(v => v + 1));
+    onCleanup(unsubscribe);
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    if (panelRef) {
+      animation.fromTo(panelRef,
+        { y: motionPreference.isReduced() ? 0 : 20, opacity: 0 },
+        { y: 0, opacity: 1, duration: 0.3, ease: 'power2.out' }
+      );
+    }
+  });
+
+  onCleanup(() => {
+    document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <Portal>
+      <div
+        class="fixed inset-0 flex items-center justify-center bg-black/70 z-[60] p-4"
+        onClick={(e) => e.target === e.currentTarget && props.onClose()}
+      >
+        <div ref={panelRef} class="bg-page text-ink p-5 rounded-xl max-w-md w-full shadow-xl">
+          <div class="flex justify-between items-center mb-4">
+            <h3 class="text-2xl font-pixelify text-primary-ink">
+              <i class="fas fa-trophy text-highlight me-2"></i> {props.title}
+            </h3>
+            <button class="text-ink-muted hover:text-ink" onClick={props.onClose} aria-label={t().leaderboard.close}>
+              <i class="fas fa-times"></i>
+            </button>
+          </div>
+
+          <p class="mb-3">
+            {t().common.best}: <span class="text-highlight font-bold">{best()}</span>
+          </p>
+
+          {/* Save the last run */}
+          <Show when={canSave()}>
+            <form class="flex items-center gap-2 mb-4" onSubmit={saveScore}>
+              <span class="text-sm">{t().leaderboard.topRun} <span class="text-highlight font-bold">{props.pendingScore}</span></span>
+              <input
+                class="w-16 bg-well border border-primary-bright/50 rounded px-2 py-1 uppercase text-center font-pixelify"
+                maxLength={3}
+                placeholder="AAA"
+                aria-label={t().leaderboard.initials}
+                value={initials()}
+                onInput={(e) => setInitials(e.currentTarget.value)}
+              />
+              <button type="submit" class="bg-primary text-on-primary hover:bg-primary-hover rounded px-3 py-1 text-sm font-bold">
+                {t().leaderboard.save}
+              </button>
+            </form>
+          </Show>
+
+          <Show when={savedRank() > 0}>
+            <p class="mb-4 text-sm text-success">{t().leaderboard.savedAt(savedRank())}</p>
+          </Show>
+
+          {/* Top scores */}
+          <Show
+            when={entries().length > 0}
+            fallback={<p class="text-ink-muted text-sm italic mb-4">{t().leaderboard.empty}</p>}
+          >
+            <ol class="mb-4 space-y-1 font-pixelify">
+              <For each={entries()}>
+                {(entry, index) => (
+                  <li class="flex justify-between bg-well/60 rounded px-3 py-1">
+                    <span class="w-8 text-ink-muted">#{index() + 1}</span>
+                    <span class="flex-1">{entry.initials}</span>
+                    <span class="w-16 text-end text-highlight">{entry.score}</span>
+                    <span class="w-24 text-end text-ink-muted text-sm">
+                      {formatDate(entry.date)}
+                    </span>
+                  </li>
+                )}
+              </For>
+            </ol>
+          </Show>
+
+          {/* Export and import */}
+          <div class="flex gap-2 text-sm">
+            <button class="bg-panel hover:bg-panel-hover rounded px-3 py-1" onClick={exportScores}>
+              <i class="fas fa-download me-1"></i> {t().leaderboard.export}
+            </button>
+            <button class="bg-panel hover:bg-panel-hover rounded px-3 py-1" onClick={() => fileInputRef?.click()}>
+              <i class="fas fa-upload me-1"></i> {t().leaderboard.import}
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" class="hidden" onChange={importScores} />
+          </div>
+
+          <Show when={error()}>
+            <p class="mt-2 text-sm text-danger">{error()}</p>
+          </Show>
+        </div>
+      </div>
+    </Portal>
+  );
+}
+
+export default Leaderboard;
@@ -0,0 +1,48 @@
+import { createSignal, For, onCleanup } from 'solid-js';
+import { MOTION_SETTINGS, motionPreference, MotionSetting } from '../utils';
+import { t } from '../i18n';
+
+// Icons for each setting
+const SETTING_ICONS: Record<MotionSetting, string> = {
+  system: 'fa-desktop',
+  reduced: 'fa-feather',
+  full: 'fa-wand-magic-sparkles'
+};
+
+/**
+ * Switch between following the OS motion setting, calm mode and full animations
+ */
+export function MotionToggle() {
+  const [setting, setSetting] = createSignal(motionPreference.getSetting());
+  const [reduced, setReduced] = createSignal(motionPreference.isReduced());
+
+  onCleanup(motionPreference.subscribe(() => {
+    setSetting(motionPreference.getSetting());
+    setReduced(motionPreference.isReduced());
+  }));
+
+  return (
+    <div
+      role="group"
+      aria-label={t().motion.label}
+      class="flex items-center gap-1 rounded-full bg-well/80 p-1 text-xs shadow-lg"
+      title={reduced() ? t().motion.isReduced : t().motion.isFull}
+    >
+      <i class="fas fa-person-running text-ink-muted mx-1" aria-hidden="true"></i>
+      <For each={MOTION_SETTINGS}>
+        {(option) => (
+          <button
+            class={`px-2 py-1 rounded-full ${setting() === option ? 'bg-primary text-on-primary' : 'text-ink-soft hover:text-ink'}`}
+            aria-pressed={setting() === option}
+            onClick={() => motionPreference.setSetting(option)}
+          >
+            <i class={`fas ${SETTING_ICONS[option]} me-1`} aria-hidden="true"></i>
+            {t().motion[option]}
+          </button>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default MotionToggle;
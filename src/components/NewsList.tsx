@@ -0,0 +1,127 @@
+import { createMemo, createSignal, For, Show } from 'solid-js';
+import { collectTags, getActiveNews, NewsItem } from '../content/news';
+import { getPoll } from '../content/polls';
+import { formatDate, t } from '../i18n';
+import { PollWidget } from './PollWidget';
+
+// Props interface
+export interface NewsListProps {
+  /** Items to show (defaults to the active news collection) */
+  items?: NewsItem[];
+  /** Number of items per page */
+  pageSize?: number;
+}
+
+/**
+ * Paginated news list with tag filtering
+ */
+export function NewsList(props: NewsListProps) {
+  // State
+  const [activeTag, setActiveTag] = createSignal<string | null>(null);
+  const [page, setPage] = createSignal(0);
+
+  const items = createMemo(() => props.items ?? getActiveNews());
+  const tags = createMemo(() => collectTags(items()));
+  const pageSize = () => props.pageSize ?? 3;
+
+  const filtered = createMemo(() => {
+    const tag = activeTag();
+    return tag ? items().filter(item => item.tags.includes(tag)) : items();
+  });
+
+  const pageCount = () => Math.max(1, Math.ceil(filtered().length / pageSize()));
+  const visible = () => filtered().slice(page() * pageSize(), (page() + 1) * pageSize());
+
+  /**
+   * Toggle a tag filter and go back to the first page
+   */
+  const selectTag = (tag: string | null) => {
+    setActiveTag(current => (current === tag ? null : tag));
+    setPage(0);
+  };
+
+  return (
+    <div>
+      {/* Tag filter */}
+      <Show when={tags().length > 0}>
+        <div class="flex flex-wrap gap-2 mb-4 text-sm">
+          <button
+            class={`px-2 py-0.5 rounded-full border ${activeTag() === null ? 'bg-primary text-on-primary border-primary' : 'border-primary-bright/50 hover:border-primary-ink'}`}
+            onClick={() => selectTag(null)}
+          >
+            {t().news.all}
+          </button>
+          <For each={tags()}>
+            {(tag) => (
+              <button
+                class={`px-2 py-0.5 rounded-full border ${activeTag() === tag ? 'bg-primary text-on-primary border-primary' : 'border-primary-bright/50 hover:border-primary-ink'}`}
+                onClick={() => selectTag(tag)}
+              >
+                #{tag}
+              </button>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      {/* Items */}
+      <Show
+        when={visible().length > 0}
+        fallback={<p class="text-ink-muted italic">{t().news.empty}</p>}
+      >
+        <ul class="space-y-4">
+          <For each={visible()}>
+            {(item) => (
+              <li class="border-s-4 border-primary-bright/60 ps-3">
+                <div class="flex items-center gap-2 text-xs text-ink-muted mb-1">
+                  <Show when={item.pinned}>
+                    <i class="fas fa-thumbtack text-highlight" title={t().news.pinned}></i>
+                  </Show>
+                  <time datetime={item.date}>{formatDate(item.date)}</time>
+                  <For each={item.tags}>
+                    {(tag) => <span class="text-primary-soft">#{tag}</span>}
+                  </For>
+                </div>
+                {/* Posts keep the language they were written in */}
+                <h4 class="text-lg font-bold font-pixelify" dir="auto">
+                  <Show when={item.url} fallback={item.title}>
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" class="text-primary-soft hover:underline">
+                      {item.title} <i class="fas fa-external-link-alt text-xs"></i>
+                    </a>
+                  </Show>
+                </h4>
+                <div class="news-body font-tagesschrift" dir="auto" innerHTML={item.html} />
+                <Show when={item.poll && getPoll(item.poll)}>
+                  {(poll) => <PollWidget poll={poll()} />}
+                </Show>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      {/* Pagination */}
+      <Show when={pageCount() > 1}>
+        <div class="flex items-center justify-between mt-4 text-sm">
+          <button
+            class="px-3 py-1 rounded bg-panel hover:bg-panel-hover disabled:opacity-40"
+            disabled={page() === 0}
+            onClick={() => setPage(p => p - 1)}
+          >
+            <i class="fas fa-chevron-left rtl:rotate-180 me-1"></i> {t().news.newer}
+          </button>
+          <span class="text-ink-muted">{t().news.page(page() + 1, pageCount())}</span>
+          <button
+            class="px-3 py-1 rounded bg-panel hover:bg-panel-hover disabled:opacity-40"
+            disabled={page() >= pageCount() - 1}
+            onClick={() => setPage(p => p + 1)}
+          >
+            {t().news.older} <i class="fas fa-chevron-right rtl:rotate-180 ms-1"></i>
+          </button>
+        </div>
+      </Show>
+    </div>
+  );
+}
+
+export default NewsList;
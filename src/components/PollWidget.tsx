@@ -0,0 +1,196 @@
+import { createEffect, createMemo, createSignal, For, on, onCleanup, onMount, Show } from 'solid-js';
+import { isPollOpen, Poll } from '../content/polls';
+import { animation, motionPreference, pollStorage, PollResults, PollStorageAdapter, voteLedger } from '../utils';
+import { t } from '../i18n';
+
+// Props interface
+export interface PollWidgetProps {
+  poll: Poll;
+  /** Where results are read from and votes sent to (defaults to the configured storage) */
+  storage?: PollStorageAdapter;
+}
+
+/**
+ * Community poll with single- or multi-choice answers
+ * Results are shown with animated bars once this browser has voted or the poll has closed.
+ */
+export function PollWidget(props: PollWidgetProps) {
+  // State
+  const [results, setResults] = createSignal<PollResults | null>(null);
+  const [selected, setSelected] = createSignal<string[]>([]);
+  const [loading, setLoading] = createSignal(true);
+  const [submitting, setSubmitting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [myVote, setMyVote] = createSignal(voteLedger.getVote(props.poll.id));
+  // Result list, a signal so the bars animate once it is rendered
+  const [bars, setBars] = createSignal<HTMLUListElement>();
+
+  const storage = () => props.storage ?? pollStorage;
+  const open = () => isPollOpen(props.poll);
+  const showResults = () => myVote() !== null || !open();
+  const inputName = `poll-${props.poll.id}`;
+
+  const percentages = createMemo(() => {
+    const current = results();
+    return Object.fromEntries(props.poll.options.map(option => {
+      const count = current?.counts[option.id] ?? 0;
+      return [option.id, current && current.total > 0 ? Math.round((count / current.total) * 100) : 0];
+    }));
+  });
+
+  /**
+   * Load the latest results
+   */
+  const loadResults = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setResults(await storage().getResults(props.poll));
+    } catch (e) {
+      console.warn('Failed to load poll results', e);
+      setError(t().poll.loadFailed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Pick or unpick an answer
+   */
+  const toggleOption = (id: string) => {
+    setSelected(current => {
+      if (!props.poll.multiple) return [id];
+      return current.includes(id) ? current.filter(other => other !== id) : [...current, id];
+    });
+  };
+
+  /**
+   * Send the ballot
+   */
+  const submitVote = async (e: Event) => {
+    e.preventDefault();
+    if (submitting()) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      setResults(await storage().submitVote(props.poll, selected()));
+    } catch (e) {
+      // The server may know about a vote this browser forgot; show fresh results instead
+      if (voteLedger.hasVoted(props.poll.id)) {
+        loadResults();
+      } else {
+        console.warn('Failed to send vote', e);
+        setError(t().poll.voteFailed);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Grow the bars from zero whenever results appear or change (calm mode shows them as they are)
+  createEffect(on([bars, results], ([list, current]) => {
+    if (!list || !current || motionPreference.isReduced()) return;
+
+    list.querySelectorAll<HTMLElement>('[data-bar]').forEach(bar => {
+      animation.fromTo(bar, { width: '0%' }, { width: `${percentages()[bar.dataset.bar!]}%`, duration: 0.8, ease: 'power2.out' });
+    });
+  }));
+
+  onMount(() => {
+    loadResults();
+
+    // Follow votes cast in another widget showing the same poll
+    const unsubscribe = voteLedger.subscribe(() => setMyVote(voteLedger.getVote(props.poll.id)));
+    onCleanup(unsubscribe);
+  });
+
+  return (
+    <section class="mt-3 rounded-lg bg-well/60 border border-primary-bright/40 p-3" aria-labelledby={`${inputName}-question`}>
+      <h5 id={`${inputName}-question`} class="font-bold text-primary-faint mb-2" dir="auto">
+        <i class="fas fa-poll me-2 text-highlight"></i>
+        {props.poll.question}
+      </h5>
+
+      <Show
+        when={showResults()}
+        fallback={
+          <form onSubmit={submitVote}>
+            <fieldset class="space-y-1" disabled={submitting()}>
+              <legend class="sr-only">{props.poll.question}</legend>
+              <For each={props.poll.options}>
+                {(option) => (
+                  <label class="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type={props.poll.multiple ? 'checkbox' : 'radio'}
+                      name={inputName}
+                      value={option.id}
+                      checked={selected().includes(option.id)}
+                      onChange={() => toggleOption(option.id)}
+                      class="accent-primary-bright"
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                )}
+              </For>
+            </fieldset>
+            <div class="flex items-center gap-3 mt-3 text-sm">
+              <button
+                type="submit"
+                class="px-3 py-1 rounded bg-primary text-on-primary hover:bg-primary-hover disabled:opacity-40"
+                disabled={selected().length === 0 || submitting()}
+              >
+                {submitting() ? t().poll.sending : t().poll.vote}
+              </button>
+              <Show when={props.poll.multiple}>
+                <span class="text-ink-muted">{t().poll.pickMany}</span>
+              </Show>
+            </div>
+          </form>
+        }
+      >
+        <Show when={!loading()} fallback={<p class="text-sm text-ink-muted">{t().poll.loading}</p>}>
+          <ul ref={setBars} class="space-y-2 text-sm">
+            <For each={props.poll.options}>
+              {(option) => (
+                <li>
+                  <div class="flex justify-between mb-0.5">
+                    <span>
+                      {option.label}
+                      <Show when={myVote()?.includes(option.id)}>
+                        <i class="fas fa-check text-success ms-2" title={t().poll.yourVote}></i>
+                      </Show>
+                    </span>
+                    <span class="text-ink-muted">{percentages()[option.id]}%</span>
+                  </div>
+                  <div class="h-2 rounded bg-panel overflow-hidden">
+                    <div
+                      data-bar={option.id}
+                      class="h-full rounded bg-primary-bright"
+                      style={{ width: `${percentages()[option.id]}%` }}
+                    />
+                  </div>
+                </li>
+              )}
+            </For>
+          </ul>
+          <p class="text-xs text-ink-muted mt-2">
+            {t().poll.votes(results()?.total ?? 0)}
+            {open() ? '' : ` · ${t().poll.closed}`}
+          </p>
+        </Show>
+      </Show>
+
+      <Show when={error()}>
+        <p class="text-sm text-danger mt-2" role="alert">
+          {error()}
+          <Show when={!submitting()}>
+            <button class="ms-2 underline" onClick={loadResults}>{t().poll.retry}</button>
+          </Show>
+        </p>
+      </Show>
+    </section>
+  );
+}
+
+export default PollWidget;
@@ -0,0 +1,65 @@
+import { createSignal, For, onCleanup, Show } from 'solid-js';
+import { AUDIO_CHANNELS, audioPreference } from '../utils';
+import { t } from '../i18n';
+
+/**
+ * Mute button with an expandable panel of volume sliders
+ */
+export function SoundControl() {
+  const [settings, setSettings] = createSignal(audioPreference.getSettings());
+  const [open, setOpen] = createSignal(false);
+
+  onCleanup(audioPreference.subscribe(() => setSettings(audioPreference.getSettings())));
+
+  return (
+    <div class="flex flex-col items-end gap-2 rounded-2xl bg-well/80 p-1 text-xs shadow-lg">
+      <div role="group" aria-label={t().sound.label} class="flex items-center gap-1">
+        <button
+          class={`px-2 py-1 rounded-full ${settings().muted ? 'text-ink-soft hover:text-ink' : 'bg-primary text-on-primary'}`}
+          aria-pressed={!settings().muted}
+          aria-label={settings().muted ? t().sound.unmute : t().sound.mute}
+          title={settings().muted ? t().sound.unmute : t().sound.mute}
+          onClick={() => audioPreference.setMuted(!settings().muted)}
+        >
+          <i class={`fas ${settings().muted ? 'fa-volume-xmark' : 'fa-volume-high'}`} aria-hidden="true"></i>
+        </button>
+        <button
+          class="px-2 py-1 rounded-full text-ink-soft hover:text-ink"
+          aria-expanded={open()}
+          aria-controls="sound-settings"
+          aria-label={t().sound.settings}
+          title={t().sound.settings}
+          onClick={() => setOpen(value => !value)}
+        >
+          <i class="fas fa-sliders" aria-hidden="true"></i>
+        </button>
+      </div>
+
+      <Show when={open()}>
+        <div id="sound-settings" class="flex flex-col gap-2 w-48 px-2 pb-2">
+          <For each={AUDIO_CHANNELS}>
+            {(channel) => (
+              <label class="flex flex-col gap-1 text-ink-soft">
+                <span class="flex justify-between">
+                  {t().sound.volumes[channel]}
+                  <span class="tabular-nums text-ink-muted">{Math.round(settings().volumes[channel] * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  class="accent-primary"
+                  min={0}
+                  max={100}
+                  value={Math.round(settings().volumes[channel] * 100)}
+                  disabled={settings().muted}
+                  onInput={(e) => audioPreference.setVolume(channel, Number(e.currentTarget.value) / 100)}
+                />
+              </label>
+            )}
+          </For>
+        </div>
+      </Show>
+    </div>
+  );
+}
+
+export default SoundControl;
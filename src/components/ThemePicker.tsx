@@ -0,0 +1,50 @@
+import { createSignal, For, onCleanup } from 'solid-js';
+import { THEME_SETTINGS, themePreference, ThemeSetting } from '../utils';
+import { t } from '../i18n';
+import { theme } from '../theme';
+
+// Icons for each setting
+const SETTING_ICONS: Record<ThemeSetting, string> = {
+  system: 'fa-circle-half-stroke',
+  dark: 'fa-moon',
+  light: 'fa-sun',
+  contrast: 'fa-eye'
+};
+
+/**
+ * Switch between following the OS theme and a fixed dark, light or high-contrast theme
+ * Buttons show icons only; the active seasonal theme is named in the tooltip.
+ */
+export function ThemePicker() {
+  const [setting, setSetting] = createSignal(themePreference.getSetting());
+
+  onCleanup(themePreference.subscribe(() => setSetting(themePreference.getSetting())));
+
+  const season = () => theme().season;
+
+  return (
+    <div
+      role="group"
+      aria-label={t().theme.label}
+      class="flex items-center gap-1 rounded-full bg-well/80 p-1 text-xs shadow-lg"
+      title={season() ? t().theme.seasons[season()!] : t().theme.label}
+    >
+      <i class="fas fa-palette text-ink-muted mx-1" aria-hidden="true"></i>
+      <For each={THEME_SETTINGS}>
+        {(option) => (
+          <button
+            class={`px-2 py-1 rounded-full ${setting() === option ? 'bg-primary text-on-primary' : 'text-ink-soft hover:text-ink'}`}
+            aria-pressed={setting() === option}
+            aria-label={t().theme[option]}
+            title={t().theme[option]}
+            onClick={() => themePreference.setSetting(option)}
+          >
+            <i class={`fas ${SETTING_ICONS[option]}`} aria-hidden="true"></i>
+          </button>
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default ThemePicker;
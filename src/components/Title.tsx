@@ -1,7 +1,7 @@
-import { createSignal, onMount } from 'solid-js';
-
-// Type definitions
-declare const gsap: any;
+import { createEffect, createSignal, on, onCleanup, onMount } from 'solid-js';
+import { animation, AnimationHandle, eventBus } from '../utils';
+import { onEvent } from './events';
+import { createReducedMotion } from './reducedMotion';
 
 // Props interface
 export interface TitleProps {
@@ -19,15 +19,19 @@ export function Title(props: TitleProps) {
   
   // State
   const [isAnimating, setIsAnimating] = createSignal(false);
+  const reduced = createReducedMotion();
+  
+  // Endless glow and floating tweens, stopped in calm mode
+  let ambientTweens: AnimationHandle[] = [];
   
   /**
-   * Set up title animations with GSAP
+   * Start the endless glow and floating tweens
    */
-  const setupAnimations = () => {
+  const startAmbient = () => {
     if (!titleRef || !glowRef) return;
     
     // Set up glow effect
-    gsap.to(glowRef, {
+    const glow = animation.to(glowRef, {
       opacity: 0.6,
       scale: 1.2,
       duration: 2,
@@ -36,8 +40,41 @@ export function Title(props: TitleProps) {
       ease: 'sine.inOut'
     });
     
-    // Initial appearance animation
-    gsap.fromTo(titleRef, 
+    // Add floating animation
+    const float = animation.to(titleRef, {
+      y: -10,
+      duration: 2,
+      repeat: -1,
+      yoyo: true,
+      ease: 'sine.inOut'
+    });
+    
+    ambientTweens = [glow, float];
+  };
+  
+  /**
+   * Stop the endless tweens and leave the title at rest
+   */
+  const stopAmbient = () => {
+    ambientTweens.forEach(tween => tween.kill());
+    ambientTweens = [];
+    animation.set(glowRef, { opacity: 0.2, scale: 1 });
+    animation.set(titleRef, { y: 0 });
+  };
+  
+  /**
+   * Play the initial appearance animation
+   */
+  const playEntrance = () => {
+    if (!titleRef) return;
+    
+    // Calm mode: a simple fade
+    if (reduced()) {
+      animation.fromTo(titleRef, { opacity: 0 }, { opacity: 1, duration: 0.8 });
+      return;
+    }
+    
+    animation.fromTo(titleRef, 
       { y: -50, opacity: 0, scale: 0.5 },
       { 
         y: 0, 
@@ -47,56 +84,69 @@ export function Title(props: TitleProps) {
         ease: 'elastic.out(1, 0.3)'
       }
     );
-    
-    // Add floating animation
-    gsap.to(titleRef, {
-      y: -10,
-      duration: 2,
-      repeat: -1,
-      yoyo: true,
-      ease: 'sine.inOut'
-    });
   };
   
   /**
-   * Handle title click with animation
+   * Spin the title once (skipped in calm mode or while already spinning)
    */
-  const handleTitleClick = () => {
-    if (isAnimating()) return;
+  const spin = () => {
+    if (isAnimating() || reduced()) return;
     
     setIsAnimating(true);
     
-    gsap.to(titleRef, {
+    animation.to(titleRef, {
       rotationY: 360,
       scale: 1.2,
       duration: 1,
       ease: 'elastic.out(1, 0.3)',
       onComplete: () => {
-        gsap.set(titleRef, { rotationY: 0, scale: 1 });
+        animation.set(titleRef, { rotationY: 0, scale: 1 });
         setIsAnimating(false);
       }
     });
+  };
+  
+  /**
+   * Handle title click with animation
+   */
+  const handleTitleClick = () => {
+    eventBus.emit('titleClicked', {});
+    if (isAnimating()) return;
     
-    // Call props callback if provided
-    if (props.onTitleClick) {
-      props.onTitleClick();
-    }
+    spin();
+    props.onTitleClick?.();
   };
   
+  // Celebrate newly found secrets
+  onEvent('secretUnlocked', spin);
+  
   // Set up animations on mount
   onMount(() => {
-    setupAnimations();
+    playEntrance();
+  });
+  
+  // Run the endless tweens unless motion is reduced
+  createEffect(on(reduced, isReduced => {
+    if (isReduced) {
+      stopAmbient();
+    } else {
+      startAmbient();
+    }
+  }));
+  
+  onCleanup(() => {
+    ambientTweens.forEach(tween => tween.kill());
   });
   
   return (
     <div class="relative z-10 mb-8">
       <div 
         ref={glowRef}
-        class="absolute inset-0 bg-sky-500 opacity-20 rounded-full blur-xl -z-10" 
+        class="absolute inset-0 bg-title opacity-20 rounded-full blur-xl -z-10" 
       />
       <h1 
         ref={titleRef} 
-        class="text-7xl text-center font-pixelify text-sky-500 opacity-0 z-10 cursor-pointer"
+        class="text-7xl text-center font-pixelify text-title opacity-0 z-10 cursor-pointer"
         onClick={handleTitleClick}
       >
         {props.text}
@@ -0,0 +1,97 @@
+import { createSignal, For, onCleanup } from 'solid-js';
+import { animation, audio, motionPreference } from '../../utils';
+import { t } from '../../i18n';
+import { onEvent } from '../events';
+import { AchievementDescriptor, getAchievement } from './registry';
+
+// How long a toast stays on screen, in milliseconds
+const TOAST_DURATION = 4000;
+
+/**
+ * Single unlock toast that slides in and dismisses itself
+ */
+function AchievementToast(props: { achievement: AchievementDescriptor; onDone: () => void }) {
+  let toastRef: HTMLDivElement | undefined;
+  let leaving = false;
+
+  /**
+   * Animate out, then remove the toast
+   */
+  const dismiss = () => {
+    if (leaving) return;
+    leaving = true;
+    clearTimeout(timer);
+
+    animation.to(toastRef, {
+      x: motionPreference.isReduced() ? 0 : 40,
+      opacity: 0,
+      duration: 0.3,
+      ease: 'power2.in',
+      onComplete: props.onDone
+    });
+  };
+
+  const timer = setTimeout(dismiss, TOAST_DURATION);
+  onCleanup(() => clearTimeout(timer));
+
+  return (
+    <div
+      ref={(el) => {
+        toastRef = el;
+        // Pop in with a little bounce (calm mode only fades)
+        const reduced = motionPreference.isReduced();
+        animation.fromTo(el,
+          { x: reduced ? 0 : 40, scale: reduced ? 1 : 0.8, opacity: 0 },
+          { x: 0, scale: 1, opacity: 1, duration: 0.5, ease: reduced ? 'none' : 'back.out(1.7)' }
+        );
+      }}
+      class="flex items-center gap-3 p-3 rounded-lg bg-panel border-2 border-highlight text-ink shadow-lg"
+    >
+      <span class="flex items-center justify-center w-10 h-10 rounded-full bg-highlight/20 text-highlight">
+        <i class={`fas ${props.achievement.icon}`} aria-hidden="true"></i>
+      </span>
+      <div class="min-w-0">
+        <p class="text-xs text-highlight font-pixelify">{t().achievements.unlocked}</p>
+        <p class="font-bold">{props.achievement.name()}</p>
+        <p class="text-xs text-ink-soft">{props.achievement.description()}</p>
+      </div>
+      <button
+        class="ms-auto self-start text-ink-muted hover:text-ink"
+        onClick={dismiss}
+        aria-label={t().achievements.dismiss}
+      >
+        <i class="fas fa-times" aria-hidden="true"></i>
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Stack of toasts announcing newly unlocked achievements
+ */
+export function AchievementToasts() {
+  const [toasts, setToasts] = createSignal<{ key: number; achievement: AchievementDescriptor }[]>([]);
+  let nextKey = 0;
+
+  onEvent('achievementUnlocked', ({ id }) => {
+    const achievement = getAchievement(id);
+    if (!achievement) return;
+    setToasts(list => [...list, { key: nextKey++, achievement }]);
+    audio.play('unlock');
+  });
+
+  return (
+    <div class="fixed bottom-4 end-4 z-50 flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+      <For each={toasts()}>
+        {(toast) => (
+          <AchievementToast
+            achievement={toast.achievement}
+            onDone={() => setToasts(list => list.filter(item => item.key !== toast.key))}
+          />
+        )}
+      </For>
+    </div>
+  );
+}
+
+export default AchievementToasts;
@@ -0,0 +1,91 @@
+import { createSignal, For, Show, onCleanup } from 'solid-js';
+import { achievementStorage } from '../../utils';
+import { formatDate, t } from '../../i18n';
+import { ACHIEVEMENTS, AchievementDescriptor } from './registry';
+
+/**
+ * Trophy case listing every achievement with its progress
+ * Locked achievements are dimmed and show how close the player is.
+ */
+export function TrophyCase() {
+  // Bumped whenever stats or achievements change
+  const [version, setVersion] = createSignal(0);
+  onCleanup(achievementStorage.subscribe(() => setVersion(v => v + 1)));
+
+  const unlockedAt = (achievement: AchievementDescriptor) => {
+    version();
+    return achievementStorage.getUnlockedAt(achievement.id);
+  };
+
+  const progress = (achievement: AchievementDescriptor) => {
+    version();
+    return Math.min(achievement.progress(achievementStorage.getStats()), achievement.target);
+  };
+
+  const unlockedCount = () => ACHIEVEMENTS.filter(achievement => unlockedAt(achievement)).length;
+
+  return (
+    <section class="my-6 p-4 bg-page/90 rounded-lg">
+      <div class="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h3 class="text-xl font-pixelify text-primary-ink">
+          <i class="fas fa-trophy me-2"></i> {t().achievements.heading}
+        </h3>
+        <p class="text-sm text-ink-muted">{t().achievements.unlockedCount(unlockedCount(), ACHIEVEMENTS.length)}</p>
+      </div>
+
+      <ul class="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <For each={ACHIEVEMENTS}>
+          {(achievement) => (
+            <li
+              class={`flex gap-3 p-3 rounded-lg border-2 ${unlockedAt(achievement) ? 'bg-well/60 border-highlight/60' : 'border-dashed border-line text-ink-muted'}`}
+            >
+              <span
+                class={`flex shrink-0 items-center justify-center w-10 h-10 rounded-full ${unlockedAt(achievement) ? 'bg-highlight/20 text-highlight' : 'bg-well text-ink-faint'}`}
+              >
+                <i class={`fas ${unlockedAt(achievement) ? achievement.icon : 'fa-lock'}`} aria-hidden="true"></i>
+              </span>
+              <div class="flex-1 min-w-0">
+                <p class={`font-pixelify ${unlockedAt(achievement) ? 'text-primary-soft' : ''}`}>
+                  {achievement.name()}
+                  <Show when={!unlockedAt(achievement)}>
+                    <span class="sr-only"> ({t().achievements.locked})</span>
+                  </Show>
+                </p>
+                <p class="text-xs text-ink-soft">{achievement.description()}</p>
+                <Show
+                  when={unlockedAt(achievement)}
+                  fallback={
+                    <div class="flex items-center gap-2 mt-2">
+                      <div
+                        class="flex-1 h-2 rounded-full bg-well overflow-hidden"
+                        role="progressbar"
+                        aria-label={achievement.name()}
+                        aria-valuemin={0}
+                        aria-valuemax={achievement.target}
+                        aria-valuenow={progress(achievement)}
+                      >
+                        <div
+                          class="h-full rounded-full bg-primary-bright"
+                          style={{ width: `${(progress(achievement) / achievement.target) * 100}%` }}
+                        ></div>
+                      </div>
+                      <span class="text-xs tabular-nums">{t().achievements.progress(progress(achievement), achievement.target)}</span>
+                    </div>
+                  }
+                >
+                  {(date) => (
+                    <p class="text-xs text-highlight mt-2">
+                      <i class="fas fa-check me-1" aria-hidden="true"></i> {t().achievements.unlockedOn(formatDate(date()))}
+                    </p>
+                  )}
+                </Show>
+              </div>
+            </li>
+          )}
+        </For>
+      </ul>
+    </section>
+  );
+}
+
+export default TrophyCase;
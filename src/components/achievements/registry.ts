@@ -0,0 +1,142 @@
+import { achievementStorage, AchievementRule, eventBus, PlayerStats, unlockStorage } from '../../utils';
+import { t } from '../../i18n';
+import { getBestScore, getGames } from '../games/registry';
+
+/**
+ * Achievement shown in the trophy case
+ */
+export interface AchievementDescriptor extends AchievementRule {
+  /** Accessors so the trophy case follows the current language */
+  name: () => string;
+  description: () => string;
+  /** Font Awesome icon class, e.g. `fa-star` */
+  icon: string;
+}
+
+/**
+ * Progress as the number of targets hit in a game over all runs
+ */
+const hitsIn = (gameId: string) => (stats: PlayerStats) => stats.hits[gameId] ?? 0;
+
+/**
+ * Progress as the best score reached in a single run of a game
+ */
+const bestIn = (gameId: string) => (stats: PlayerStats) => stats.bestScores[gameId] ?? 0;
+
+/**
+ * All achievements in display order
+ */
+export const ACHIEVEMENTS: readonly AchievementDescriptor[] = [
+  {
+    id: 'konami',
+    name: () => t().achievements.items.konami.name,
+    description: () => t().achievements.items.konami.description,
+    icon: 'fa-gamepad',
+    target: 1,
+    progress: stats => (stats.secrets.includes('konami') ? 1 : 0)
+  },
+  {
+    id: 'drag-10',
+    name: () => t().achievements.items.drag10.name,
+    description: () => t().achievements.items.drag10.description,
+    icon: 'fa-bullseye',
+    target: 10,
+    progress: hitsIn('drag')
+  },
+  {
+    id: 'drag-50',
+    name: () => t().achievements.items.drag50.name,
+    description: () => t().achievements.items.drag50.description,
+    icon: 'fa-crosshairs',
+    target: 50,
+    progress: hitsIn('drag')
+  },
+  {
+    id: 'drag-100',
+    name: () => t().achievements.items.drag100.name,
+    description: () => t().achievements.items.drag100.description,
+    icon: 'fa-medal',
+    target: 100,
+    progress: hitsIn('drag')
+  },
+  {
+    id: 'flappy-10',
+    name: () => t().achievements.items.flappy10.name,
+    description: () => t().achievements.items.flappy10.description,
+    icon: 'fa-rocket',
+    target: 10,
+    progress: bestIn('flappy')
+  },
+  {
+    id: 'flappy-25',
+    name: () => t().achievements.items.flappy25.name,
+    description: () => t().achievements.items.flappy25.description,
+    icon: 'fa-shuttle-space',
+    target: 25,
+    progress: bestIn('flappy')
+  },
+  {
+    id: 'title-20',
+    name: () => t().achievements.items.title20.name,
+    description: () => t().achievements.items.title20.description,
+    icon: 'fa-rotate',
+    target: 20,
+    progress: stats => stats.titleClicks
+  },
+  {
+    id: 'visits-7',
+    name: () => t().achievements.items.visits7.name,
+    description: () => t().achievements.items.visits7.description,
+    icon: 'fa-calendar-check',
+    target: 7,
+    progress: stats => stats.visitDays
+  }
+];
+
+/**
+ * Look up an achievement by id
+ */
+export function getAchievement(id: string): AchievementDescriptor | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
+
+/**
+ * Unlock anything newly earned and announce it
+ */
+function checkAchievements(): void {
+  achievementStorage.evaluate(ACHIEVEMENTS).forEach(id => eventBus.emit('achievementUnlocked', { id }));
+}
+
+/**
+ * Count this visit and keep stats up to date from site events
+ * Progress made before achievements existed (found secrets, best scores) is carried over.
+ * @returns Function that stops tracking
+ */
+export function startAchievementTracking(): () => void {
+  unlockStorage.getUnlocked().forEach(secret => achievementStorage.addSecret(secret));
+  getGames().forEach(game => achievementStorage.recordScore(game.id, getBestScore(game)));
+  achievementStorage.recordVisit();
+  checkAchievements();
+
+  const stops = [
+    eventBus.on('targetHit', ({ gameId }) => {
+      achievementStorage.addHit(gameId);
+      checkAchievements();
+    }),
+    eventBus.on('scoreChanged', ({ gameId, score }) => {
+      achievementStorage.recordScore(gameId, score);
+      checkAchievements();
+    }),
+    eventBus.on('secretUnlocked', ({ secret }) => {
+      achievementStorage.addSecret(secret);
+      checkAchievements();
+    }),
+    eventBus.on('titleClicked', () => {
+      achievementStorage.addTitleClick();
+      checkAchievements();
+    })
+  ];
+
+  return () => stops.forEach(stop => stop());
+}
+
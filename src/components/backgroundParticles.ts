@@ -0,0 +1,151 @@
+/**
+ * Particle simulation for the animated background
+ * Poses are pure functions of time, so the renderer can draw any frame,
+ * or a still one in calm mode, without keeping per-frame state.
+ */
+
+/**
+ * A floating icon
+ */
+export interface Particle {
+  /** Index into the icon set */
+  icon: number;
+  /** Resting position as a fraction of the background size */
+  x: number;
+  y: number;
+  /** Size in CSS pixels */
+  size: number;
+  /** Resting rotation in degrees */
+  rotation: number;
+  /** Rotation speed in degrees per second */
+  spin: number;
+  /** Offset into the floating motion, in radians */
+  phase: number;
+  /** Floating distance in CSS pixels */
+  drift: number;
+}
+
+/**
+ * A trophy shown where a target was hit
+ */
+export interface Trophy {
+  /** Position as a fraction of the background size */
+  x: number;
+  y: number;
+  /** Simulation time it appeared at, in seconds */
+  start: number;
+}
+
+/**
+ * Where and how to draw something in a frame
+ */
+export interface ParticlePose {
+  x: number;
+  y: number;
+  scale: number;
+  /** Rotation in degrees */
+  rotation: number;
+  opacity: number;
+}
+
+export const PARTICLE_OPACITY = 0.2;
+export const TROPHY_SIZE = 32;
+
+// Ripple timing: a wave from the center reaching the corners after RIPPLE_SPREAD seconds
+const RIPPLE_SPREAD = 0.5;
+const RIPPLE_PULSE = 1;
+export const RIPPLE_DURATION = RIPPLE_SPREAD + RIPPLE_PULSE;
+
+// Trophy timing: pop in, then float up and fade (calm mode only fades in and out)
+const TROPHY_POP = 0.5;
+const TROPHY_RISE = 1.5;
+const TROPHY_RISE_DISTANCE = 100;
+const TROPHY_CALM = 1.6;
+
+/**
+ * Random number between min and max
+ */
+const randomBetween = (random: () => number, min: number, max: number) => min + random() * (max - min);
+
+/**
+ * Scatter particles over the background
+ * @param count - Number of particles
+ * @param iconCount - Size of the icon set to pick from
+ * @param random - Source of randomness in [0, 1)
+ */
+export function createParticles(count: number, iconCount: number, random: () => number = Math.random): Particle[] {
+  return Array.from({ length: count }, () => ({
+    icon: Math.floor(random() * iconCount),
+    x: random(),
+    y: random(),
+    size: randomBetween(random, 16, 40),
+    rotation: randomBetween(random, 0, 360),
+    spin: randomBetween(random, -20, 20),
+    phase: randomBetween(random, 0, Math.PI * 2),
+    drift: randomBetween(random, 10, 30)
+  }));
+}
+
+/**
+ * Strength of the ripple pulse for a particle, from 0 to 1
+ */
+function ripplePulse(particle: Particle, time: number, rippleStart: number | null): number {
+  if (rippleStart === null) return 0;
+
+  // Distance from the center, 0 in the middle and 1 in the corners
+  const distance = Math.hypot(particle.x - 0.5, particle.y - 0.5) / Math.SQRT1_2;
+  const local = (time - rippleStart - distance * RIPPLE_SPREAD) / RIPPLE_PULSE;
+  return local > 0 && local < 1 ? Math.sin(Math.PI * local) : 0;
+}
+
+/**
+ * Pose of a floating icon
+ * @param time - Simulation time in seconds
+ * @param rippleStart - Time the last ripple started, if any
+ * @param calm - Keep icons still; ripples only brighten them
+ */
+export function particlePose(
+  particle: Particle,
+  width: number,
+  height: number,
+  time: number,
+  rippleStart: number | null,
+  calm: boolean
+): ParticlePose {
+  const pulse = ripplePulse(particle, time, rippleStart);
+  const float = calm ? 0 : 1;
+
+  return {
+    x: particle.x * width + Math.sin(time * 0.5 + particle.phase) * particle.drift * float,
+    y: particle.y * height + Math.cos(time * 0.4 + particle.phase) * particle.drift * 1.5 * float,
+    scale: 1 + pulse * 0.5 * float,
+    rotation: particle.rotation + time * particle.spin * float,
+    opacity: PARTICLE_OPACITY + pulse * (calm ? 0.3 : 0.6)
+  };
+}
+
+/**
+ * Pose of a trophy
+ * @returns Null once the trophy has finished and can be removed
+ */
+export function trophyPose(trophy: Trophy, width: number, height: number, time: number, calm: boolean): ParticlePose | null {
+  const age = time - trophy.start;
+  const x = trophy.x * width;
+  const y = trophy.y * height;
+
+  if (calm) {
+    if (age >= TROPHY_CALM) return null;
+    return { x, y, scale: 1, rotation: 0, opacity: Math.sin((Math.PI * age) / TROPHY_CALM) };
+  }
+
+  if (age < TROPHY_POP) {
+    // Ease out with a slight overshoot
+    const progress = age / TROPHY_POP;
+    const overshoot = 1 + 2.7 * Math.pow(progress - 1, 3) + 1.7 * Math.pow(progress - 1, 2);
+    return { x, y, scale: 0.5 + overshoot, rotation: 0, opacity: progress };
+  }
+
+  const progress = (age - TROPHY_POP) / TROPHY_RISE;
+  if (progress >= 1) return null;
+  return { x, y: y - TROPHY_RISE_DISTANCE * progress * progress, scale: 1.5, rotation: 0, opacity: 1 - progress };
+}
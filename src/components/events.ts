@@ -0,0 +1,10 @@
+import { onCleanup } from 'solid-js';
+import { eventBus, SiteEvents } from '../utils';
+
+/**
+ * Listen for a site event for as long as the current component lives
+ * Must be called inside a component or another reactive owner.
+ */
+export function onEvent<K extends keyof SiteEvents>(name: K, handler: (payload: SiteEvents[K]) => void): void {
+  onCleanup(eventBus.on(name, handler));
+}
@@ -0,0 +1,124 @@
+import { createEffect, createMemo, createSignal, For, on, Show } from 'solid-js';
+import {
+  collectArtists,
+  getGalleryItems,
+  GallerySort,
+  toSrcSet
+} from '../../content/gallery';
+import { animation, motionPreference } from '../../utils';
+import { t } from '../../i18n';
+import { GalleryLightbox } from './GalleryLightbox';
+
+// Options for the sort picker, labelled from the current catalog
+const SORT_OPTIONS: GallerySort[] = ['newest', 'oldest', 'title', 'artist'];
+
+/**
+ * Community drawing gallery with artist filter, sorting and a lightbox
+ */
+export function Gallery() {
+  // Refs
+  let gridRef: HTMLUListElement | undefined;
+
+  // State
+  const [artist, setArtist] = createSignal<string | null>(null);
+  const [sort, setSort] = createSignal<GallerySort>('newest');
+  const [openIndex, setOpenIndex] = createSignal<number | null>(null);
+
+  const artists = collectArtists();
+  const items = createMemo(() => getGalleryItems(sort(), artist()));
+
+  // Stagger the thumbnails in whenever the visible set changes
+  createEffect(on(items, () => {
+    if (!gridRef) return;
+
+    animation.fromTo(gridRef.children,
+      { y: motionPreference.isReduced() ? 0 : 20, opacity: 0 },
+      { y: 0, opacity: 1, duration: 0.4, stagger: 0.05, ease: 'power2.out' }
+    );
+  }));
+
+  return (
+    <div>
+      <Show
+        when={artists.length > 0}
+        fallback={
+          <p class="text-ink-muted italic">
+            {t().gallery.empty}
+          </p>
+        }
+      >
+        {/* Filters */}
+        <div class="flex flex-wrap gap-3 mb-4 text-sm">
+          <label class="flex items-center gap-2">
+            <span class="text-ink-muted">{t().gallery.artist}</span>
+            <select
+              class="bg-well border border-primary-bright/50 rounded px-2 py-1"
+              value={artist() ?? ''}
+              onChange={(e) => setArtist(e.currentTarget.value || null)}
+            >
+              <option value="">{t().gallery.everyone}</option>
+              <For each={artists}>
+                {(name) => <option value={name}>{name}</option>}
+              </For>
+            </select>
+          </label>
+          <label class="flex items-center gap-2">
+            <span class="text-ink-muted">{t().gallery.sort}</span>
+            <select
+              class="bg-well border border-primary-bright/50 rounded px-2 py-1"
+              value={sort()}
+              onChange={(e) => setSort(e.currentTarget.value as GallerySort)}
+            >
+              <For each={SORT_OPTIONS}>
+                {(option) => <option value={option}>{t().gallery.sorts[option]}</option>}
+              </For>
+            </select>
+          </label>
+        </div>
+
+        {/* Thumbnails */}
+        <ul ref={gridRef} class="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <For each={items()}>
+            {(item, index) => (
+              <li>
+                <button
+                  class="group block w-full text-start rounded-lg overflow-hidden bg-well/60 focus:outline-none focus:ring-2 focus:ring-primary-ink"
+                  onClick={() => setOpenIndex(index())}
+                  aria-label={t().gallery.open(item.title, item.artist)}
+                >
+                  <img
+                    class="w-full aspect-square object-cover transition-transform group-hover:scale-105"
+                    src={item.sources[0].url}
+                    srcset={toSrcSet(item)}
+                    sizes="(min-width: 640px) 200px, 45vw"
+                    width={item.width}
+                    height={item.height}
+                    loading="lazy"
+                    decoding="async"
+                    alt={item.alt}
+                  />
+                  <div class="p-2">
+                    <p class="text-sm font-bold truncate">{item.title}</p>
+                    <p class="text-xs text-ink-muted truncate">{item.artist}</p>
+                  </div>
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      {/* Lightbox */}
+      <Show when={openIndex() !== null && items().length > 0}>
+        <GalleryLightbox
+          items={items()}
+          index={Math.min(openIndex()!, items().length - 1)}
+          onNavigate={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      </Show>
+    </div>
+  );
+}
+
+export default Gallery;
@@ -0,0 +1,149 @@
+import { onMount, onCleanup } from 'solid-js';
+import { Portal } from 'solid-js/web';
+import { GalleryItem, largestSource, toSrcSet } from '../../content/gallery';
+import { animation, getDirection, localePreference, motionPreference } from '../../utils';
+import { formatDate, t } from '../../i18n';
+
+// Props interface
+export interface GalleryLightboxProps {
+  items: GalleryItem[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-size drawing viewer
+ * Arrow keys move between drawings in reading direction, Escape closes.
+ */
+export function GalleryLightbox(props: GalleryLightboxProps) {
+  // Refs
+  let dialogRef: HTMLDivElement | undefined;
+  let closeButtonRef: HTMLButtonElement | undefined;
+
+  // Element that had focus before opening, restored on close
+  const previousFocus = document.activeElement as HTMLElement | null;
+
+  const item = () => props.items[props.index];
+
+  /**
+   * Move to the previous or next drawing, wrapping around
+   */
+  const step = (delta: number) => {
+    const count = props.items.length;
+    props.onNavigate((props.index + delta + count) % count);
+  };
+
+  /**
+   * Handle keyboard navigation
+   */
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Right to left layouts show the previous drawing on the right
+    const forward = getDirection(localePreference.getLocale()) === 'rtl' ? -1 : 1;
+
+    if (e.key === 'Escape') {
+      props.onClose();
+    } else if (e.key === 'ArrowLeft') {
+      step(-forward);
+    } else if (e.key === 'ArrowRight') {
+      step(forward);
+    } else if (e.key === 'Home') {
+      props.onNavigate(0);
+    } else if (e.key === 'End') {
+      props.onNavigate(props.items.length - 1);
+    } else if (e.key === 'Tab' && dialogRef) {
+      // Keep focus inside the dialog
+      const focusable = [...dialogRef.querySelectorAll<HTMLElement>('button')];
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        first.focus();
+      } else {
+        return;
+      }
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  onMount(() => {
+    document.addEventListener('keydown', handleKeyDown);
+    closeButtonRef?.focus();
+
+    if (dialogRef) {
+      animation.fromTo(dialogRef, { opacity: 0, scale: motionPreference.isReduced() ? 1 : 0.95 }, { opacity: 1, scale: 1, duration: 0.3, ease: 'power2.out' });
+    }
+  });
+
+  onCleanup(() => {
+    document.removeEventListener('keydown', handleKeyDown);
+    previousFocus?.focus();
+  });
+
+  return (
+    <Portal>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={t().gallery.titleBy(item().title, item().artist)}
+        class="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-panel/95 p-4 text-ink"
+        onClick={(e) => e.target === e.currentTarget && props.onClose()}
+      >
+        <button
+          ref={closeButtonRef}
+          class="absolute top-4 end-4 text-2xl text-ink-soft hover:text-ink"
+          onClick={props.onClose}
+          aria-label={t().gallery.close}
+        >
+          <i class="fas fa-times"></i>
+        </button>
+
+        <div class="flex items-center gap-4 max-w-5xl w-full">
+          <button
+            class="text-3xl text-ink-soft hover:text-ink disabled:opacity-30"
+            onClick={() => step(-1)}
+            disabled={props.items.length < 2}
+            aria-label={t().gallery.previous}
+          >
+            <i class="fas fa-chevron-left rtl:rotate-180"></i>
+          </button>
+
+          <img
+            class="flex-1 min-w-0 max-h-[75vh] object-contain rounded-lg"
+            src={largestSource(item()).url}
+            srcset={toSrcSet(item())}
+            sizes="90vw"
+            width={item().width}
+            height={item().height}
+            alt={item().alt}
+          />
+
+          <button
+            class="text-3xl text-ink-soft hover:text-ink disabled:opacity-30"
+            onClick={() => step(1)}
+            disabled={props.items.length < 2}
+            aria-label={t().gallery.next}
+          >
+            <i class="fas fa-chevron-right rtl:rotate-180"></i>
+          </button>
+        </div>
+
+        <div class="mt-4 text-center">
+          <h4 class="text-xl font-pixelify text-primary-ink">{item().title}</h4>
+          <p class="text-sm text-ink-soft">
+            {t().gallery.by} <span class="text-highlight">{item().artist}</span> · {formatDate(item().date)}
+          </p>
+          <p class="text-xs text-ink-faint mt-1" aria-live="polite">
+            {props.index + 1} / {props.items.length}
+          </p>
+        </div>
+      </div>
+    </Portal>
+  );
+}
+
+export default GalleryLightbox;
@@ -0,0 +1,81 @@
+import { createSignal, For, Show, onMount, onCleanup } from 'solid-js';
+import { t } from '../../i18n';
+import {
+  GameDescriptor,
+  getBestScore,
+  getGames,
+  isGameUnlocked,
+  subscribeToUnlocks
+} from './registry';
+
+// Props interface
+export interface ArcadeHubProps {
+  onOpenGame: (id: string) => void;
+}
+
+/**
+ * Arcade hub listing every registered mini-game
+ * Locked games are shown with a hint instead of a play button.
+ */
+export function ArcadeHub(props: ArcadeHubProps) {
+  // Bumped whenever scores or unlocks change
+  const [version, setVersion] = createSignal(0);
+
+  const unlocked = (game: GameDescriptor) => {
+    version();
+    return isGameUnlocked(game);
+  };
+
+  const best = (game: GameDescriptor) => {
+    version();
+    return getBestScore(game);
+  };
+
+  onMount(() => {
+    onCleanup(subscribeToUnlocks(() => setVersion(v => v + 1)));
+  });
+
+  return (
+    <section class="my-6 p-4 bg-page/90 rounded-lg">
+      <h3 class="text-xl font-pixelify text-primary-ink mb-4">
+        <i class="fas fa-gamepad me-2"></i> {t().arcade.heading}
+      </h3>
+
+      <div class="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <For each={getGames()}>
+          {(game) => (
+            <Show
+              when={unlocked(game)}
+              fallback={
+                <div class="p-3 rounded-lg border-2 border-dashed border-line text-ink-muted">
+                  <p class="font-pixelify text-lg">
+                    <i class="fas fa-lock me-2"></i> <span aria-hidden="true">???</span>
+                    <span class="sr-only">{t().arcade.locked}</span>
+                  </p>
+                  <Show when={game.hint}>
+                    <p class="text-xs italic mt-1">{game.hint?.()}</p>
+                  </Show>
+                </div>
+              }
+            >
+              <button
+                class="p-3 rounded-lg bg-well/60 border-2 border-primary-bright/50 hover:border-primary-ink text-start transition-colors"
+                onClick={() => props.onOpenGame(game.id)}
+              >
+                <p class="font-pixelify text-lg text-primary-soft">
+                  <i class={`fas ${game.icon} me-2`}></i> {game.title()}
+                </p>
+                <p class="text-sm text-ink-soft mt-1">{game.description()}</p>
+                <p class="text-xs text-ink-muted mt-2">
+                  {t().common.best}: <span class="text-highlight font-bold">{best(game)}</span>
+                </p>
+              </button>
+            </Show>
+          )}
+        </For>
+      </div>
+    </section>
+  );
+}
+
+export default ArcadeHub;
@@ -0,0 +1,167 @@
+import { createSignal, For, onCleanup, Show } from 'solid-js';
+import { addDays, dailyStorage, getDailyKey } from '../../utils';
+import { formatDate, t } from '../../i18n';
+
+// Days shown in the calendar, a whole number of weeks
+const CALENDAR_DAYS = 28;
+
+// Days shown in the shared result
+const SUMMARY_DAYS = 7;
+
+// Props interface
+export interface DailyPanelProps {
+  gameId: string;
+  /** Game name for the shared result */
+  title: string;
+  /** Emoji standing for the game in the shared result */
+  emoji: string;
+  /** Whether the challenge cannot be started right now, e.g. during a run */
+  disabled?: boolean;
+  /** Called to start today's attempt */
+  onPlay: () => void;
+}
+
+/**
+ * Build the emoji result of a day, for posting in chat
+ * The row shows the week up to that day: ⭐ best score, 🟩 scored, 🟥 no points, ⬛ missed.
+ */
+export function formatDailySummary(gameId: string, title: string, emoji: string, day: string): string {
+  const days = Array.from({ length: SUMMARY_DAYS }, (_, index) => addDays(day, index - SUMMARY_DAYS + 1));
+  const scores = days.map(value => dailyStorage.getResult(gameId, value)?.score);
+  const best = Math.max(0, ...scores.map(score => score ?? 0));
+
+  const row = scores.map(score => {
+    if (score === undefined) return '⬛';
+    if (score === 0) return '🟥';
+    return score === best ? '⭐' : '🟩';
+  }).join('');
+
+  const { daily } = t();
+  return [
+    `${emoji} ${daily.shareTitle(title, day)}`,
+    daily.shareScore(dailyStorage.getResult(gameId, day)?.score ?? 0, dailyStorage.getStreak(gameId, day)),
+    row
+  ].join('\n');
+}
+
+/**
+ * Daily challenge card with today's attempt, the streak and a calendar of past results
+ */
+export function DailyPanel(props: DailyPanelProps) {
+  const [today, setToday] = createSignal(getDailyKey());
+  const [version, setVersion] = createSignal(0);
+  const [copied, setCopied] = createSignal(false);
+
+  // Pick up new attempts, and the next challenge once midnight passes in Cairo
+  onCleanup(dailyStorage.subscribe(() => setVersion(v => v + 1)));
+  const timer = setInterval(() => setToday(getDailyKey()), 60 * 1000);
+  onCleanup(() => clearInterval(timer));
+
+  const result = (day: string) => {
+    version();
+    return dailyStorage.getResult(props.gameId, day);
+  };
+
+  const streak = () => {
+    version();
+    return dailyStorage.getStreak(props.gameId, today());
+  };
+
+  const bestStreak = () => {
+    version();
+    return dailyStorage.getBestStreak(props.gameId);
+  };
+
+  const calendar = () => Array.from({ length: CALENDAR_DAYS }, (_, index) => addDays(today(), index - CALENDAR_DAYS + 1));
+
+  /**
+   * Copy today's emoji result
+   */
+  const copySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDailySummary(props.gameId, props.title, props.emoji, today()));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Failed to copy daily result', e);
+    }
+  };
+
+  return (
+    <section class="mb-3 p-3 rounded-lg bg-well/60 text-sm">
+      <div class="flex flex-wrap items-baseline justify-between gap-2 mb-1">
+        <h4 class="font-pixelify text-primary-ink">
+          <i class="fas fa-calendar-day me-2"></i> {t().daily.heading}
+        </h4>
+        <Show when={streak() > 0}>
+          <span class="px-2 py-0.5 rounded-full bg-highlight/20 text-highlight text-xs font-bold">
+            <i class="fas fa-fire me-1" aria-hidden="true"></i> {t().daily.streak(streak())}
+          </span>
+        </Show>
+      </div>
+
+      <Show
+        when={result(today())}
+        fallback={
+          <div class="flex flex-wrap items-center gap-2 mb-3">
+            <p class="flex-1 min-w-40 text-xs text-ink-muted">{t().daily.intro}</p>
+            <button
+              class="px-3 py-1 rounded-lg bg-primary hover:bg-primary-hover text-on-primary font-pixelify disabled:opacity-50"
+              disabled={props.disabled}
+              onClick={() => props.onPlay()}
+            >
+              <i class="fas fa-play me-1"></i> {t().daily.play}
+            </button>
+          </div>
+        }
+      >
+        {(attempt) => (
+          <div class="flex flex-wrap items-center gap-2 mb-3">
+            <p class="flex-1 min-w-40 text-ink">
+              {attempt().finished ? t().daily.played(attempt().score) : t().daily.unfinished}
+            </p>
+            <button
+              class="px-3 py-1 rounded-lg border border-primary-bright/50 hover:border-primary-ink text-ink-soft"
+              onClick={copySummary}
+            >
+              <i class="fas fa-copy me-1"></i> {copied() ? t().daily.copied : t().daily.copy}
+            </button>
+          </div>
+        )}
+      </Show>
+
+      <p class="text-xs text-ink-muted mb-1">{t().daily.calendar}</p>
+      <ol class="grid grid-cols-7 gap-1 mb-2" dir="ltr">
+        <For each={calendar()}>
+          {(day) => {
+            const label = () => {
+              const attempt = result(day);
+              return attempt ? t().daily.result(formatDate(day), attempt.score) : t().daily.missed(formatDate(day));
+            };
+
+            return (
+              <li
+                class={`flex flex-col items-center justify-center h-9 rounded text-xs leading-none tabular-nums ${
+                  result(day) ? 'bg-primary/70 text-on-primary' : 'bg-well text-ink-faint'
+                } ${day === today() ? 'ring-2 ring-highlight' : ''}`}
+                title={label()}
+              >
+                <span class="text-[0.625rem] opacity-70" aria-hidden="true">{Number(day.slice(8))}</span>
+                <Show when={result(day)}>
+                  {(attempt) => <span class="font-bold" aria-hidden="true">{attempt().score}</span>}
+                </Show>
+                <span class="sr-only">{label()}</span>
+              </li>
+            );
+          }}
+        </For>
+      </ol>
+
+      <p class="text-xs text-ink-faint">
+        {t().daily.bestStreak(bestStreak())} · {t().daily.nextChallenge}
+      </p>
+    </section>
+  );
+}
+
+export default DailyPanel;
@@ -1,260 +1,695 @@
-import { createSignal, onMount } from 'solid-js';
+import { createEffect, createSignal, For, on, onMount, onCleanup, Show } from 'solid-js';
+import { Leaderboard } from '../Leaderboard';
+import type { GameProps } from './registry';
+import { DailyPanel } from './DailyPanel';
+import {
+  advanceRound,
+  createRound,
+  DRAG_MODE_RULES,
+  DRAG_MODES,
+  DragModeId,
+  DragRound,
+  DragTarget,
+  findTouchedTarget,
+  startRound,
+  timeLeft,
+  touchTarget
+} from './dragModes';
+import {
+  animation,
+  audio,
+  createSeed,
+  createStream,
+  dailyStorage,
+  DraggableHandle,
+  eventBus,
+  formatSeed,
+  getDailyKey,
+  getDailySeed,
+  motionPreference,
+  scoreStorage
+} from '../../utils';
+import { t } from '../../i18n';
+import { theme } from '../../theme';
 
-// Type definitions
-declare const gsap: any;
-declare const Draggable: any;
+const GAME_ID = 'drag';
 
-// Custom interface for elements with event emitter
-interface DragCircleElement extends HTMLDivElement {
-  _eventEmitter?: HTMLDivElement;
-  _draggable?: any;
-}
+// Mode everyone plays in the daily challenge
+const DAILY_MODE: DragModeId = 'timeAttack';
 
-// Props interface
-export interface DragGameProps {
-  containerRef?: HTMLDivElement;
+// Target diameter in pixels (w-10)
+const TARGET_SIZE = 40;
+
+// Longest step the round clock takes between two frames, in milliseconds
+const MAX_FRAME_MS = 100;
+
+// Keyboard movement: the step grows while an arrow key is held or tapped quickly
+const KEY_STEP_MIN = 4;
+const KEY_STEP_MAX = 24;
+const KEY_STEP_GROWTH = 1.3;
+const KEY_REPEAT_WINDOW_MS = 250;
+
+const ARROW_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 }
+};
+
+/**
+ * Describe where a point lies relative to another, e.g. "up and to the left"
+ * Directions are on screen, so they stay physical in right to left languages.
+ */
+function describeDirection(from: { x: number; y: number }, to: { x: number; y: number }): string {
+  const words = t().drag.directions;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const vertical = Math.abs(dy) > 8 ? (dy < 0 ? words.up : words.down) : '';
+  const horizontal = Math.abs(dx) > 8 ? (dx < 0 ? words.left : words.right) : '';
+  return [vertical, horizontal].filter(Boolean).join(words.join) || words.here;
 }
 
 /**
- * Initialize the drag mini-game
+ * Get the score board of a mode
+ * Modes are scored differently, so each keeps its own best and leaderboard.
  */
-export function initDragGame(gameRef: HTMLDivElement) {
-  const dragCircleRef = gameRef.querySelector('.drag-circle') as DragCircleElement;
-  const gameArea = gameRef.querySelector('.game-area');
-  
-  if (!dragCircleRef || !gameArea) {
-    console.warn('Required elements not found');
-    return;
-  }
-  
-  // Make sure GSAP and Draggable are available
-  if (typeof gsap === 'undefined' || typeof Draggable === 'undefined') {
-    console.warn('GSAP or Draggable not available');
-    return;
-  }
-  
-  // Create the event emitter for custom events
-  dragCircleRef._eventEmitter = document.createElement('div');
-  
-  // Make the circle draggable
-  try {
-    // Create draggable instance
-    const draggable = Draggable.create(dragCircleRef, {
-      type: "x,y",
-      bounds: gameArea,
-      edgeResistance: 0.65,
-      inertia: true,
-      onDragStart: function() {
-        gsap.to(dragCircleRef, { scale: 1.1, duration: 0.2 });
-      },
-      onDragEnd: function() {
-        gsap.to(dragCircleRef, { scale: 1, duration: 0.2 });
-        if (dragCircleRef._eventEmitter) {
-          dragCircleRef._eventEmitter.dispatchEvent(new CustomEvent('checkCollision'));
-        }
-      }
-    })[0];
-    
-    // Store the draggable instance
-    dragCircleRef._draggable = draggable;
-    
-  } catch (error) {
-    console.error('Error initializing draggable:', error);
-  }
+export function getDragScoreId(mode: DragModeId): string {
+  return `${GAME_ID}:${mode}`;
+}
+
+// Board of the daily challenge, whose results are kept per day
+const DAILY_ID = getDragScoreId(DAILY_MODE);
+
+// Props interface
+export interface DragGameProps extends GameProps {
+  containerRef?: HTMLDivElement;
 }
 
 /**
  * Drag mini-game component 
+ * Classic mode is endless; the other modes play timed rounds that end with a summary.
  */
 export function DragGame(props: DragGameProps) {
   let gameRef: HTMLDivElement | undefined;
   let gameAreaRef: HTMLDivElement | undefined;
   let dragCircleRef: HTMLDivElement | undefined;
-  let targetRef: HTMLDivElement | undefined;
   
-  const [score, setScore] = createSignal(0);
+  // Each round places its targets from its own seed
+  const [roundSeed, setRoundSeed] = createSignal(0);
+  let random: () => number = Math.random;
+  
+  // Challenge day of the current round, if it is a daily attempt
+  const [dailyDay, setDailyDay] = createSignal<string>();
   
-  // Add trophy to background when target is hit
-  const addTrophy = (x: number, y: number) => {
-    document.dispatchEvent(new CustomEvent('addTrophy', {
-      detail: { x, y }
-    }));
+  /**
+   * Build a round with a fresh seed, or the pinned one
+   */
+  const newRound = (value: DragModeId, seed: number = props.seed ?? createSeed()) => {
+    setRoundSeed(seed);
+    random = createStream(seed, 'targets');
+    return createRound(value, random);
   };
   
-  // Move target to a new random position
-  const moveTargetToRandomPosition = () => {
-    if (!targetRef || !gameAreaRef) return;
+  const [mode, setMode] = createSignal<DragModeId>('classic');
+  const [round, setRound] = createSignal<DragRound>(newRound('classic'));
+  const [best, setBest] = createSignal(scoreStorage.getBest(getDragScoreId('classic')));
+  const [newBest, setNewBest] = createSignal(false);
+  const [showLeaderboard, setShowLeaderboard] = createSignal(false);
+  const [announcement, setAnnouncement] = createSignal('');
+  
+  // Score of a finished or left round the leaderboard may still save
+  const [pendingRun, setPendingRun] = createSignal<{ scoreId: string; score: number }>();
+  
+  const score = () => round().score;
+  const rules = () => DRAG_MODE_RULES[mode()];
+  const scoreId = () => getDragScoreId(mode());
+  const timedRoundRunning = () => round().status === 'running' && rules().duration !== undefined;
+  
+  // Draggable instance, kept to pause the game
+  let draggable: DraggableHandle | undefined;
+  
+  // Round loop state
+  let frameId: number | undefined;
+  let lastFrameTime: number | undefined;
+  // Best score when the round started, to tell a new best in the summary
+  let bestBefore = 0;
+  
+  // Keyboard step state
+  let keyStep = KEY_STEP_MIN;
+  let lastKeyTime = 0;
+  
+  /**
+   * Get the center of an element in viewport coordinates
+   */
+  const centerOf = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+  
+  /**
+   * Get the center of a target in viewport coordinates
+   */
+  const targetCenter = (target: DragTarget) => {
+    const area = gameAreaRef!.getBoundingClientRect();
+    return {
+      x: area.left + gameAreaRef!.clientLeft + target.x * gameAreaRef!.clientWidth,
+      y: area.top + gameAreaRef!.clientTop + target.y * gameAreaRef!.clientHeight
+    };
+  };
+  
+  /**
+   * Tell screen readers where the closest target is from the circle
+   */
+  const describeTarget = () => {
+    if (!dragCircleRef || !gameAreaRef) return '';
     
-    const x = Math.random() * 80 + 10; // 10% to 90%
-    const y = Math.random() * 70 + 15; // 15% to 85%
+    const circle = centerOf(dragCircleRef);
+    const closest = round().targets
+      .filter(target => target.kind === 'target')
+      .map(targetCenter)
+      .sort((a, b) => Math.hypot(a.x - circle.x, a.y - circle.y) - Math.hypot(b.x - circle.x, b.y - circle.y))[0];
+    return closest ? t().drag.targetIs(describeDirection(circle, closest)) : '';
+  };
+  
+  /**
+   * Switch to another mode, dropping the current round
+   */
+  const chooseMode = (value: DragModeId) => {
+    saveClassicScore();
+    setDailyDay(undefined);
+    setMode(value);
+    setRound(newRound(value));
+    setNewBest(false);
+    props.onScoreChange?.(0);
+  };
+  
+  /**
+   * Start a timed round
+   */
+  const startTimedRound = () => {
+    bestBefore = scoreStorage.getBest(scoreId());
+    setNewBest(false);
+    setPendingRun(undefined);
+    props.onRunStart?.();
+    
+    if (round().status !== 'ready') {
+      setDailyDay(undefined);
+      setRound(newRound(mode()));
+    }
+    setRound(startRound(round()));
+    props.onScoreChange?.(0);
+    dragCircleRef?.focus();
+  };
+  
+  /**
+   * Start today's challenge, the one scored daily attempt
+   */
+  const startDailyRound = () => {
+    const day = getDailyKey();
+    if (timedRoundRunning() || !dailyStorage.start(DAILY_ID, day)) return;
+    
+    saveClassicScore();
+    setMode(DAILY_MODE);
+    setRound(newRound(DAILY_MODE, getDailySeed(DAILY_ID, day)));
+    setDailyDay(day);
+    startTimedRound();
+  };
+  
+  /**
+   * Start the round loop if it is not running
+   */
+  const startLoop = () => {
+    if (frameId !== undefined) return;
+    lastFrameTime = undefined;
+    frameId = requestAnimationFrame(updateRound);
+  };
+  
+  /**
+   * Stop the round loop without resetting the round
+   */
+  const stopLoop = () => {
+    if (frameId !== undefined) cancelAnimationFrame(frameId);
+    frameId = undefined;
+  };
+  
+  /**
+   * Round loop - counts down and moves drifting targets
+   */
+  const updateRound = (time: number) => {
+    frameId = undefined;
+    
+    // Clamp long gaps (background tabs) so the clock does not jump
+    const elapsed = lastFrameTime === undefined ? 0 : Math.min(time - lastFrameTime, MAX_FRAME_MS);
+    lastFrameTime = time;
+    
+    setRound(current => advanceRound(current, elapsed / 1000));
     
-    const gameArea = gameAreaRef.getBoundingClientRect();
-    console.log('Moving target to new position', x, y);
+    if (round().status === 'over') {
+      finishRound();
+      return;
+    }
+    
+    // Drifting targets can run into a circle that stands still
+    if (rules().drift > 0) checkCollision();
+    
+    frameId = requestAnimationFrame(updateRound);
+  };
+  
+  /**
+   * Save the result of a finished timed round
+   */
+  const finishRound = () => {
+    scoreStorage.recordScore(scoreId(), score());
+    setNewBest(score() > bestBefore);
+    setPendingRun({ scoreId: scoreId(), score: score() });
+    props.onGameOver?.(score());
+    audio.play('roundOver');
     
-    gsap.to(targetRef, {
-      left: `calc(${x}% - 20px)`, 
-      top: `calc(${y}% - 20px)`,
-      scale: 1,
-      opacity: 1,
-      duration: 0.3
+    const day = dailyDay();
+    if (day !== undefined) dailyStorage.finish(DAILY_ID, day, score());
+    setAnnouncement(`${t().drag.summary.title} ${t().drag.summary.score}: ${score()}.`);
+  };
+  
+  /**
+   * Save the score of the endless classic round
+   * Called when the round is left rather than on every hit.
+   */
+  const saveClassicScore = () => {
+    if (mode() !== 'classic') return;
+    
+    scoreStorage.recordScore(scoreId(), score());
+    if (score() > 0) setPendingRun({ scoreId: scoreId(), score: score() });
+  };
+  
+  /**
+   * Celebrate a hit target
+   */
+  const handleTargetHit = (target: DragTarget) => {
+    props.onScoreChange?.(score());
+    audio.play('hit');
+    setAnnouncement(`${t().drag.hit(score())} ${describeTarget()}`);
+    
+    if (props.containerRef) {
+      animation.to(props.containerRef, {
+        boxShadow: theme().shadows.glow,
+        duration: 0.3,
+        yoyo: true,
+        repeat: 1
+      });
+    }
+    
+    // The background places trophies in viewport percentages
+    const center = targetCenter(target);
+    
+    eventBus.emit('targetHit', { gameId: GAME_ID });
+    eventBus.emit('trophy', {
+      x: (center.x / window.innerWidth) * 100,
+      y: (center.y / window.innerHeight) * 100
     });
   };
   
-  // Check for collision between circle and target
-  const checkCollision = () => {
-    if (!dragCircleRef || !targetRef) return;
+  /**
+   * Shake the field when an avoid target is touched
+   */
+  const handleHazardHit = () => {
+    props.onScoreChange?.(score());
+    audio.play('hazard');
+    setAnnouncement(t().drag.hazardHit(score()));
+    
+    if (!motionPreference.isReduced()) {
+      animation.fromTo(gameAreaRef, { x: -8 }, { x: 0, duration: 0.5, ease: 'elastic.out(1, 0.3)' });
+    }
+  };
+  
+  /**
+   * Move the circle by an offset, keeping it inside the game area
+   */
+  const moveCircleBy = (dx: number, dy: number) => {
+    if (!dragCircleRef || !gameAreaRef) return;
     
     const circle = dragCircleRef.getBoundingClientRect();
-    const target = targetRef.getBoundingClientRect();
+    const area = gameAreaRef.getBoundingClientRect();
+    const left = area.left + gameAreaRef.clientLeft;
+    const top = area.top + gameAreaRef.clientTop;
+    const right = left + gameAreaRef.clientWidth;
+    const bottom = top + gameAreaRef.clientHeight;
     
-    const circleCenter = {
-      x: circle.left + circle.width / 2,
-      y: circle.top + circle.height / 2
-    };
+    const x = Math.min(right - circle.right, Math.max(left - circle.left, dx));
+    const y = Math.min(bottom - circle.bottom, Math.max(top - circle.top, dy));
+    const relative = (value: number) => `${value < 0 ? '-' : '+'}=${Math.abs(value)}`;
+    
+    animation.set(dragCircleRef, { x: relative(x), y: relative(y) });
+  };
+  
+  /**
+   * Move the circle with the arrow keys
+   */
+  const handleCircleKeyDown = (e: KeyboardEvent) => {
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (!direction || props.paused) return;
+    e.preventDefault();
+    
+    const now = performance.now();
+    keyStep = now - lastKeyTime < KEY_REPEAT_WINDOW_MS
+      ? Math.min(keyStep * KEY_STEP_GROWTH, KEY_STEP_MAX)
+      : KEY_STEP_MIN;
+    lastKeyTime = now;
+    
+    moveCircleBy(direction.x * keyStep, direction.y * keyStep);
+    checkCollision();
+  };
+  
+  // Check whether the circle touches a target or an avoid target
+  const checkCollision = () => {
+    if (!dragCircleRef || !gameAreaRef || props.paused) return;
     
-    const targetCenter = {
-      x: target.left + target.width / 2,
-      y: target.top + target.height / 2
+    const circle = dragCircleRef.getBoundingClientRect();
+    const area = gameAreaRef.getBoundingClientRect();
+    const point = {
+      x: circle.left + circle.width / 2 - area.left - gameAreaRef.clientLeft,
+      y: circle.top + circle.height / 2 - area.top - gameAreaRef.clientTop
     };
     
-    const distance = Math.sqrt(
-      Math.pow(circleCenter.x - targetCenter.x, 2) + 
-      Math.pow(circleCenter.y - targetCenter.y, 2)
+    const touched = findTouchedTarget(
+      round(),
+      point,
+      { width: gameAreaRef.clientWidth, height: gameAreaRef.clientHeight },
+      circle.width / 2 + TARGET_SIZE / 2
     );
+    const hit = touched && touchTarget(round(), touched.id, random);
+    if (!touched || !hit) return;
     
-    if (distance < (circle.width / 2 + target.width / 2)) {
-      // Target hit!
-      gsap.to(targetRef, {
-        scale: 1.5,
-        opacity: 0,
-        duration: 0.3,
-        onComplete: () => {
-          setScore(s => s + 1);
-          moveTargetToRandomPosition();
-          
-          if (props.containerRef) {
-            gsap.to(props.containerRef, {
-              boxShadow: '0 0 30px rgba(99, 102, 241, 0.8)',
-              duration: 0.3,
-              yoyo: true,
-              repeat: 1
-            });
-          }
-          
-          const targetRect = targetRef!.getBoundingClientRect();
-          const gameRect = gameRef!.getBoundingClientRect();
-          
-          addTrophy(
-            ((targetRect.left - gameRect.left) / gameRect.width) * 100,
-            ((targetRect.top - gameRect.top) / gameRect.height) * 100
-          );
-        }
-      });
+    setRound(hit.round);
+    if (hit.kind === 'target') {
+      handleTargetHit(touched);
+    } else {
+      handleHazardHit();
     }
   };
   
-  onMount(() => {
-    if (!gameRef || !dragCircleRef || !targetRef || !gameAreaRef) {
-      console.warn('Required elements not found');
-      return;
+  /**
+   * Pop a new target into view
+   */
+  const popIn = (element: HTMLDivElement) => {
+    const calm = motionPreference.isReduced();
+    animation.fromTo(element,
+      { scale: calm ? 1 : 0, opacity: 0 },
+      { scale: 1, opacity: 1, duration: 0.3, ease: calm ? 'none' : 'back.out(1.7)' }
+    );
+  };
+  
+  // Timed rounds run a clock while they are played
+  createEffect(() => {
+    if (round().status === 'running' && rules().duration !== undefined && !props.paused) {
+      startLoop();
+    } else {
+      stopLoop();
     }
+  });
+  
+  // Stop dragging while the shell has the game paused
+  createEffect(on(() => !!props.paused, paused => {
+    if (!draggable) return;
     
-    console.log('Game mounted, initializing...');
-    
-    if (typeof gsap === 'undefined' || typeof Draggable === 'undefined') {
-      console.warn('GSAP or Draggable not available');
-      return;
+    if (paused) {
+      draggable.disable();
+    } else {
+      draggable.enable();
     }
+  }, { defer: true }));
+  
+  // Follow the board of the current mode
+  createEffect(on(mode, value => {
+    setBest(scoreStorage.getBest(scoreId()));
+    props.onBoardChange?.({ id: scoreId(), label: t().drag.modes[value].name });
+  }));
+  
+  onCleanup(() => {
+    saveClassicScore();
+    stopLoop();
+    draggable?.kill();
+  });
+  
+  onMount(() => {
+    // Keep the best score in sync with saved scores
+    onCleanup(scoreStorage.subscribe(() => setBest(scoreStorage.getBest(scoreId()))));
     
-    // First make sure target is visible but at opacity 0
-    gsap.set(targetRef, {
-      opacity: 0,
-      scale: 0,
-      left: '50%', 
-      top: '50%'
-    });
+    // Closing the tab skips cleanup, so the classic score is saved on the way out
+    window.addEventListener('pagehide', saveClassicScore);
+    onCleanup(() => window.removeEventListener('pagehide', saveClassicScore));
     
-    // Register GSAP plugin
-    if (typeof gsap.registerPlugin === 'function') {
-      try {
-        gsap.registerPlugin(Draggable);
-      } catch (e) {
-        console.warn('Failed to register Draggable plugin:', e);
-        return;
-      }
+    if (!gameRef || !dragCircleRef || !gameAreaRef) {
+      console.warn('Required elements not found');
+      return;
     }
     
     // Initialize draggable
     try {
-      Draggable.create(dragCircleRef, {
-        type: 'x,y',
+      draggable = animation.draggable(dragCircleRef, {
         bounds: gameAreaRef,
-        edgeResistance: 0.65,
-        inertia: true,
         onDragStart: () => {
-          gsap.to(dragCircleRef, { scale: 1.1, duration: 0.2 });
+          animation.to(dragCircleRef, { scale: 1.1, duration: 0.2 });
         },
         onDrag: checkCollision,
         onDragEnd: () => {
-          gsap.to(dragCircleRef, { scale: 1, duration: 0.2 });
+          animation.to(dragCircleRef, { scale: 1, duration: 0.2 });
           checkCollision();
         }
       });
       
-      // Show first target after a short delay
-      setTimeout(() => {
-        console.log('Showing initial target');
-        moveTargetToRandomPosition();
-      }, 500);
+      if (props.paused) draggable.disable();
     } catch (error) {
       console.error('Error initializing draggable:', error);
     }
   });
   
+  // Stats shown at the end of a round, depending on the mode
+  const summary = () => {
+    const { summary: labels } = t().drag;
+    const current = round();
+    const minutes = (DRAG_MODE_RULES[current.mode].duration ?? 60) / 60;
+    
+    switch (current.mode) {
+      case 'swarm':
+        return [
+          { label: labels.waves, value: current.wave - 1 },
+          { label: labels.hits, value: current.hits },
+          { label: labels.hazards, value: current.hazardHits }
+        ];
+      default:
+        return [
+          { label: labels.hits, value: current.hits },
+          { label: labels.hitsPerMinute, value: Math.round(current.hits / minutes) },
+          { label: labels.bestCombo, value: `×${current.bestCombo}` }
+        ];
+    }
+  };
+  
   return (
-    <div ref={gameRef} class="my-6 p-4 bg-gray-800/90 rounded-lg">
-      <div class="flex items-center justify-between mb-4">
-        <h3 class="text-xl font-pixelify text-indigo-400">Mini-Game</h3>
-        <div class="text-lg">
-          Score: <span class="text-yellow-400 font-bold">{score()}</span>
+    <div ref={gameRef} class={props.inShell ? '' : 'my-6 p-4 bg-page/90 rounded-lg'}>
+      <Show when={!props.inShell}>
+        <div class="flex items-center justify-between mb-4">
+          <h3 class="text-xl font-pixelify text-primary-ink">{t().drag.heading}</h3>
+          <div class="flex items-center gap-3 text-lg">
+            <div>
+              {t().common.score}: <span class="text-highlight font-bold">{score()}</span>
+              <span class="text-sm text-ink-muted ms-2">{t().common.best}: {best()}</span>
+            </div>
+            <button 
+              class="text-ink-muted hover:text-highlight"
+              onClick={() => setShowLeaderboard(true)}
+              aria-label={t().shell.leaderboard}
+            >
+              <i class="fas fa-trophy"></i>
+            </button>
+          </div>
+        </div>
+      </Show>
+      
+      {/* Mode picker and round status */}
+      <div class="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div
+          role="group"
+          aria-label={t().drag.mode}
+          class="flex flex-wrap items-center gap-1 rounded-full bg-well/80 p-1 text-xs"
+        >
+          <For each={DRAG_MODES}>
+            {(option) => (
+              <button
+                class={`px-2 py-1 rounded-full disabled:opacity-50 ${mode() === option ? 'bg-primary text-on-primary' : 'text-ink-soft hover:text-ink'}`}
+                aria-pressed={mode() === option}
+                disabled={dailyDay() !== undefined && round().status === 'running'}
+                onClick={() => chooseMode(option)}
+              >
+                {t().drag.modes[option].name}
+              </button>
+            )}
+          </For>
+        </div>
+        <div class="flex items-center gap-3 text-sm">
+          <Show when={dailyDay()}>
+            <span class="px-2 rounded-full bg-highlight/20 text-highlight text-xs font-pixelify">
+              <i class="fas fa-calendar-day me-1" aria-hidden="true"></i> {t().daily.badge}
+            </span>
+          </Show>
+          <Show when={rules().waves && round().status === 'running'}>
+            <span class="text-ink-soft">{t().drag.wave(round().wave)}</span>
+          </Show>
+          <Show when={round().combo > 1}>
+            <span class="px-2 rounded-full bg-highlight/20 text-highlight font-bold">{t().drag.combo(round().combo)}</span>
+          </Show>
+          <Show when={timeLeft(round())}>
+            {(seconds) => (
+              <span class={`tabular-nums font-bold ${seconds() <= 10 ? 'text-danger' : 'text-ink'}`}>
+                <i class="fas fa-stopwatch me-1" aria-hidden="true"></i>
+                <span class="sr-only">{t().drag.timeLeft}: </span>
+                {Math.ceil(seconds())}
+              </span>
+            )}
+          </Show>
         </div>
       </div>
+      <p class="text-xs text-ink-muted mb-2">{t().drag.modes[mode()].description}</p>
       
-      <div ref={gameAreaRef} class="game-area relative h-32 border-2 border-dashed border-indigo-500/50 rounded-lg bg-gray-900/50 overflow-hidden">
+      {/* The play field keeps screen coordinates in every language */}
+      <div
+        ref={gameAreaRef}
+        dir="ltr"
+        class={`game-area relative h-32 border-2 border-dashed border-primary-bright/50 rounded-lg bg-well/50 overflow-hidden transition-opacity ${round().status === 'over' ? 'opacity-60' : ''}`}
+      >
         {/* Draggable circle */}
         <div 
           ref={dragCircleRef}
-          class="drag-circle absolute w-8 h-8 bg-indigo-500 rounded-full cursor-grab active:cursor-grabbing z-10 shadow-lg"
+          class="drag-circle absolute w-8 h-8 bg-primary-bright rounded-full cursor-grab active:cursor-grabbing z-10 shadow-lg focus:outline-none focus-visible:ring-4 focus-visible:ring-highlight"
           style={{ left: '20px', top: '20px' }}
+          tabIndex={0}
+          role="button"
+          aria-label={t().drag.circle}
+          aria-describedby={`${GAME_ID}-instructions`}
+          onKeyDown={handleCircleKeyDown}
+          onFocus={() => setAnnouncement(describeTarget())}
         >
-          <i class="fas fa-hand-pointer absolute inset-0 flex items-center justify-center text-white"></i>
+          <i class="fas fa-hand-pointer absolute inset-0 flex items-center justify-center text-on-primary" aria-hidden="true"></i>
         </div>
         
-        {/* Target (always render it) */}
-        <div 
-          ref={targetRef}
-          class="absolute w-10 h-10 bg-green-500 rounded-full shadow-lg"
-          style={{ 
-            left: '50%', 
-            top: '50%',
-            transform: 'translate(-50%, -50%)',
-            opacity: 0
-          }}
+        {/* Targets and avoid targets, keyed by id so each one pops in once */}
+        <Show when={round().status !== 'ready'}>
+          <For each={round().targets.map(target => target.id)}>
+            {(id) => {
+              const target = () => round().targets.find(item => item.id === id);
+              
+              return (
+                <Show when={target()}>
+                  {(item) => (
+                    <div
+                      ref={popIn}
+                      class={`absolute w-10 h-10 rounded-full shadow-lg ${item().kind === 'hazard' ? 'bg-danger' : 'bg-target'}`}
+                      role="img"
+                      aria-label={item().kind === 'hazard' ? t().drag.hazard : t().drag.target}
+                      style={{
+                        left: `calc(${item().x * 100}% - ${TARGET_SIZE / 2}px)`,
+                        top: `calc(${item().y * 100}% - ${TARGET_SIZE / 2}px)`
+                      }}
+                    >
+                      <div class="absolute inset-0 flex items-center justify-center text-white" aria-hidden="true">
+                        <i class={`fas ${item().kind === 'hazard' ? 'fa-skull' : 'fa-crosshairs'}`}></i>
+                      </div>
+                    </div>
+                  )}
+                </Show>
+              );
+            }}
+          </For>
+        </Show>
+        
+        <Show
+          when={round().status === 'ready'}
+          fallback={
+            <p
+              id={`${GAME_ID}-instructions`}
+              dir="auto"
+              class="absolute inset-0 flex items-center justify-center text-center text-primary-soft text-sm font-tagesschrift pointer-events-none"
+            >
+              {t().drag.instructions}
+            </p>
+          }
         >
-          <div class="absolute inset-0 flex items-center justify-center text-white">
-            <i class="fas fa-crosshairs"></i>
+          <div class="absolute inset-0 z-20 flex items-center justify-center bg-page/60">
+            <p id={`${GAME_ID}-instructions`} class="sr-only">{t().drag.instructions}</p>
+            <button
+              class="px-4 py-2 rounded-lg bg-primary hover:bg-primary-hover text-on-primary font-pixelify"
+              onClick={startTimedRound}
+            >
+              <i class="fas fa-play me-2"></i> {t().drag.start}
+            </button>
           </div>
-        </div>
-        
-        <p class="absolute inset-0 flex items-center justify-center text-indigo-300 text-sm font-tagesschrift pointer-events-none">
-          Drag the circle to the target!
-        </p>
+        </Show>
       </div>
       
-      <div class="mt-2 text-xs text-gray-400 italic text-center">
-        <i class="fas fa-lightbulb text-yellow-300 mr-1"></i> 
-        Psst... Try To search about Konami secrets 🤫 to open hidden mini game
+      {/* End-of-round summary */}
+      <Show when={round().status === 'over'}>
+        <div class="mt-3 p-3 rounded-lg bg-well/60 border-2 border-highlight/60 text-center">
+          <p class="font-pixelify text-lg text-primary-ink">
+            {t().drag.summary.title}{' '}
+            <span class="text-highlight">{t().drag.summary.score}: {score()}</span>
+            <Show when={newBest()}>
+              <span class="ms-2 px-2 py-0.5 rounded-full bg-highlight/20 text-highlight text-xs font-bold">
+                <i class="fas fa-star me-1"></i> {t().drag.summary.newBest}
+              </span>
+            </Show>
+          </p>
+          <dl class="grid grid-cols-3 gap-2 my-2 text-sm">
+            <For each={summary()}>
+              {(stat) => (
+                <div>
+                  <dt class="text-xs text-ink-muted">{stat.label}</dt>
+                  <dd class="font-bold text-ink">{stat.value}</dd>
+                </div>
+              )}
+            </For>
+          </dl>
+          <p class="mb-2 text-xs text-ink-faint">
+            {t().games.layout} <bdi dir="ltr" class="font-mono">{formatSeed(roundSeed())}</bdi>
+          </p>
+          <button
+            class="px-4 py-1 rounded-lg bg-primary hover:bg-primary-hover text-on-primary font-pixelify"
+            onClick={startTimedRound}
+          >
+            <i class="fas fa-redo me-2"></i> {t().drag.summary.playAgain}
+          </button>
+        </div>
+      </Show>
+      
+      {/* Today's challenge and past daily results */}
+      <div class="mt-3">
+        <DailyPanel
+          gameId={DAILY_ID}
+          title={t().games.drag.title}
+          emoji="🎯"
+          disabled={timedRoundRunning()}
+          onPlay={startDailyRound}
+        />
       </div>
+      
+      {/* Score and target updates for screen readers */}
+      <p class="sr-only" aria-live="polite" aria-atomic="true">{announcement()}</p>
+      
+      <Show when={!props.inShell}>
+        <div class="mt-2 text-xs text-ink-muted italic text-center">
+          <i class="fas fa-lightbulb text-highlight-soft me-1"></i> {t().drag.konamiHint}
+        </div>
+        
+        {/* Leaderboard */}
+        {showLeaderboard() && (
+          <Leaderboard
+            gameId={scoreId()}
+            title={t().drag.leaderboardTitle(t().drag.modes[mode()].name)}
+            pendingScore={pendingRun()?.scoreId === scoreId() ? pendingRun()?.score : undefined}
+            onSave={() => setPendingRun(undefined)}
+            onClose={() => setShowLeaderboard(false)}
+          />
+        )}
+      </Show>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,328 +1,819 @@
-import { Component, createSignal, For, onMount, onCleanup } from 'solid-js';
+import { Component, createEffect, createSignal, For, Index, on, onMount, onCleanup, Show } from 'solid-js';
+import {
+  createFlappyConfig,
+  FLAPPY_DIFFICULTIES,
+  FlappyAction,
+  FlappyDifficulty,
+  FlappySimulation,
+  FlappyState,
+  getObstacleRects
+} from './flappySimulation';
+import { decodeReplay, encodeReplay, FlappyReplay, FlappyReplayPlayer, isOutdatedReplayCode } from './flappyReplay';
+import type { GameProps } from './registry';
+import { DailyPanel } from './DailyPanel';
+import {
+  animation,
+  audio,
+  createSeed,
+  createStream,
+  dailyStorage,
+  formatSeed,
+  getDailyKey,
+  getDailySeed,
+  motionPreference,
+  replayStorage,
+  scoreStorage,
+  InputController,
+  createKeyboardSource,
+  createPointerSource,
+  createGamepadSource,
+  GamepadButton
+} from '../../utils';
+import { t } from '../../i18n';
 
-// Type definitions
-declare const gsap: any;
+const GAME_ID = 'flappy';
 
-interface FlappyGameProps {
-  onClose: () => void;
-}
+// Everyone flies the daily challenge on the same difficulty
+const DAILY_DIFFICULTY: FlappyDifficulty = 'normal';
 
-// Type for game obstacles
-interface Obstacle {
-  id: number; 
-  x: number; 
-  height: number;
-  gapSize: number;
-}
+// Commands the game reacts to, from any input source
+type FlappyCommand = FlappyAction | 'pause' | 'exit';
+
+// Screens of the game: choosing a difficulty, flying, the final score, and watching a replay
+type FlappyPhase = 'start' | 'playing' | 'over' | 'replay';
+
+// Time the game-over screen ignores flaps for, in milliseconds
+const GAME_OVER_INPUT_DELAY_MS = 600;
 
 /**
  * A secret Flappy Bird-style game that can be unlocked with the Konami code
+ * Rendered inside the arcade shell, which provides the score and close chrome.
  */
-const FlappyGame: Component<FlappyGameProps> = (props) => {
+const FlappyGame: Component<GameProps> = (props) => {
   let gameRef: HTMLDivElement | undefined;
   let playerRef: HTMLDivElement | undefined;
-  let scoreRef: HTMLSpanElement | undefined;
   let gameAreaRef: HTMLDivElement | undefined;
   
-  // Game state
-  const [score, setScore] = createSignal(0);
-  const [playerPosition, setPlayerPosition] = createSignal({ y: 50 });
-  const [obstacles, setObstacles] = createSignal<Obstacle[]>([]);
-  const [gameActive, setGameActive] = createSignal(false);
-  const [gameWidth, setGameWidth] = createSignal(0);
-  const [gameHeight, setGameHeight] = createSignal(0);
+  // Game simulation and the state rendered from it
+  const [difficulty, setDifficulty] = createSignal<FlappyDifficulty>('normal');
+  const simulation = new FlappySimulation(createFlappyConfig(difficulty()));
+  const [game, setGame] = createSignal<FlappyState>(simulation.state);
+  const config = () => {
+    game();
+    return viewer()?.player.config ?? simulation.config;
+  };
+  
+  // Screens and pause state
+  const [phase, setPhase] = createSignal<FlappyPhase>('start');
+  const [userPaused, setUserPaused] = createSignal(false);
+  const [best, setBest] = createSignal(scoreStorage.getBest(GAME_ID));
+  const [newBest, setNewBest] = createSignal(false);
+  
+  // Replays: the last run, the one being watched and the ghost being raced
+  const [lastReplay, setLastReplay] = createSignal<FlappyReplay>();
+  const [viewer, setViewer] = createSignal<{ player: FlappyReplayPlayer; verified: boolean; returnTo: FlappyPhase }>();
+  const [replayTick, setReplayTick] = createSignal(0);
+  const [replayPlaying, setReplayPlaying] = createSignal(false);
+  const [raceGhost, setRaceGhost] = createSignal(false);
+  const [ghostState, setGhostState] = createSignal<FlappyState>();
+  const [replayCode, setReplayCode] = createSignal('');
+  const [replayError, setReplayError] = createSignal<'invalid' | 'outdated'>();
+  const [copied, setCopied] = createSignal(false);
+  const [replayVersion, setReplayVersion] = createSignal(0);
+  let ghost: FlappyReplayPlayer | undefined;
+  let runSeed = 0;
+  let runDifficulty: FlappyDifficulty = difficulty();
+  
+  // Challenge day of the current run, if it is a daily attempt
+  const [dailyDay, setDailyDay] = createSignal<string>();
+  
+  // Input from keyboard, touch and gamepads
+  const input = new InputController<FlappyCommand>([
+    createKeyboardSource<FlappyCommand>({
+      ArrowUp: 'flap',
+      ' ': 'flap',
+      ArrowDown: 'dive',
+      p: 'pause',
+      P: 'pause'
+    }),
+    createGamepadSource<FlappyCommand>({
+      [GamepadButton.A]: 'flap',
+      [GamepadButton.DpadDown]: 'dive',
+      [GamepadButton.Start]: 'pause',
+      [GamepadButton.B]: 'exit'
+    })
+  ]);
+  
+  let frameId: number | undefined;
+  let lastFrameTime: number | undefined;
+  // When the game-over screen appeared, so a flap held through the crash does not skip it
+  let gameOverTime = 0;
+  // Fractional step position while a replay plays
+  let replayPosition = 0;
+  
+  /**
+   * Convert world units to a percentage of the game area
+   */
+  const toPercentX = (value: number) => `${(value / config().width) * 100}%`;
+  const toPercentY = (value: number) => `${(value / config().height) * 100}%`;
+  
+  /**
+   * Whether the run is frozen by the shell or the player
+   */
+  const halted = () => !!props.paused || userPaused();
+  
+  /**
+   * Best saved run for the chosen difficulty, if it can be read
+   */
+  const bestReplay = (): FlappyReplay | undefined => {
+    replayVersion();
+    const saved = replayStorage.getBest(`${GAME_ID}:${difficulty()}`);
+    if (!saved) return undefined;
+    
+    try {
+      return decodeReplay(saved.code);
+    } catch (e) {
+      console.warn('Ignoring unreadable saved replay', e);
+      return undefined;
+    }
+  };
+  
+  /**
+   * Show a fresh field for a difficulty on the start screen
+   */
+  const chooseDifficulty = (value: FlappyDifficulty) => {
+    if (phase() === 'playing') return;
+    setDifficulty(value);
+    simulation.reset(createFlappyConfig(value));
+    setGame(simulation.state);
+  };
+  
+  /**
+   * Go back to the start screen to pick another difficulty
+   */
+  const showStartScreen = () => {
+    if (phase() !== 'over') return;
+    setPhase('start');
+    chooseDifficulty(difficulty());
+    animation.set(playerRef, { rotate: 0, opacity: 1, y: 0 });
+  };
   
   /**
-   * Initialize the game state and start the game loop
+   * Start a new run with the chosen difficulty
+   * @param day - Challenge day, to fly that day's layout as its one daily attempt
    */
-  const initGame = () => {
-    if (!gameRef || !playerRef || !gameAreaRef) return;
+  const startRun = (day?: string) => {
+    if (phase() === 'playing' || phase() === 'replay' || !playerRef) return;
+    if (day !== undefined && !dailyStorage.start(GAME_ID, day)) return;
+    
+    setDailyDay(day);
+    // The daily run flies its own difficulty without changing the player's choice
+    runDifficulty = day !== undefined ? DAILY_DIFFICULTY : difficulty();
     
-    // Get game area dimensions for proper positioning
-    const rect = gameAreaRef.getBoundingClientRect();
-    setGameWidth(rect.width);
-    setGameHeight(rect.height);
+    // Racing a ghost replays its layout, so both rockets face the same pipes;
+    // a pinned seed only has a ghost if the best run flew the same layout
+    const best = raceGhost() && day === undefined ? bestReplay() : undefined;
+    const rival = best && (props.seed === undefined || best.seed === props.seed) ? best : undefined;
+    ghost = rival && new FlappyReplayPlayer(rival);
+    setGhostState(ghost?.state);
     
-    // Reset game to initial state
-    setScore(0);
+    runSeed = day !== undefined ? getDailySeed(GAME_ID, day) : props.seed ?? rival?.seed ?? createSeed();
+    simulation.reset(createFlappyConfig(runDifficulty), createStream(runSeed, 'obstacles'));
+    setGame(simulation.state);
+    animation.set(playerRef, { rotate: 0, opacity: 1, y: 0 });
+    
+    setNewBest(false);
+    setUserPaused(false);
+    setPhase('playing');
+    props.onRunStart?.();
+  };
+  
+  /**
+   * Start the game loop if it is not running
+   */
+  const startLoop = () => {
+    if (frameId !== undefined) return;
+    lastFrameTime = undefined;
+    frameId = requestAnimationFrame(updateGame);
+  };
+  
+  /**
+   * Stop the game loop without resetting the run
+   */
+  const stopLoop = () => {
+    if (frameId !== undefined) cancelAnimationFrame(frameId);
+    frameId = undefined;
+  };
+  
+  /**
+   * Watch a recorded run
+   */
+  const watchReplay = (replay: FlappyReplay) => {
+    if (phase() === 'playing') return;
     
-    // Create initial obstacles with consistent gap sizes
-    setObstacles([
-      createObstacle(rect.width + 50, 1),
-      createObstacle(rect.width + 200, 2),
-      createObstacle(rect.width + 350, 3)
-    ]);
+    const player = new FlappyReplayPlayer(replay);
+    const verified = player.verify();
+    setViewer({ player, verified, returnTo: phase() === 'over' ? 'over' : 'start' });
     
-    // Position player in the middle
-    setPlayerPosition({ y: 50 });
+    setGhostState(undefined);
+    animation.set(playerRef, { rotate: 0, opacity: 1, y: 0 });
+    setPhase('replay');
+    seekReplay(0);
+    setReplayPlaying(true);
+  };
+  
+  /**
+   * Watch a run pasted as a code
+   */
+  const watchReplayCode = (e: Event) => {
+    e.preventDefault();
+    try {
+      const replay = decodeReplay(replayCode());
+      setReplayError(undefined);
+      watchReplay(replay);
+    } catch (error) {
+      console.warn('Invalid replay code', error);
+      setReplayError(isOutdatedReplayCode(replayCode()) ? 'outdated' : 'invalid');
+    }
+  };
+  
+  /**
+   * Jump to a step of the replay being watched
+   */
+  const seekReplay = (tick: number) => {
+    const current = viewer();
+    if (!current) return;
     
-    // Activate game loop
-    setGameActive(true);
+    replayPosition = tick;
+    setGame(current.player.seek(tick));
+    setReplayTick(current.player.state.tick);
+  };
+  
+  /**
+   * Whether the replay being watched has reached its end (or a crash before it)
+   */
+  const replayEnded = () => {
+    const current = viewer();
+    return !current || game().status !== 'running' || replayTick() >= current.player.length;
+  };
+  
+  /**
+   * Play or pause the replay, starting over once it has ended
+   */
+  const toggleReplay = () => {
+    const current = viewer();
+    if (!current) return;
     
-    // Start game loop
-    requestAnimationFrame(updateGame);
+    if (!replayPlaying() && replayEnded()) seekReplay(0);
+    setReplayPlaying(playing => !playing);
   };
   
   /**
-   * Create a new obstacle with proper sizing
+   * Leave the replay for the screen it was opened from
    */
-  const createObstacle = (xPosition: number, id: number): Obstacle => {
-    // The gap size stays consistent for better gameplay
-    const gapSize = 30; 
-    
-    // The height determines where the gap starts (from the top)
-    // Keep it between 20% and 70% to avoid impossible positions
-    const height = 20 + Math.random() * 50;
-    
-    return {
-      id: id || Date.now(),
-      x: xPosition,
-      height: height,
-      gapSize: gapSize
-    };
+  const closeReplay = () => {
+    const current = viewer();
+    if (!current) return;
+    
+    setReplayPlaying(false);
+    setViewer(undefined);
+    
+    // The finished run is still in the simulation, so its game-over screen comes back as it was
+    if (current.returnTo === 'over') {
+      setGame(simulation.state);
+      setPhase('over');
+    } else {
+      setPhase('start');
+      chooseDifficulty(difficulty());
+    }
   };
   
   /**
-   * Handle keyboard input for the game
+   * Copy the last run as a replay code
    */
-  const handleControls = (e: KeyboardEvent) => {
-    if (!gameActive()) return;
-    
-    if (e.key === 'ArrowUp' || e.key === ' ') {
-      // Move player upward with smoother motion
-      setPlayerPosition(prev => ({ y: Math.max(0, prev.y - 5) }));
-      e.preventDefault();
-    } else if (e.key === 'ArrowDown') {
-      // Move player downward with smoother motion
-      setPlayerPosition(prev => ({ y: Math.min(90, prev.y + 5) }));
-      e.preventDefault();
-    } else if (e.key === 'Escape') {
-      closeGame();
-      e.preventDefault();
+  const copyReplay = async () => {
+    const replay = lastReplay();
+    if (!replay) return;
+    
+    try {
+      await navigator.clipboard.writeText(encodeReplay(replay));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Failed to copy replay code', e);
     }
   };
   
   /**
-   * Game update loop - handles movement, collision, and scoring
+   * Handle input commands for the game
    */
-  const updateGame = () => {
-    if (!gameActive()) return;
-    
-    // Apply gentler gravity to player
-    setPlayerPosition(prev => ({ 
-      y: Math.min(90, prev.y + 0.5)
-    }));
-    
-    // Move obstacles from right to left
-    setObstacles(prev => {
-      // Update obstacle positions with slower speed
-      const updated = prev.map(obs => ({
-        ...obs,
-        x: obs.x - 2 // Reduced movement speed
-      }));
-      
-      // Replace obstacles that moved off-screen
-      const newObstacles = [...updated];
-      
-      for (let i = 0; i < newObstacles.length; i++) {
-        if (newObstacles[i].x < -50) {
-          setScore(prev => prev + 1);
-          
-          const rightmostX = Math.max(...newObstacles.map(o => o.x));
-          newObstacles[i] = createObstacle(rightmostX + 300, Date.now());
-        }
+  const handleCommand = (command: FlappyCommand) => {
+    if (command === 'exit') {
+      props.onExit?.();
+      return;
+    }
+    
+    if (props.paused) return;
+    
+    if (phase() === 'replay') {
+      if (command === 'pause') toggleReplay();
+      return;
+    }
+    
+    // Flap starts a run from the start and game-over screens
+    if (phase() !== 'playing') {
+      if (command === 'flap' && (phase() === 'start' || performance.now() - gameOverTime > GAME_OVER_INPUT_DELAY_MS)) {
+        startRun();
       }
-      
-      return newObstacles;
-    });
+      return;
+    }
     
-    // Check collisions
-    detectCollisions();
+    if (game().status !== 'running') return;
     
-    // Continue game loop
-    if (gameActive()) {
-      requestAnimationFrame(updateGame);
+    if (command === 'pause') {
+      setUserPaused(paused => !paused);
+    } else if (!userPaused()) {
+      simulation.queue(command);
+      audio.play(command);
     }
   };
   
   /**
-   * Check for collisions between player and obstacles
+   * Game update loop - advances the run or the replay by the elapsed frame time
    */
-  const detectCollisions = () => {
-    if (!playerRef || !gameActive()) return;
+  const updateGame = (time: number) => {
+    frameId = undefined;
     
-    const player = playerRef.getBoundingClientRect();
-    const playerSize = player.width;
-    const playerCenterY = player.top + (player.height / 2);
+    const elapsed = lastFrameTime === undefined ? 0 : time - lastFrameTime;
+    lastFrameTime = time;
     
-    obstacles().forEach(obs => {
-      // Find the top and bottom obstacle elements by ID
-      const topObsElem = document.getElementById(`obs-top-${obs.id}`);
-      const bottomObsElem = document.getElementById(`obs-bottom-${obs.id}`);
-      
-      if (!topObsElem || !bottomObsElem) return;
-      
-      const topRect = topObsElem.getBoundingClientRect();
-      const bottomRect = bottomObsElem.getBoundingClientRect();
-      
-      // Only check for collision if player is horizontally aligned with obstacle
-      if (
-        (player.right > topRect.left && player.left < topRect.right) ||
-        (player.right > bottomRect.left && player.left < bottomRect.right)
-      ) {
-        // Check if player is in the gap between obstacles
-        const gapTop = topRect.bottom;
-        const gapBottom = bottomRect.top;
-        
-        if (player.top < gapTop || player.bottom > gapBottom) {
-          // Collision detected!
-          handleCollision();
-          return;
-        }
-      }
-    });
+    if (phase() === 'replay') {
+      updateReplay(elapsed);
+      return;
+    }
+    
+    if (simulation.advance(elapsed) > 0) {
+      setGame(simulation.state);
+      if (ghost) setGhostState(ghost.seek(simulation.state.tick));
+    }
+    
+    if (simulation.state.status === 'crashed') {
+      handleCollision();
+      return;
+    }
+    
+    // Continue game loop
+    frameId = requestAnimationFrame(updateGame);
+  };
+  
+  /**
+   * Play the replay in real time, stopping at its end
+   */
+  const updateReplay = (elapsed: number) => {
+    const current = viewer();
+    if (!current) return;
+    
+    seekReplay(replayPosition + Math.min(elapsed, 250) / current.player.config.stepMs);
+    replayPosition = Math.min(replayPosition, current.player.length);
+    
+    if (replayEnded()) {
+      setReplayPlaying(false);
+      return;
+    }
+    
+    frameId = requestAnimationFrame(updateGame);
   };
   
   /**
    * Handle player collision (game over)
    */
   const handleCollision = () => {
-    // Animate player crash
-    gsap.to(playerRef, {
-      rotate: 720,
+    const finalScore = simulation.state.score;
+    
+    // Keep the run as a replay, and as the ghost to race if it is the best so far
+    const replay: FlappyReplay = {
+      difficulty: runDifficulty,
+      seed: runSeed,
+      inputs: [...simulation.inputs],
+      score: finalScore,
+      ticks: simulation.state.tick
+    };
+    setLastReplay(replay);
+    if (finalScore > 0) replayStorage.offer(`${GAME_ID}:${replay.difficulty}`, finalScore, encodeReplay(replay));
+    
+    const day = dailyDay();
+    if (day !== undefined) dailyStorage.finish(GAME_ID, day, finalScore);
+    
+    setNewBest(scoreStorage.recordScore(GAME_ID, finalScore));
+    setBest(scoreStorage.getBest(GAME_ID));
+    props.onGameOver?.(finalScore);
+    audio.play('crash');
+    
+    // Animate player crash (calm mode only fades), then show the score
+    const calm = motionPreference.isReduced();
+    animation.to(playerRef, {
+      rotate: calm ? 0 : 720,
       opacity: 0,
-      y: 100,
+      y: calm ? 0 : 100,
       duration: 1,
       ease: 'power2.in',
       onComplete: () => {
-        setGameActive(false);
-        
-        // Restart after delay
-        setTimeout(() => {
-          if (gameRef) { // Check if component is still mounted
-            gsap.set(playerRef, { // Reset player appearance
-              rotate: 0,
-              opacity: 1,
-              y: 0
-            });
-            initGame();
-          }
-        }, 1000);
+        gameOverTime = performance.now();
+        setPhase('over');
       }
     });
   };
   
   /**
-   * Close the game and clean up
+   * Pause when the tab is hidden, so the run is still there when the player returns
    */
-  const closeGame = () => {
-    setGameActive(false);
-    
-    // Animate out
-    gsap.to(gameRef, {
-      y: 100,
-      opacity: 0,
-      duration: 0.5,
-      ease: 'power2.in',
-      onComplete: props.onClose
-    });
+  const handleVisibilityChange = () => {
+    if (document.hidden && phase() === 'playing' && game().status === 'running') {
+      setUserPaused(true);
+    }
   };
   
+  // Report score changes of the player's own runs to the shell, with a chime for each pipe passed
+  createEffect(on(() => game().score, score => {
+    if (phase() !== 'replay') props.onScoreChange?.(score);
+    if (phase() === 'playing' && score > 0) audio.play('pass');
+  }));
+  
+  // Run the loop only while a run or replay is in progress and nothing holds it
+  createEffect(() => {
+    const playing = phase() === 'playing' && game().status === 'running' && !halted();
+    const watching = phase() === 'replay' && replayPlaying() && !props.paused;
+    if (playing || watching) {
+      startLoop();
+    } else {
+      stopLoop();
+    }
+  });
+  
   onMount(() => {
-    // Initialize game area dimensions
+    // Best runs saved by an older version cannot be watched, and would block new ones
+    FLAPPY_DIFFICULTIES.forEach(value => {
+      const key = `${GAME_ID}:${value}`;
+      const saved = replayStorage.getBest(key);
+      if (saved && isOutdatedReplayCode(saved.code)) replayStorage.remove(key);
+    });
+    
+    // Tap or hold the game area to fly, swipe down to dive
     if (gameAreaRef) {
-      const rect = gameAreaRef.getBoundingClientRect();
-      setGameWidth(rect.width);
-      setGameHeight(rect.height);
+      input.addSource(createPointerSource<FlappyCommand>(gameAreaRef, {
+        tap: 'flap',
+        hold: 'flap',
+        swipeDown: 'dive'
+      }));
     }
     
-    // Add event listener for controls
-    document.addEventListener('keydown', handleControls);
+    // Offer newly saved best runs as ghosts
+    onCleanup(replayStorage.subscribe(() => setReplayVersion(v => v + 1)));
+    
+    // Listen for controls
+    onCleanup(input.onCommand(handleCommand));
+    input.start();
     
-    // Start the game
-    initGame();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
   });
   
   onCleanup(() => {
-    // Remove event listener when component unmounts
-    document.removeEventListener('keydown', handleControls);
+    // Stop listening for controls when component unmounts
+    input.stop();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    
+    // Stop the game loop
+    stopLoop();
   });
   
+  // Key hints for the instructions, in the current language
+  const controls = () => {
+    const { keys, flappy } = t();
+    return [
+      { inputs: [keys.up, keys.space, flappy.tapOrHold, keys.gamepad('A')], action: flappy.fly },
+      { inputs: [keys.down, flappy.swipeDown], action: flappy.dive },
+      { inputs: [keys.p, keys.gamepad('Start')], action: flappy.pause },
+      { inputs: [keys.escape, keys.gamepad('B')], action: flappy.exit }
+    ];
+  };
+  
   return (
-    <div 
-      ref={gameRef}
-      class="fixed inset-0 flex items-center justify-center bg-black/70 z-50"
-    >
-      <div class="bg-gray-800 p-5 rounded-xl max-w-xl w-full relative">
-        <div class="flex justify-between items-center mb-4">
-          <h3 class="text-2xl font-pixelify text-indigo-400">Secret Mini-Game!</h3>
-          <div class="text-lg">
-            Score: <span ref={scoreRef} class="text-yellow-400 font-bold">{score()}</span>
-          </div>
-          <button 
-            class="text-gray-400 hover:text-white"
-            onClick={closeGame}
-          >
-            <i class="fas fa-times"></i>
-          </button>
-        </div>
-        
+    <div ref={gameRef}>
+      <div class="relative mb-3">
+        {/* The play field keeps screen coordinates in every language */}
         <div 
           ref={gameAreaRef}
-          class="relative h-64 border-2 border-dashed border-indigo-500/50 rounded-lg bg-gray-900/90 overflow-hidden mb-3"
+          dir="ltr"
+          class="relative aspect-[15/8] border-2 border-dashed border-primary-bright/50 rounded-lg bg-well/90 overflow-hidden"
         >
+          {/* Ghost of the best run, while it is still flying */}
+          <Show when={phase() === 'playing' && ghostState()?.status === 'running' ? ghostState() : undefined}>
+            {(ghostRun) => (
+              <div
+                class="absolute rounded-full border-2 border-dashed border-highlight text-highlight opacity-50"
+                style={{
+                  left: toPercentX(config().playerX),
+                  top: toPercentY(ghostRun().playerY - config().playerSize / 2),
+                  width: toPercentX(config().playerSize),
+                  height: toPercentY(config().playerSize)
+                }}
+                aria-hidden="true"
+              >
+                <i class="fas fa-rocket absolute inset-0 flex items-center justify-center"></i>
+              </div>
+            )}
+          </Show>
+          
           {/* Player */}
           <div 
             ref={playerRef}
-            class="absolute w-10 h-10 bg-indigo-500 rounded-full shadow-lg left-10 transition-transform"
-            style={{ top: `calc(${playerPosition().y}% - 20px)` }}
+            class="absolute bg-primary-bright rounded-full shadow-lg"
+            style={{
+              left: toPercentX(config().playerX),
+              top: toPercentY(game().playerY - config().playerSize / 2),
+              width: toPercentX(config().playerSize),
+              height: toPercentY(config().playerSize)
+            }}
           >
-            <i class="fas fa-rocket absolute inset-0 flex items-center justify-center text-white"></i>
+            <i class="fas fa-rocket absolute inset-0 flex items-center justify-center text-on-primary"></i>
           </div>
-          
+        
           {/* Obstacles */}
-          <For each={obstacles()}>
-            {(obstacle) => (
-              <>
-                {/* Top obstacle */}
-                <div 
-                  id={`obs-top-${obstacle.id}`}
-                  class="absolute bg-red-500/90 w-12 rounded-b-md"
-                  style={{ 
-                    left: `${obstacle.x}px`,
-                    top: 0,
-                    height: `${obstacle.height}%`,
-                    "box-shadow": 'inset -2px -2px 4px rgba(0,0,0,0.3)'
-                  }}
-                />
+          <Index each={game().obstacles}>
+            {(obstacle) => {
+              const rects = () => getObstacleRects(obstacle(), config());
+            
+              return (
+                <>
+                  {/* Top obstacle */}
+                  <div 
+                    class="absolute bg-obstacle/90 rounded-b-md"
+                    style={{ 
+                      left: toPercentX(rects()[0].left),
+                      top: 0,
+                      width: toPercentX(config().obstacleWidth),
+                      height: toPercentY(rects()[0].bottom),
+                      "box-shadow": 'inset -2px -2px 4px rgba(0,0,0,0.3)'
+                    }}
+                  />
                 
-                {/* Bottom obstacle */}
-                <div 
-                  id={`obs-bottom-${obstacle.id}`}
-                  class="absolute bg-red-500/90 w-12 rounded-t-md"
-                  style={{ 
-                    left: `${obstacle.x}px`,
-                    bottom: 0,
-                    height: `${100 - obstacle.height - obstacle.gapSize}%`,
-                    "box-shadow": 'inset -2px 2px 4px rgba(0,0,0,0.3)'
-                  }}
+                  {/* Bottom obstacle */}
+                  <div 
+                    class="absolute bg-obstacle/90 rounded-t-md"
+                    style={{ 
+                      left: toPercentX(rects()[1].left),
+                      bottom: 0,
+                      width: toPercentX(config().obstacleWidth),
+                      height: toPercentY(rects()[1].bottom - rects()[1].top),
+                      "box-shadow": 'inset -2px 2px 4px rgba(0,0,0,0.3)'
+                    }}
+                  />
+                </>
+              );
+            }}
+          </Index>
+          
+          <Show when={phase() === 'playing' && dailyDay()}>
+            <span class="absolute top-2 start-2 px-2 py-0.5 rounded-full bg-page/80 text-xs text-highlight font-pixelify">
+              <i class="fas fa-calendar-day me-1"></i> {t().daily.badge}
+            </span>
+          </Show>
+          
+          <Show when={phase() === 'replay'}>
+            <span class="absolute top-2 start-2 px-2 py-0.5 rounded-full bg-page/80 text-xs text-highlight font-pixelify">
+              <i class="fas fa-film me-1"></i> {t().flappy.replay.watching}
+            </span>
+          </Show>
+        </div>
+      
+        {/* Start screen */}
+        <Show when={phase() === 'start'}>
+          <div class="absolute inset-0 flex flex-col items-center justify-center gap-3 p-4 rounded-lg bg-page/80 text-center">
+            <p class="font-pixelify text-2xl text-primary-ink">
+              <i class="fas fa-rocket me-2"></i> {t().games.flappy.title}
+            </p>
+            <div
+              role="group"
+              aria-label={t().flappy.difficulty}
+              class="flex items-center gap-1 rounded-full bg-well/80 p-1 text-sm"
+            >
+              <For each={FLAPPY_DIFFICULTIES}>
+                {(option) => (
+                  <button
+                    class={`px-3 py-1 rounded-full ${difficulty() === option ? 'bg-primary text-on-primary' : 'text-ink-soft hover:text-ink'}`}
+                    aria-pressed={difficulty() === option}
+                    onClick={() => chooseDifficulty(option)}
+                  >
+                    {t().flappy.difficulties[option]}
+                  </button>
+                )}
+              </For>
+            </div>
+            <p class="text-xs text-ink-muted">{t().flappy.difficultyHints[difficulty()]}</p>
+            <button
+              class="px-5 py-2 rounded-lg bg-primary hover:bg-primary-hover text-on-primary font-pixelify text-lg"
+              onClick={() => startRun()}
+            >
+              <i class="fas fa-play me-2"></i> {t().flappy.start}
+            </button>
+            <p class="text-xs text-ink-faint">
+              {t().flappy.pressToStart} · {t().common.best}: <span class="text-highlight font-bold">{best()}</span>
+            </p>
+          </div>
+        </Show>
+      
+        {/* Player pause, resumed with P or a tap */}
+        <Show when={phase() === 'playing' && userPaused() && !props.paused}>
+          <button
+            class="absolute inset-0 flex flex-col items-center justify-center gap-1 rounded-lg bg-page/70"
+            onClick={() => setUserPaused(false)}
+          >
+            <span class="font-pixelify text-2xl text-primary-ink">
+              <i class="fas fa-pause me-2"></i> {t().flappy.paused}
+            </span>
+            <span class="text-xs text-ink-muted">{t().flappy.resumeHint}</span>
+          </button>
+        </Show>
+      
+        {/* Game-over screen */}
+        <Show when={phase() === 'over'}>
+          <div class="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 rounded-lg bg-page/80 text-center" role="status">
+            <p class="font-pixelify text-2xl text-danger">{t().flappy.gameOver}</p>
+            <p class="text-lg text-ink">{t().flappy.finalScore(game().score)}</p>
+            <p class="text-xs text-ink-faint">
+              {t().games.layout} <bdi dir="ltr" class="font-mono">{formatSeed(runSeed)}</bdi>
+            </p>
+            <p class="text-sm text-ink-muted">
+              {t().common.best}: <span class="text-highlight font-bold">{best()}</span>
+              <Show when={newBest()}>
+                <span class="ms-2 px-2 py-0.5 rounded-full bg-highlight/20 text-highlight text-xs font-bold">
+                  <i class="fas fa-star me-1"></i> {t().flappy.newBest}
+                </span>
+              </Show>
+            </p>
+            <div class="flex flex-wrap justify-center gap-2 mt-1">
+              <button
+                class="px-4 py-2 rounded-lg bg-primary hover:bg-primary-hover text-on-primary font-pixelify"
+                onClick={() => startRun()}
+              >
+                <i class="fas fa-redo me-2"></i> {t().flappy.playAgain}
+              </button>
+              <button
+                class="px-4 py-2 rounded-lg border border-primary-bright/50 hover:border-primary-ink text-ink-soft"
+                onClick={showStartScreen}
+              >
+                <i class="fas fa-sliders-h me-2"></i> {t().flappy.changeDifficulty}
+              </button>
+            </div>
+          </div>
+        </Show>
+      </div>
+      
+      {/* Replay playback controls */}
+      <Show when={phase() === 'replay' ? viewer() : undefined}>
+        {(current) => {
+          const seconds = (tick: number) => (tick * current().player.config.stepMs) / 1000;
+          
+          return (
+            <div class="flex flex-wrap items-center gap-2 mb-3 text-sm">
+              <button
+                class="flex items-center justify-center w-9 h-9 rounded-full bg-primary hover:bg-primary-hover text-on-primary"
+                onClick={toggleReplay}
+                aria-label={replayPlaying() ? t().flappy.replay.pause : t().flappy.replay.play}
+              >
+                <i class={`fas ${replayPlaying() ? 'fa-pause' : 'fa-play'}`} aria-hidden="true"></i>
+              </button>
+              <input
+                type="range"
+                dir="ltr"
+                class="flex-1 min-w-32 accent-primary"
+                min={0}
+                max={current().player.length}
+                value={replayTick()}
+                aria-label={t().flappy.replay.scrub}
+                onInput={(e) => {
+                  setReplayPlaying(false);
+                  seekReplay(Number(e.currentTarget.value));
+                }}
+              />
+              <span class="text-xs text-ink-muted tabular-nums">
+                {t().flappy.replay.time(seconds(replayTick()), seconds(current().player.length))}
+              </span>
+              <span
+                class={`px-2 py-0.5 rounded-full text-xs font-bold ${current().verified ? 'bg-highlight/20 text-highlight' : 'bg-danger/20 text-danger'}`}
+              >
+                <i class={`fas ${current().verified ? 'fa-check' : 'fa-triangle-exclamation'} me-1`} aria-hidden="true"></i>
+                {current().verified
+                  ? t().flappy.replay.verified(current().player.replay.score)
+                  : t().flappy.replay.mismatch(current().player.replay.score)}
+              </span>
+              <button
+                class="ms-auto px-3 py-1 rounded-lg border border-primary-bright/50 hover:border-primary-ink text-ink-soft"
+                onClick={closeReplay}
+              >
+                <i class="fas fa-times me-1"></i> {t().flappy.replay.exit}
+              </button>
+            </div>
+          );
+        }}
+      </Show>
+      
+      {/* Today's challenge and past daily results */}
+      <Show when={phase() === 'start' || phase() === 'over'}>
+        <DailyPanel
+          gameId={GAME_ID}
+          title={t().games.flappy.title}
+          emoji="🚀"
+          onPlay={() => startRun(getDailyKey())}
+        />
+      </Show>
+      
+      {/* Replays of the last run, the saved best and pasted codes */}
+      <Show when={phase() === 'start' || phase() === 'over'}>
+        <div class="mb-3 p-3 rounded-lg bg-well/60 text-sm space-y-2">
+          <p class="font-pixelify text-primary-ink">
+            <i class="fas fa-film me-2"></i> {t().flappy.replay.heading}
+          </p>
+          <Show when={bestReplay()}>
+            {(saved) => (
+              <label class="flex items-center gap-2 text-ink-soft">
+                <input
+                  type="checkbox"
+                  class="accent-primary"
+                  checked={raceGhost()}
+                  onChange={(e) => setRaceGhost(e.currentTarget.checked)}
                 />
-              </>
+                {t().flappy.replay.raceGhost(saved().score)}
+              </label>
+            )}
+          </Show>
+          <Show when={phase() === 'over' ? lastReplay() : undefined}>
+            {(replay) => (
+              <div class="flex flex-wrap gap-2">
+                <button
+                  class="px-3 py-1 rounded-lg border border-primary-bright/50 hover:border-primary-ink text-ink-soft"
+                  onClick={() => watchReplay(replay())}
+                >
+                  <i class="fas fa-play me-1"></i> {t().flappy.replay.watchLast}
+                </button>
+                <button
+                  class="px-3 py-1 rounded-lg border border-primary-bright/50 hover:border-primary-ink text-ink-soft"
+                  onClick={copyReplay}
+                >
+                  <i class="fas fa-copy me-1"></i> {copied() ? t().flappy.replay.copied : t().flappy.replay.copyCode}
+                </button>
+              </div>
             )}
-          </For>
+          </Show>
+          <form class="flex gap-2" onSubmit={watchReplayCode}>
+            <input
+              type="text"
+              dir="ltr"
+              class="flex-1 min-w-0 px-2 py-1 rounded bg-page border border-line text-ink font-mono text-xs"
+              value={replayCode()}
+              placeholder={t().flappy.replay.pastePlaceholder}
+              aria-label={t().flappy.replay.pasteLabel}
+              aria-invalid={!!replayError()}
+              onInput={(e) => {
+                setReplayCode(e.currentTarget.value);
+                setReplayError(undefined);
+              }}
+            />
+            <button
+              type="submit"
+              class="px-3 py-1 rounded-lg bg-primary hover:bg-primary-hover text-on-primary disabled:opacity-50"
+              disabled={!replayCode().trim()}
+            >
+              {t().flappy.replay.watch}
+            </button>
+          </form>
+          <Show when={replayError()}>
+            {(error) => <p class="text-xs text-danger" role="alert">{t().flappy.replay[error()]}</p>}
+          </Show>
         </div>
-        
-        <p class="text-gray-300 text-sm mb-2">
-          Use the <span class="text-yellow-400">Up Arrow</span> key or <span class="text-yellow-400">Spacebar</span> to fly up.
-          <span class="text-yellow-400"> Down Arrow</span> to dive down.
-          Press <span class="text-yellow-400">Escape</span> to exit the game.
-        </p>
-        
-        <p class="text-xs text-gray-500 italic">
-          <i class="fas fa-info-circle mr-1"></i> 
-          This secret game was unlocked with the Konami Code: ↑↑↓↓←→←→BA
-        </p>
-      </div>
+      </Show>
+      
+      <p class="text-xs text-ink-muted mb-2">{t().flappy.speedsUp}</p>
+      
+      <ul class="text-ink-soft text-sm mb-2 space-y-1">
+        <For each={controls()}>
+          {(control) => (
+            <li class="flex flex-wrap items-center gap-1">
+              <For each={control.inputs}>
+                {(input) => (
+                  <kbd class="px-1.5 rounded bg-well border border-line text-highlight font-sans">{input}</kbd>
+                )}
+              </For>
+              <span class="ms-1">{control.action}</span>
+            </li>
+          )}
+        </For>
+      </ul>
+      
+      <p class="text-xs text-ink-faint italic">
+        <i class="fas fa-info-circle me-1"></i> {t().flappy.konamiInfo}{' '}
+        <bdi dir="ltr" class="not-italic">↑↑↓↓←→←→BA</bdi> {t().flappy.konamiTouch}
+      </p>
     </div>
   );
 };
@@ -0,0 +1,245 @@
+import { createEffect, createSignal, onMount, onCleanup, Show, Suspense } from 'solid-js';
+import { Dynamic } from 'solid-js/web';
+import { Leaderboard } from '../Leaderboard';
+import { animation, audio, eventBus, isEditableTarget, motionPreference, router, scoreStorage } from '../../utils';
+import { t } from '../../i18n';
+import { GameDescriptor, getShareToken, ScoreBoard } from './registry';
+
+// Props interface
+export interface GameShellProps {
+  game: GameDescriptor;
+  /** Seed pinning the game's layout, e.g. from a link */
+  seed?: number;
+  onClose: () => void;
+}
+
+/**
+ * Shared modal shell that hosts any registered mini-game
+ * Provides the title, score, pause, leaderboard and close chrome.
+ */
+export function GameShell(props: GameShellProps) {
+  // Refs
+  let shellRef: HTMLDivElement | undefined;
+  let panelRef: HTMLDivElement | undefined;
+
+  // State
+  const [score, setScore] = createSignal(0);
+  const [board, setBoard] = createSignal<ScoreBoard>({ id: props.game.id });
+  const [best, setBest] = createSignal(scoreStorage.getBest(props.game.id));
+  // Final score of the last finished run, until it is saved or another run starts
+  const [lastScore, setLastScore] = createSignal<number | undefined>(undefined);
+  const [userPaused, setUserPaused] = createSignal(false);
+  const [showLeaderboard, setShowLeaderboard] = createSignal(false);
+  const [closing, setClosing] = createSignal(false);
+  const [copied, setCopied] = createSignal(false);
+
+  // The game holds still while paused or covered by the leaderboard
+  const paused = () => userPaused() || showLeaderboard() || closing();
+
+  const boardTitle = () => {
+    const { label } = board();
+    return label ? `${props.game.title()} · ${label}` : props.game.title();
+  };
+
+  /**
+   * Close the shell with an exit animation
+   */
+  const closeShell = () => {
+    if (closing()) return;
+    setClosing(true);
+
+    if (!shellRef) {
+      props.onClose();
+      return;
+    }
+
+    // Animate out (calm mode only fades)
+    animation.to(shellRef, {
+      y: motionPreference.isReduced() ? 0 : 100,
+      opacity: 0,
+      duration: 0.5,
+      ease: 'power2.in',
+      onComplete: props.onClose
+    });
+  };
+
+  /**
+   * Track and announce the running score
+   */
+  const handleScoreChange = (value: number) => {
+    setScore(value);
+    eventBus.emit('scoreChanged', { gameId: props.game.id, score: value });
+  };
+
+  /**
+   * Forget the previous run's score once another one starts
+   */
+  const handleRunStart = () => setLastScore(undefined);
+
+  /**
+   * Show and announce the final score of a run
+   */
+  const handleGameOver = (value: number) => {
+    setLastScore(value);
+    eventBus.emit('gameOver', { gameId: props.game.id, score: value });
+  };
+
+  /**
+   * Copy a link that opens this game, unlocking it for whoever follows it
+   * and keeping a pinned layout
+   */
+  const copyLink = async () => {
+    const url = router.getUrl({ name: 'game', gameId: props.game.id, token: getShareToken(props.game), seed: props.seed });
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Failed to copy game link', e);
+    }
+  };
+
+  /**
+   * Handle shell-wide keyboard shortcuts
+   */
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // The leaderboard handles its own Escape key, and text fields keep theirs
+    if (e.key === 'Escape' && !showLeaderboard() && !isEditableTarget(e.target)) {
+      closeShell();
+      e.preventDefault();
+    }
+  };
+
+  // Background music plays while the game does
+  createEffect(() => {
+    if (paused()) {
+      audio.stopMusic();
+    } else {
+      audio.startMusic();
+    }
+  });
+  onCleanup(() => audio.stopMusic());
+
+  // Follow whichever board the game is playing for; a run on another board cannot be saved to it
+  createEffect(() => {
+    setBest(scoreStorage.getBest(board().id));
+    setLastScore(undefined);
+  });
+
+  onMount(() => {
+    const gameId = props.game.id;
+    eventBus.emit('gameOpened', { gameId });
+    onCleanup(() => eventBus.emit('gameClosed', { gameId }));
+
+    // Keep the best score in sync with saved scores
+    onCleanup(scoreStorage.subscribe(() => setBest(scoreStorage.getBest(board().id))));
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    if (panelRef) {
+      animation.fromTo(panelRef,
+        { y: motionPreference.isReduced() ? 0 : 50, opacity: 0 },
+        { y: 0, opacity: 1, duration: 0.4, ease: 'power2.out' }
+      );
+    }
+  });
+
+  onCleanup(() => {
+    document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div
+      ref={shellRef}
+      class="fixed inset-0 flex items-center justify-center bg-black/70 z-50 p-4"
+    >
+      <div ref={panelRef} class="bg-page text-ink p-5 rounded-xl max-w-xl w-full relative">
+        <div class="flex justify-between items-center mb-4 gap-3">
+          <h3 class="text-2xl font-pixelify text-primary-ink">
+            <i class={`fas ${props.game.icon} me-2`}></i> {props.game.title()}
+          </h3>
+          <div class="text-lg">
+            {t().common.score}: <span class="text-highlight font-bold">{score()}</span>
+            <span class="text-sm text-ink-muted ms-2">{t().common.best}: {best()}</span>
+          </div>
+          <div class="flex items-center gap-3">
+            <button
+              class="text-ink-muted hover:text-ink"
+              onClick={() => setUserPaused(p => !p)}
+              aria-label={userPaused() ? t().shell.resume : t().shell.pause}
+            >
+              <i class={`fas ${userPaused() ? 'fa-play' : 'fa-pause'}`}></i>
+            </button>
+            <button
+              class={copied() ? 'text-success' : 'text-ink-muted hover:text-ink'}
+              onClick={copyLink}
+              aria-label={copied() ? t().shell.copied : t().shell.share}
+              title={copied() ? t().shell.copied : t().shell.share}
+            >
+              <i class={`fas ${copied() ? 'fa-check' : 'fa-link'}`}></i>
+            </button>
+            <button
+              class="text-ink-muted hover:text-highlight"
+              onClick={() => setShowLeaderboard(true)}
+              aria-label={t().shell.leaderboard}
+            >
+              <i class="fas fa-trophy"></i>
+            </button>
+            <button
+              class="text-ink-muted hover:text-ink"
+              onClick={closeShell}
+              aria-label={t().shell.close}
+            >
+              <i class="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        <div class="relative">
+          <Suspense
+            fallback={
+              <p class="py-16 text-center text-primary-soft font-pixelify">
+                <i class="fas fa-spinner fa-spin me-2"></i> {t().common.loading}
+              </p>
+            }
+          >
+            <Dynamic
+              component={props.game.component}
+              inShell
+              seed={props.seed}
+              paused={paused()}
+              onRunStart={handleRunStart}
+              onScoreChange={handleScoreChange}
+              onGameOver={handleGameOver}
+              onExit={closeShell}
+              onBoardChange={setBoard}
+            />
+          </Suspense>
+
+          {/* Pause overlay */}
+          <Show when={userPaused()}>
+            <button
+              class="absolute inset-0 flex items-center justify-center bg-well/70 rounded-lg text-3xl font-pixelify text-highlight"
+              onClick={() => setUserPaused(false)}
+            >
+              <i class="fas fa-pause me-3"></i> {t().shell.paused}
+            </button>
+          </Show>
+        </div>
+      </div>
+
+      {/* Leaderboard */}
+      <Show when={showLeaderboard()}>
+        <Leaderboard
+          gameId={board().id}
+          title={t().shell.leaderboardTitle(boardTitle())}
+          pendingScore={lastScore()}
+          onSave={() => setLastScore(undefined)}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      </Show>
+    </div>
+  );
+}
+
+export default GameShell;
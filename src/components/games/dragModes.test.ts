@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advanceRound,
+  COMBO_WINDOW,
+  createRound,
+  DRAG_MODE_RULES,
+  DragRound,
+  findTouchedTarget,
+  HAZARD_PENALTY,
+  MAX_COMBO_MULTIPLIER,
+  startRound,
+  timeLeft,
+  touchTarget
+} from './dragModes';
+
+const random = () => 0.5;
+
+/**
+ * Hit the first target of a round
+ */
+function hitFirstTarget(round: DragRound): DragRound {
+  const target = round.targets.find(item => item.kind === 'target')!;
+  return touchTarget(round, target.id, random)!.round;
+}
+
+describe('createRound', () => {
+  it('starts endless modes right away and waits for timed ones', () => {
+    expect(createRound('classic', random).status).toBe('running');
+    expect(createRound('timeAttack', random).status).toBe('ready');
+    expect(startRound(createRound('timeAttack', random)).status).toBe('running');
+  });
+
+  it('places the targets and hazards of the mode', () => {
+    const round = createRound('swarm', random);
+
+    expect(round.targets.filter(target => target.kind === 'target')).toHaveLength(DRAG_MODE_RULES.swarm.targets);
+    expect(round.targets.filter(target => target.kind === 'hazard')).toHaveLength(DRAG_MODE_RULES.swarm.hazards);
+  });
+});
+
+describe('advanceRound', () => {
+  it('ends a timed round when the clock runs out', () => {
+    const round = startRound(createRound('timeAttack', random));
+
+    expect(timeLeft(advanceRound(round, 30))).toBe(30);
+    expect(advanceRound(round, 61).status).toBe('over');
+    expect(timeLeft(advanceRound(round, 61))).toBe(0);
+  });
+
+  it('never ends classic rounds', () => {
+    const round = advanceRound(createRound('classic', random), 3600);
+
+    expect(round.status).toBe('running');
+    expect(timeLeft(round)).toBeUndefined();
+  });
+
+  it('does nothing to a round that has not started', () => {
+    const round = createRound('drift', random);
+
+    expect(advanceRound(round, 1)).toBe(round);
+  });
+
+  it('keeps drifting targets inside the field', () => {
+    let round = startRound(createRound('drift', random));
+    for (let i = 0; i < 100; i++) round = advanceRound(round, 0.1);
+
+    round.targets.forEach(target => {
+      expect(target.x).toBeGreaterThanOrEqual(0);
+      expect(target.x).toBeLessThanOrEqual(1);
+      expect(target.y).toBeGreaterThanOrEqual(0);
+      expect(target.y).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('drops the combo after a slow hit', () => {
+    const round = hitFirstTarget(startRound(createRound('timeAttack', random)));
+
+    expect(advanceRound(round, COMBO_WINDOW / 2).combo).toBe(1);
+    expect(advanceRound(round, COMBO_WINDOW + 0.1).combo).toBe(0);
+  });
+});
+
+describe('touchTarget', () => {
+  it('scores one point per hit in classic mode and replaces the target', () => {
+    const round = hitFirstTarget(createRound('classic', random));
+
+    expect(round.score).toBe(1);
+    expect(round.hits).toBe(1);
+    expect(round.targets).toHaveLength(1);
+  });
+
+  it('multiplies quick hits up to the combo cap', () => {
+    let round = startRound(createRound('timeAttack', random));
+    const points: number[] = [];
+    for (let i = 0; i < MAX_COMBO_MULTIPLIER + 2; i++) {
+      const before = round.score;
+      round = hitFirstTarget(advanceRound(round, 0.5));
+      points.push(round.score - before);
+    }
+
+    expect(points).toEqual([1, 2, 3, 4, 4, 4]);
+    expect(round.bestCombo).toBe(MAX_COMBO_MULTIPLIER + 2);
+  });
+
+  it('costs points for a hazard without going below zero', () => {
+    const round = { ...startRound(createRound('swarm', random)), score: 2 };
+    const hazard = round.targets.find(target => target.kind === 'hazard')!;
+    const hit = touchTarget(round, hazard.id, random)!;
+
+    expect(hit.kind).toBe('hazard');
+    expect(hit.points).toBe(-Math.min(HAZARD_PENALTY, 2));
+    expect(hit.round.score).toBe(0);
+    expect(hit.round.hazardHits).toBe(1);
+  });
+
+  it('calls a bigger wave once every target of a swarm wave is hit', () => {
+    let round = startRound(createRound('swarm', random));
+    for (let i = 0; i < DRAG_MODE_RULES.swarm.targets; i++) round = hitFirstTarget(round);
+
+    expect(round.wave).toBe(2);
+    expect(round.targets.filter(target => target.kind === 'target')).toHaveLength(DRAG_MODE_RULES.swarm.targets + 1);
+  });
+
+  it('ignores touches once the round is over', () => {
+    const round = advanceRound(startRound(createRound('timeAttack', random)), 61);
+
+    expect(touchTarget(round, round.targets[0].id, random)).toBeUndefined();
+  });
+});
+
+describe('findTouchedTarget', () => {
+  it('finds the target within reach of the circle', () => {
+    const round = createRound('classic', random);
+    const [target] = round.targets;
+    const area = { width: 400, height: 300 };
+    const center = { x: target.x * area.width, y: target.y * area.height };
+
+    expect(findTouchedTarget(round, center, area, 20)).toEqual(target);
+    expect(findTouchedTarget(round, { x: center.x + 30, y: center.y }, area, 20)).toBeUndefined();
+  });
+});
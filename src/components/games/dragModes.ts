@@ -0,0 +1,278 @@
+/**
+ * Rules for the Drag mini-game modes
+ *
+ * Rounds are plain data advanced by pure functions, like the Flappy simulation,
+ * so the component only renders them and reports where the circle is.
+ * Target positions are fractions of the game area, measured to their centers.
+ */
+
+/**
+ * Modes players can choose from
+ */
+export type DragModeId = 'classic' | 'timeAttack' | 'drift' | 'swarm';
+
+export const DRAG_MODES: readonly DragModeId[] = ['classic', 'timeAttack', 'drift', 'swarm'];
+
+/**
+ * What makes a mode different
+ */
+export interface DragModeRules {
+  /** Round length in seconds; endless when undefined */
+  duration?: number;
+  /** Targets on the field at once (in swarm mode, in the first wave) */
+  targets: number;
+  /** Red targets that cost points when touched */
+  hazards: number;
+  /** Speed targets drift at, in area fractions per second (0 keeps them still) */
+  drift: number;
+  /** Whether quick consecutive hits multiply points */
+  combo: boolean;
+  /** Whether targets come in waves that grow once cleared */
+  waves: boolean;
+}
+
+export const DRAG_MODE_RULES: Record<DragModeId, DragModeRules> = {
+  classic: { targets: 1, hazards: 0, drift: 0, combo: false, waves: false },
+  timeAttack: { duration: 60, targets: 1, hazards: 0, drift: 0, combo: true, waves: false },
+  drift: { duration: 60, targets: 2, hazards: 0, drift: 0.15, combo: true, waves: false },
+  swarm: { duration: 60, targets: 3, hazards: 2, drift: 0, combo: false, waves: true }
+};
+
+// Seconds between hits that keep a combo going
+export const COMBO_WINDOW = 2;
+// Highest combo multiplier
+export const MAX_COMBO_MULTIPLIER = 4;
+// Points lost when touching a hazard
+export const HAZARD_PENALTY = 3;
+// Extra targets and hazards a wave can add over the first one
+const MAX_WAVE_GROWTH = 4;
+
+// Targets stay this far from the edges so they are fully visible
+const EDGE_MARGIN_X = 0.1;
+const EDGE_MARGIN_Y = 0.15;
+
+/**
+ * A target or hazard on the field
+ */
+export interface DragTarget {
+  id: number;
+  kind: 'target' | 'hazard';
+  /** Center position as a fraction of the game area */
+  x: number;
+  y: number;
+  /** Drift velocity in area fractions per second */
+  vx: number;
+  vy: number;
+}
+
+export type DragRoundStatus = 'ready' | 'running' | 'over';
+
+/**
+ * Complete state of one round
+ */
+export interface DragRound {
+  mode: DragModeId;
+  status: DragRoundStatus;
+  /** Seconds played so far */
+  elapsed: number;
+  score: number;
+  hits: number;
+  hazardHits: number;
+  /** Consecutive quick hits, 0 when no combo is running */
+  combo: number;
+  bestCombo: number;
+  /** Round time of the last hit, if any */
+  lastHitAt?: number;
+  /** Current wave, starting at 1 */
+  wave: number;
+  targets: DragTarget[];
+  nextId: number;
+}
+
+/**
+ * Outcome of touching a target or hazard
+ */
+export interface DragHit {
+  round: DragRound;
+  /** Points gained (negative for hazards) */
+  points: number;
+  kind: DragTarget['kind'];
+}
+
+/**
+ * Source of random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Place a new target at a random spot, drifting in a random direction
+ */
+function spawnTarget(id: number, kind: DragTarget['kind'], rules: DragModeRules, random: RandomSource): DragTarget {
+  const angle = random() * Math.PI * 2;
+  return {
+    id,
+    kind,
+    x: EDGE_MARGIN_X + random() * (1 - EDGE_MARGIN_X * 2),
+    y: EDGE_MARGIN_Y + random() * (1 - EDGE_MARGIN_Y * 2),
+    vx: Math.cos(angle) * rules.drift,
+    vy: Math.sin(angle) * rules.drift
+  };
+}
+
+/**
+ * Fill the field for a wave
+ */
+function spawnWave(round: DragRound, rules: DragModeRules, random: RandomSource): DragRound {
+  const extra = rules.waves ? Math.min(round.wave - 1, MAX_WAVE_GROWTH) : 0;
+  let nextId = round.nextId;
+  const targets = [
+    ...Array.from({ length: rules.targets + extra }, () => spawnTarget(nextId++, 'target', rules, random)),
+    ...Array.from({ length: rules.hazards + extra }, () => spawnTarget(nextId++, 'hazard', rules, random))
+  ];
+  return { ...round, targets, nextId };
+}
+
+/**
+ * Build a round for a mode, ready to start
+ * Endless modes start running straight away.
+ */
+export function createRound(mode: DragModeId, random: RandomSource = Math.random): DragRound {
+  const rules = DRAG_MODE_RULES[mode];
+  return spawnWave({
+    mode,
+    status: rules.duration === undefined ? 'running' : 'ready',
+    elapsed: 0,
+    score: 0,
+    hits: 0,
+    hazardHits: 0,
+    combo: 0,
+    bestCombo: 0,
+    wave: 1,
+    targets: [],
+    nextId: 1
+  }, rules, random);
+}
+
+/**
+ * Start a round that is ready
+ */
+export function startRound(round: DragRound): DragRound {
+  return round.status === 'ready' ? { ...round, status: 'running' } : round;
+}
+
+/**
+ * Seconds left in a timed round, or undefined for endless modes
+ */
+export function timeLeft(round: DragRound): number | undefined {
+  const { duration } = DRAG_MODE_RULES[round.mode];
+  return duration === undefined ? undefined : Math.max(0, duration - round.elapsed);
+}
+
+/**
+ * Bounce a drifting coordinate between the edge margins
+ */
+function bounce(position: number, velocity: number, margin: number): [number, number] {
+  if (position < margin) return [margin * 2 - position, Math.abs(velocity)];
+  if (position > 1 - margin) return [(1 - margin) * 2 - position, -Math.abs(velocity)];
+  return [position, velocity];
+}
+
+/**
+ * Advance a running round by elapsed time
+ * Moves drifting targets, drops a combo that took too long and ends timed rounds.
+ * @param dt - Elapsed seconds
+ */
+export function advanceRound(round: DragRound, dt: number): DragRound {
+  if (round.status !== 'running' || dt <= 0) return round;
+
+  const rules = DRAG_MODE_RULES[round.mode];
+  const elapsed = rules.duration === undefined ? round.elapsed + dt : Math.min(rules.duration, round.elapsed + dt);
+
+  const targets = rules.drift === 0 ? round.targets : round.targets.map(target => {
+    const [x, vx] = bounce(target.x + target.vx * dt, target.vx, EDGE_MARGIN_X);
+    const [y, vy] = bounce(target.y + target.vy * dt, target.vy, EDGE_MARGIN_Y);
+    return { ...target, x, y, vx, vy };
+  });
+
+  const comboExpired = round.lastHitAt !== undefined && elapsed - round.lastHitAt > COMBO_WINDOW;
+
+  return {
+    ...round,
+    elapsed,
+    targets,
+    combo: comboExpired ? 0 : round.combo,
+    status: rules.duration !== undefined && elapsed >= rules.duration ? 'over' : 'running'
+  };
+}
+
+/**
+ * Find the target or hazard the circle touches
+ * @param point - Circle center in pixels from the top left of the game area
+ * @param area - Game area size in pixels
+ * @param reach - Distance in pixels at which the circle touches a target center
+ */
+export function findTouchedTarget(
+  round: DragRound,
+  point: { x: number; y: number },
+  area: { width: number; height: number },
+  reach: number
+): DragTarget | undefined {
+  if (round.status !== 'running') return undefined;
+
+  return round.targets.find(target =>
+    Math.hypot(target.x * area.width - point.x, target.y * area.height - point.y) < reach
+  );
+}
+
+/**
+ * Touch a target or hazard
+ * Targets score (with the combo multiplier) and are replaced, or in swarm mode
+ * removed until the wave is cleared. Hazards cost points, break the combo and move away.
+ */
+export function touchTarget(round: DragRound, id: number, random: RandomSource = Math.random): DragHit | undefined {
+  const touched = round.targets.find(target => target.id === id);
+  if (!touched || round.status !== 'running') return undefined;
+
+  const rules = DRAG_MODE_RULES[round.mode];
+  const others = round.targets.filter(target => target.id !== id);
+
+  if (touched.kind === 'hazard') {
+    const points = -Math.min(HAZARD_PENALTY, round.score);
+    return {
+      kind: 'hazard',
+      points,
+      round: {
+        ...round,
+        score: round.score + points,
+        hazardHits: round.hazardHits + 1,
+        combo: 0,
+        lastHitAt: undefined,
+        targets: [...others, spawnTarget(round.nextId, 'hazard', rules, random)],
+        nextId: round.nextId + 1
+      }
+    };
+  }
+
+  const quick = round.lastHitAt !== undefined && round.elapsed - round.lastHitAt <= COMBO_WINDOW;
+  const combo = rules.combo ? (quick ? round.combo + 1 : 1) : 0;
+  const points = rules.combo ? Math.min(MAX_COMBO_MULTIPLIER, combo) : 1;
+
+  let next: DragRound = {
+    ...round,
+    score: round.score + points,
+    hits: round.hits + 1,
+    combo,
+    bestCombo: Math.max(round.bestCombo, combo),
+    lastHitAt: round.elapsed,
+    targets: others,
+    nextId: round.nextId
+  };
+
+  if (!rules.waves) {
+    next = { ...next, targets: [...others, spawnTarget(next.nextId, 'target', rules, random)], nextId: next.nextId + 1 };
+  } else if (!others.some(target => target.kind === 'target')) {
+    next = spawnWave({ ...next, wave: next.wave + 1 }, rules, random);
+  }
+
+  return { kind: 'target', points, round: next };
+}
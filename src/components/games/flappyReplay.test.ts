@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createStream } from '../../utils';
+import { decodeReplay, encodeReplay, FlappyReplay, FlappyReplayPlayer, isOutdatedReplayCode } from './flappyReplay';
+import { createFlappyConfig, FlappyInput, FlappySimulation } from './flappySimulation';
+
+/**
+ * Play a run that flaps at a steady beat until it crashes, and record it
+ */
+function recordRun(seed: number): FlappyReplay {
+  const simulation = new FlappySimulation(createFlappyConfig('normal'), createStream(seed, 'obstacles'));
+  while (simulation.state.status === 'running' && simulation.state.tick < 5000) {
+    if (simulation.state.tick % 18 === 0) simulation.queue('flap');
+    simulation.advance(simulation.config.stepMs);
+  }
+
+  return {
+    difficulty: 'normal',
+    seed,
+    inputs: [...simulation.inputs],
+    score: simulation.state.score,
+    ticks: simulation.state.tick
+  };
+}
+
+describe('encodeReplay / decodeReplay', () => {
+  it('round-trips a replay', () => {
+    const inputs: FlappyInput[] = [
+      { tick: 0, action: 'flap' },
+      { tick: 40, action: 'dive' },
+      { tick: 40, action: 'flap' },
+      { tick: 1234, action: 'flap' }
+    ];
+    const replay: FlappyReplay = { difficulty: 'hard', seed: 4294967295, inputs, score: 37, ticks: 2000 };
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('round-trips a run without inputs', () => {
+    const replay: FlappyReplay = { difficulty: 'easy', seed: 7, inputs: [], score: 0, ticks: 90 };
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('rejects malformed codes', () => {
+    expect(() => decodeReplay('hello')).toThrow();
+    expect(() => decodeReplay('flappy2:insane:1:0:1:')).toThrow(/difficulty/);
+    expect(() => decodeReplay('flappy2:normal:1:0:1:x!')).toThrow(/input/);
+  });
+
+  it('rejects codes from before the seeded pipe layout', () => {
+    const code = encodeReplay(recordRun(1)).replace(/^flappy2/, 'flappy1');
+
+    expect(isOutdatedReplayCode(code)).toBe(true);
+    expect(() => decodeReplay(code)).toThrow(/older version/);
+  });
+});
+
+describe('FlappyReplayPlayer', () => {
+  it('verifies a recorded run after a round trip through its code', () => {
+    const replay = decodeReplay(encodeReplay(recordRun(42)));
+
+    expect(new FlappyReplayPlayer(replay).verify()).toBe(true);
+  });
+
+  it('rejects a run that claims another score', () => {
+    const replay = recordRun(42);
+
+    expect(new FlappyReplayPlayer({ ...replay, score: replay.score + 1 }).verify()).toBe(false);
+  });
+
+  it('reaches the same state seeking backwards as forwards', () => {
+    const player = new FlappyReplayPlayer(recordRun(42));
+    const middle = Math.floor(player.length / 2);
+    const forwards = player.seek(middle);
+
+    player.seek(player.length);
+
+    expect(player.seek(middle)).toEqual(forwards);
+  });
+});
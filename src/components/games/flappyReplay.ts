@@ -0,0 +1,180 @@
+/**
+ * Replays for the Flappy mini-game
+ *
+ * A run is fully described by its difficulty, the seed of its random source and
+ * the actions applied on each step, so it can be re-simulated exactly to watch
+ * or check it. Replays travel as short text codes that can be pasted anywhere.
+ */
+import { createStream } from '../../utils';
+import {
+  createFlappyConfig,
+  createInitialState,
+  FLAPPY_DIFFICULTIES,
+  FlappyAction,
+  FlappyConfig,
+  FlappyDifficulty,
+  FlappyInput,
+  FlappyState,
+  step
+} from './flappySimulation';
+
+// Prefix and version of replay codes
+// Bumped whenever the same seed and inputs would play out differently
+const CODE_PREFIX = 'flappy2';
+
+// Versions that still read but no longer replay the same pipes
+const OUTDATED_PREFIXES = ['flappy1'];
+
+/**
+ * A recorded run
+ */
+export interface FlappyReplay {
+  difficulty: FlappyDifficulty;
+  seed: number;
+  inputs: FlappyInput[];
+  /** Score the run ended with, as claimed by whoever recorded it */
+  score: number;
+  /** Step the run ended on */
+  ticks: number;
+}
+
+/**
+ * Turn a replay into a compact text code
+ * Inputs are stored as base 36 step deltas, with dives marked by a leading `-`.
+ */
+export function encodeReplay(replay: FlappyReplay): string {
+  let previous = 0;
+  const inputs = replay.inputs.map(({ tick, action }) => {
+    const delta = (tick - previous).toString(36);
+    previous = tick;
+    return action === 'dive' ? `-${delta}` : delta;
+  });
+
+  return [
+    CODE_PREFIX,
+    replay.difficulty,
+    replay.seed.toString(36),
+    replay.score.toString(36),
+    replay.ticks.toString(36),
+    inputs.join('.')
+  ].join(':');
+}
+
+/**
+ * Check whether a code was recorded by an older version of the game
+ * Such runs were played on different pipes, so they can no longer be watched.
+ */
+export function isOutdatedReplayCode(code: string): boolean {
+  return OUTDATED_PREFIXES.includes(code.trim().split(':')[0]);
+}
+
+/**
+ * Read a replay code
+ * @throws Error if the code is malformed or outdated
+ */
+export function decodeReplay(code: string): FlappyReplay {
+  if (isOutdatedReplayCode(code)) {
+    throw new Error('Replay code is from an older version of the game');
+  }
+
+  const parts = code.trim().split(':');
+  if (parts.length !== 6 || parts[0] !== CODE_PREFIX) {
+    throw new Error('Not a Flappy replay code');
+  }
+
+  const [, difficulty, seed, score, ticks, inputs] = parts;
+  if (!FLAPPY_DIFFICULTIES.includes(difficulty as FlappyDifficulty)) {
+    throw new Error(`Unknown difficulty "${difficulty}"`);
+  }
+
+  const readNumber = (value: string, name: string) => {
+    if (!/^[0-9a-z]+$/.test(value)) throw new Error(`Invalid ${name} in replay code`);
+    return parseInt(value, 36);
+  };
+
+  let tick = 0;
+  const parsedInputs = inputs === '' ? [] : inputs.split('.').map(token => {
+    const action: FlappyAction = token.startsWith('-') ? 'dive' : 'flap';
+    tick += readNumber(action === 'dive' ? token.slice(1) : token, 'input');
+    return { tick, action };
+  });
+
+  return {
+    difficulty: difficulty as FlappyDifficulty,
+    seed: readNumber(seed, 'seed') >>> 0,
+    score: readNumber(score, 'score'),
+    ticks: readNumber(ticks, 'length'),
+    inputs: parsedInputs
+  };
+}
+
+/**
+ * Steps through a replay, for watching and scrubbing
+ * Seeking backwards re-simulates from the start, which takes well under a frame
+ * even for long runs.
+ */
+export class FlappyReplayPlayer {
+  readonly config: FlappyConfig;
+  private random!: () => number;
+  private current!: FlappyState;
+  private nextInput = 0;
+
+  /**
+   * Constructor for FlappyReplayPlayer
+   * @param replay - Run to play back
+   */
+  constructor(readonly replay: FlappyReplay) {
+    this.config = createFlappyConfig(replay.difficulty);
+    this.rewind();
+  }
+
+  /**
+   * State at the current step
+   */
+  get state(): FlappyState {
+    return this.current;
+  }
+
+  /**
+   * Number of steps in the run
+   */
+  get length(): number {
+    return this.replay.ticks;
+  }
+
+  /**
+   * Get the state at a step, clamped to the run
+   */
+  seek(tick: number): FlappyState {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.length));
+    if (target < this.current.tick) this.rewind();
+
+    while (this.current.tick < target && this.current.status === 'running') {
+      const actions: FlappyAction[] = [];
+      const inputs = this.replay.inputs;
+      while (this.nextInput < inputs.length && inputs[this.nextInput].tick === this.current.tick) {
+        actions.push(inputs[this.nextInput++].action);
+      }
+      this.current = step(this.current, actions, this.config, this.random);
+    }
+
+    return this.current;
+  }
+
+  /**
+   * Check that the run really ends with the score and length it claims
+   */
+  verify(): boolean {
+    const end = this.seek(this.length);
+    return end.status === 'crashed' && end.tick === this.length && end.score === this.replay.score;
+  }
+
+  /**
+   * Go back to the first step
+   */
+  private rewind(): void {
+    this.random = createStream(this.replay.seed, 'obstacles');
+    this.current = createInitialState(this.config, this.random);
+    this.nextInput = 0;
+  }
+}
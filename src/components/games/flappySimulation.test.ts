@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFlappyConfig,
+  createInitialState,
+  DEFAULT_FLAPPY_CONFIG,
+  FlappySimulation,
+  FlappyState,
+  step
+} from './flappySimulation';
+
+const config = DEFAULT_FLAPPY_CONFIG;
+const dt = config.stepMs / 1000;
+
+// Obstacles far off to the right, so the player is free to move
+function openState(overrides: Partial<FlappyState> = {}): FlappyState {
+  return {
+    status: 'running',
+    tick: 0,
+    score: 0,
+    playerY: config.height / 2,
+    obstacles: [{ id: 1, x: 1000, gapTop: 60, gapSize: 80 }],
+    nextObstacleId: 2,
+    ...overrides
+  };
+}
+
+describe('step', () => {
+  it('applies gravity and scrolls obstacles by one fixed step', () => {
+    const next = step(openState(), [], config);
+
+    expect(next.tick).toBe(1);
+    expect(next.playerY).toBeCloseTo(config.height / 2 + config.gravity * dt);
+    expect(next.obstacles[0].x).toBeCloseTo(1000 - config.obstacleSpeed * dt);
+  });
+
+  it('moves the player up on a flap and down on a dive', () => {
+    const start = openState();
+
+    expect(step(start, ['flap'], config).playerY).toBeCloseTo(start.playerY - config.flapDistance + config.gravity * dt);
+    expect(step(start, ['dive'], config).playerY).toBeCloseTo(start.playerY + config.diveDistance + config.gravity * dt);
+  });
+
+  it('keeps the player between the ceiling and the floor', () => {
+    expect(step(openState({ playerY: 1 }), ['flap', 'flap'], config).playerY).toBeGreaterThanOrEqual(0);
+    expect(step(openState({ playerY: config.floorY }), ['dive'], config).playerY).toBe(config.floorY);
+  });
+
+  it('scores and respawns an obstacle that left the screen', () => {
+    const start = openState({
+      obstacles: [
+        { id: 1, x: -49, gapTop: 60, gapSize: 80 },
+        { id: 2, x: 400, gapTop: 60, gapSize: 80 }
+      ],
+      nextObstacleId: 3
+    });
+    const next = step(start, [], config, () => 0.5);
+
+    expect(next.score).toBe(1);
+    expect(next.nextObstacleId).toBe(4);
+    expect(next.obstacles.map(obstacle => obstacle.id)).toEqual([3, 2]);
+    expect(next.obstacles[0].x).toBeCloseTo(400 - config.obstacleSpeed * dt + config.obstacleSpacing);
+  });
+
+  it('crashes when the player touches a pipe', () => {
+    const start = openState({
+      playerY: 20,
+      obstacles: [{ id: 1, x: config.playerX, gapTop: 100, gapSize: 80 }]
+    });
+
+    expect(step(start, [], config).status).toBe('crashed');
+  });
+
+  it('leaves a crashed run untouched', () => {
+    const crashed = openState({ status: 'crashed' });
+
+    expect(step(crashed, ['flap'], config)).toBe(crashed);
+  });
+
+  it('plays out the same from the same random source', () => {
+    const run = () => {
+      let seed = 1;
+      const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      let state = createInitialState(config, random);
+      for (let i = 0; i < 300; i++) state = step(state, i % 20 === 0 ? ['flap'] : [], config, random);
+      return state;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('createFlappyConfig', () => {
+  it('keeps the defaults for normal and changes them for the other presets', () => {
+    expect(createFlappyConfig('normal')).toEqual(DEFAULT_FLAPPY_CONFIG);
+    expect(createFlappyConfig('easy').gapSize).toBeGreaterThan(config.gapSize);
+    expect(createFlappyConfig('hard').obstacleSpeed).toBeGreaterThan(config.obstacleSpeed);
+  });
+});
+
+describe('FlappySimulation', () => {
+  it('runs one step per elapsed step length, whatever the frame rate', () => {
+    const slow = new FlappySimulation(config, () => 0.5);
+    const fast = new FlappySimulation(config, () => 0.5);
+
+    slow.advance(110);
+    for (let i = 0; i < 11; i++) fast.advance(10);
+
+    expect(slow.state.tick).toBe(6);
+    expect(fast.state.tick).toBe(6);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Headless simulation core for the Flappy mini-game
+ *
+ * Holds the game rules as plain data and pure functions so they run the same
+ * on any display refresh rate and can be exercised without a browser.
+ * All positions are expressed in world units; the component scales them to
+ * the game area when rendering.
+ */
+
+/**
+ * Tunable rules for a simulation run
+ */
+export interface FlappyConfig {
+  /** World width in units */
+  width: number;
+  /** World height in units */
+  height: number;
+  /** Length of one fixed simulation step in milliseconds */
+  stepMs: number;
+  /** Constant fall speed in units per second */
+  gravity: number;
+  /** Distance the player rises on a flap */
+  flapDistance: number;
+  /** Distance the player drops on a dive */
+  diveDistance: number;
+  /** Obstacle scroll speed in units per second at the start of a run */
+  obstacleSpeed: number;
+  /** Scroll speed added for every point scored */
+  speedPerPoint: number;
+  /** Highest scroll speed the curve reaches */
+  maxObstacleSpeed: number;
+  /** Obstacle column width */
+  obstacleWidth: number;
+  /** Vertical gap between top and bottom pipes at the start of a run */
+  gapSize: number;
+  /** Gap removed for every point scored */
+  gapShrinkPerPoint: number;
+  /** Smallest gap the curve reaches */
+  minGapSize: number;
+  /** Smallest allowed top pipe height */
+  minGapTop: number;
+  /** Largest allowed top pipe height */
+  maxGapTop: number;
+  /** Horizontal distance between respawned obstacles */
+  obstacleSpacing: number;
+  /** Player horizontal position (left edge) */
+  playerX: number;
+  /** Player square size */
+  playerSize: number;
+  /** Lowest position the player center can fall to */
+  floorY: number;
+}
+
+/**
+ * Default rules, tuned so one step matches a single frame of the original
+ * 60 Hz game (0.5% gravity and 2px scroll per frame in a 480x256 area)
+ * These are also the Normal difficulty.
+ */
+export const DEFAULT_FLAPPY_CONFIG: FlappyConfig = {
+  width: 480,
+  height: 256,
+  stepMs: 1000 / 60,
+  gravity: 76.8,
+  flapDistance: 12.8,
+  diveDistance: 12.8,
+  obstacleSpeed: 120,
+  speedPerPoint: 2.5,
+  maxObstacleSpeed: 200,
+  obstacleWidth: 48,
+  gapSize: 76.8,
+  gapShrinkPerPoint: 0.8,
+  minGapSize: 60,
+  minGapTop: 51.2,
+  maxGapTop: 179.2,
+  obstacleSpacing: 300,
+  playerX: 40,
+  playerSize: 40,
+  floorY: 230.4
+};
+
+/**
+ * Difficulty presets players can choose from
+ */
+export type FlappyDifficulty = 'easy' | 'normal' | 'hard';
+
+export const FLAPPY_DIFFICULTIES: readonly FlappyDifficulty[] = ['easy', 'normal', 'hard'];
+
+// Rules each preset changes from the defaults (normal keeps them as they are)
+const DIFFICULTY_RULES: Record<FlappyDifficulty, Partial<FlappyConfig>> = {
+  easy: {
+    gravity: 64,
+    obstacleSpeed: 100,
+    speedPerPoint: 1.5,
+    maxObstacleSpeed: 150,
+    gapSize: 96,
+    gapShrinkPerPoint: 0.5,
+    minGapSize: 80,
+    obstacleSpacing: 340
+  },
+  normal: {},
+  hard: {
+    gravity: 89.6,
+    obstacleSpeed: 150,
+    speedPerPoint: 3.5,
+    maxObstacleSpeed: 240,
+    gapSize: 64,
+    gapShrinkPerPoint: 1,
+    minGapSize: 52,
+    obstacleSpacing: 260
+  }
+};
+
+/**
+ * Build the rules for a difficulty preset
+ */
+export function createFlappyConfig(difficulty: FlappyDifficulty): FlappyConfig {
+  return { ...DEFAULT_FLAPPY_CONFIG, ...DIFFICULTY_RULES[difficulty] };
+}
+
+/**
+ * Scroll speed at a score, rising along the difficulty curve
+ */
+export function speedAt(score: number, config: FlappyConfig): number {
+  return Math.min(config.maxObstacleSpeed, config.obstacleSpeed + score * config.speedPerPoint);
+}
+
+/**
+ * Gap size at a score, shrinking along the difficulty curve
+ */
+export function gapAt(score: number, config: FlappyConfig): number {
+  return Math.max(config.minGapSize, config.gapSize - score * config.gapShrinkPerPoint);
+}
+
+// Type for game obstacles
+export interface Obstacle {
+  id: number;
+  x: number;
+  /** Height of the top pipe, i.e. where the gap starts */
+  gapTop: number;
+  gapSize: number;
+}
+
+export type FlappyStatus = 'running' | 'crashed';
+
+/**
+ * Player actions fed into the simulation
+ */
+export type FlappyAction = 'flap' | 'dive';
+
+/**
+ * An action and the step it was applied on, as recorded for replays
+ */
+export interface FlappyInput {
+  tick: number;
+  action: FlappyAction;
+}
+
+/**
+ * Complete simulation state for one run
+ */
+export interface FlappyState {
+  status: FlappyStatus;
+  /** Number of fixed steps simulated so far */
+  tick: number;
+  score: number;
+  /** Player center height in world units */
+  playerY: number;
+  obstacles: Obstacle[];
+  nextObstacleId: number;
+}
+
+/**
+ * Axis-aligned rectangle in world units
+ */
+export interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Source of random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a new obstacle with a random gap position
+ * @param score - Current score, which sets the gap size along the difficulty curve
+ */
+export function createObstacle(
+  x: number,
+  id: number,
+  config: FlappyConfig,
+  random: RandomSource,
+  score: number = 0
+): Obstacle {
+  const gapSize = gapAt(score, config);
+  // Wide gaps must still end above the bottom of the world
+  const maxGapTop = Math.min(config.maxGapTop, config.height - gapSize);
+
+  return {
+    id,
+    x,
+    gapTop: config.minGapTop + random() * (maxGapTop - config.minGapTop),
+    gapSize
+  };
+}
+
+/**
+ * Build the initial state for a new run
+ */
+export function createInitialState(
+  config: FlappyConfig = DEFAULT_FLAPPY_CONFIG,
+  random: RandomSource = Math.random
+): FlappyState {
+  return {
+    status: 'running',
+    tick: 0,
+    score: 0,
+    playerY: config.height / 2,
+    obstacles: [
+      createObstacle(config.width + 50, 1, config, random),
+      createObstacle(config.width + 200, 2, config, random),
+      createObstacle(config.width + 350, 3, config, random)
+    ],
+    nextObstacleId: 4
+  };
+}
+
+/**
+ * Get the player's bounding box
+ */
+export function getPlayerRect(state: FlappyState, config: FlappyConfig): Rect {
+  const half = config.playerSize / 2;
+  return {
+    left: config.playerX,
+    top: state.playerY - half,
+    right: config.playerX + config.playerSize,
+    bottom: state.playerY + half
+  };
+}
+
+/**
+ * Get the top and bottom pipe rectangles of an obstacle
+ */
+export function getObstacleRects(obstacle: Obstacle, config: FlappyConfig): [Rect, Rect] {
+  const right = obstacle.x + config.obstacleWidth;
+  return [
+    { left: obstacle.x, top: 0, right, bottom: obstacle.gapTop },
+    { left: obstacle.x, top: obstacle.gapTop + obstacle.gapSize, right, bottom: config.height }
+  ];
+}
+
+/**
+ * Check whether two rectangles overlap
+ */
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+}
+
+/**
+ * Check whether the player touches any obstacle
+ */
+export function detectCollision(state: FlappyState, config: FlappyConfig): boolean {
+  const player = getPlayerRect(state, config);
+
+  return state.obstacles.some(obs => {
+    const [top, bottom] = getObstacleRects(obs, config);
+    return rectsOverlap(player, top) || rectsOverlap(player, bottom);
+  });
+}
+
+/**
+ * Advance the simulation by exactly one fixed step
+ * @param state - Current state (left untouched)
+ * @param actions - Actions performed since the previous step
+ * @returns The next state
+ */
+export function step(
+  state: FlappyState,
+  actions: readonly FlappyAction[],
+  config: FlappyConfig = DEFAULT_FLAPPY_CONFIG,
+  random: RandomSource = Math.random
+): FlappyState {
+  if (state.status !== 'running') return state;
+
+  const dt = config.stepMs / 1000;
+
+  // Apply player input, then gravity
+  let playerY = state.playerY;
+  for (const action of actions) {
+    if (action === 'flap') {
+      playerY -= config.flapDistance;
+    } else if (action === 'dive') {
+      playerY += config.diveDistance;
+    }
+  }
+  playerY = Math.min(config.floorY, Math.max(0, playerY + config.gravity * dt));
+
+  // Move obstacles from right to left, faster as the score grows
+  const speed = speedAt(state.score, config);
+  const obstacles = state.obstacles.map(obs => ({
+    ...obs,
+    x: obs.x - speed * dt
+  }));
+
+  // Replace obstacles that moved off-screen
+  let score = state.score;
+  let nextObstacleId = state.nextObstacleId;
+  for (let i = 0; i < obstacles.length; i++) {
+    if (obstacles[i].x < -50) {
+      score++;
+      const rightmostX = Math.max(...obstacles.map(o => o.x));
+      obstacles[i] = createObstacle(rightmostX + config.obstacleSpacing, nextObstacleId++, config, random, score);
+    }
+  }
+
+  const next: FlappyState = {
+    status: 'running',
+    tick: state.tick + 1,
+    score,
+    playerY,
+    obstacles,
+    nextObstacleId
+  };
+
+  if (detectCollision(next, config)) {
+    next.status = 'crashed';
+  }
+
+  return next;
+}
+
+/**
+ * Fixed-timestep driver around the pure simulation functions
+ * Accumulates real elapsed time and runs as many fixed steps as fit,
+ * so the game speed does not depend on how often it is advanced.
+ */
+export class FlappySimulation {
+  private accumulator: number = 0;
+  private pending: FlappyAction[] = [];
+  private log: FlappyInput[] = [];
+  private current: FlappyState;
+
+  /**
+   * Constructor for FlappySimulation
+   * @param rules - Rules for the run
+   * @param random - Random source used for obstacle placement
+   */
+  constructor(
+    private rules: FlappyConfig = DEFAULT_FLAPPY_CONFIG,
+    private random: RandomSource = Math.random
+  ) {
+    this.current = createInitialState(rules, random);
+  }
+
+  /**
+   * Rules of the current run
+   */
+  get config(): FlappyConfig {
+    return this.rules;
+  }
+
+  /**
+   * Current simulation state
+   */
+  get state(): FlappyState {
+    return this.current;
+  }
+
+  /**
+   * Actions applied so far in this run, in order
+   */
+  get inputs(): readonly FlappyInput[] {
+    return this.log;
+  }
+
+  /**
+   * Start a fresh run
+   * @param rules - New rules, e.g. for another difficulty (defaults to the current ones)
+   * @param random - New random source, e.g. seeded to record a replay (defaults to the current one)
+   */
+  reset(rules: FlappyConfig = this.rules, random: RandomSource = this.random): void {
+    this.rules = rules;
+    this.random = random;
+    this.accumulator = 0;
+    this.pending = [];
+    this.log = [];
+    this.current = createInitialState(rules, random);
+  }
+
+  /**
+   * Queue an action to be applied on the next step
+   */
+  queue(action: FlappyAction): void {
+    if (this.current.status !== 'running') return;
+    this.pending.push(action);
+  }
+
+  /**
+   * Advance by real elapsed time
+   * @param elapsedMs - Milliseconds since the previous call
+   * @returns Number of fixed steps that were run
+   */
+  advance(elapsedMs: number): number {
+    // Clamp long gaps (background tabs, breakpoints) to avoid a burst of steps
+    this.accumulator += Math.min(Math.max(0, elapsedMs), 250);
+
+    let steps = 0;
+    while (this.accumulator >= this.config.stepMs && this.current.status === 'running') {
+      const tick = this.current.tick;
+      this.pending.forEach(action => this.log.push({ tick, action }));
+      this.current = step(this.current, this.pending, this.config, this.random);
+      this.pending = [];
+      this.accumulator -= this.config.stepMs;
+      steps++;
+    }
+
+    return steps;
+  }
+}
@@ -0,0 +1,178 @@
+import { Component, lazy } from 'solid-js';
+import { createShareToken, eventBus, isValidShareToken, scoreStorage, unlockStorage } from '../../utils';
+import { t } from '../../i18n';
+import { DragGame, getDragScoreId } from './DragGame';
+import { DRAG_MODES } from './dragModes';
+
+/**
+ * Props every mini-game accepts when opened in the arcade shell
+ */
+export interface GameProps {
+  /** Set by the shell, which then renders the title, score and close controls */
+  inShell?: boolean;
+  /** Whether the game should hold its state and ignore input */
+  paused?: boolean;
+  /** Seed for every run, so layouts can be reproduced (a fresh one per run by default) */
+  seed?: number;
+  /** Called when a new run starts */
+  onRunStart?: () => void;
+  /** Called whenever the current score changes */
+  onScoreChange?: (score: number) => void;
+  /** Called with the final score when a run ends */
+  onGameOver?: (score: number) => void;
+  /** Called when the game asks to be closed (e.g. gamepad B) */
+  onExit?: () => void;
+  /** Called when scores start counting toward another board, e.g. after a mode change */
+  onBoardChange?: (board: ScoreBoard) => void;
+}
+
+/**
+ * Leaderboard a game's scores are saved to
+ */
+export interface ScoreBoard {
+  /** Key in score storage */
+  id: string;
+  /** Shown after the game title, e.g. the mode name */
+  label?: string;
+}
+
+/**
+ * When a game becomes playable
+ */
+export type UnlockCondition =
+  | { type: 'always' }
+  /** Unlocked once the named secret has been found */
+  | { type: 'secret'; secret: string }
+  /** Unlocked once the best score of another game reaches a threshold */
+  | { type: 'score'; gameId: string; score: number };
+
+/**
+ * Registry entry describing a mini-game
+ */
+export interface GameDescriptor {
+  id: string;
+  /** Accessors so the arcade follows the current language */
+  title: () => string;
+  /** Font Awesome icon class, e.g. `fa-rocket` */
+  icon: string;
+  description: () => string;
+  unlock: UnlockCondition;
+  /** Shown on the locked card to point players in the right direction */
+  hint?: () => string;
+  /** Game component, usually wrapped in `lazy` so it loads on first open */
+  component: Component<GameProps>;
+  /** Boards the game saves to when it keeps more than one, e.g. one per mode (default: its id) */
+  scoreIds?: string[];
+}
+
+// Registered games in display order
+const games: GameDescriptor[] = [];
+
+/**
+ * Add a game to the registry
+ * @throws Error if a game with the same id is already registered
+ */
+export function registerGame(game: GameDescriptor): void {
+  if (games.some(existing => existing.id === game.id)) {
+    throw new Error(`Game "${game.id}" is already registered`);
+  }
+  games.push(game);
+}
+
+/**
+ * Get all registered games in display order
+ */
+export function getGames(): readonly GameDescriptor[] {
+  return games;
+}
+
+/**
+ * Look up a game by id
+ */
+export function getGame(id: string): GameDescriptor | undefined {
+  return games.find(game => game.id === id);
+}
+
+/**
+ * Get the best score of a game across all of its boards
+ */
+export function getBestScore(game: GameDescriptor): number {
+  return Math.max(0, ...(game.scoreIds ?? [game.id]).map(id => scoreStorage.getBest(id)));
+}
+
+/**
+ * Check whether a game's unlock condition is met
+ */
+export function isGameUnlocked(game: GameDescriptor): boolean {
+  const { unlock } = game;
+
+  switch (unlock.type) {
+    case 'always':
+      return true;
+    case 'secret':
+      return unlockStorage.isUnlocked(unlock.secret);
+    case 'score': {
+      const target = getGame(unlock.gameId);
+      return target !== undefined && getBestScore(target) >= unlock.score;
+    }
+  }
+}
+
+/**
+ * Get the token that unlocks a game from a shared link
+ * @returns Undefined for games that are not unlocked by a secret
+ */
+export function getShareToken(game: GameDescriptor): string | undefined {
+  return game.unlock.type === 'secret' ? createShareToken(game.unlock.secret) : undefined;
+}
+
+/**
+ * Unlock a game with the token from a shared link
+ * @returns True if the token matched and the game is now unlocked
+ */
+export function unlockWithShareToken(game: GameDescriptor, token: string): boolean {
+  const { unlock } = game;
+  if (unlock.type !== 'secret' || !isValidShareToken(unlock.secret, token)) return false;
+
+  if (unlockStorage.unlock(unlock.secret)) {
+    eventBus.emit('secretUnlocked', { secret: unlock.secret });
+  }
+  return true;
+}
+
+/**
+ * Listen for anything that may change which games are unlocked
+ * @returns Function that removes the listener
+ */
+export function subscribeToUnlocks(listener: () => void): () => void {
+  const unsubscribeScores = scoreStorage.subscribe(listener);
+  const unsubscribeUnlocks = unlockStorage.subscribe(listener);
+
+  return () => {
+    unsubscribeScores();
+    unsubscribeUnlocks();
+  };
+}
+
+// Built-in games
+registerGame({
+  id: 'drag',
+  title: () => t().games.drag.title,
+  icon: 'fa-hand-pointer',
+  description: () => t().games.drag.description,
+  unlock: { type: 'always' },
+  // Loaded eagerly, it is already on the landing page
+  component: DragGame,
+  // Modes are not comparable, so each keeps its own best and leaderboard
+  scoreIds: DRAG_MODES.map(getDragScoreId)
+});
+
+registerGame({
+  id: 'flappy',
+  title: () => t().games.flappy.title,
+  icon: 'fa-rocket',
+  description: () => t().games.flappy.description,
+  unlock: { type: 'secret', secret: 'konami' },
+  hint: () => t().games.flappy.hint,
+  component: lazy(() => import('./FlappyGame'))
+});
@@ -1,5 +1,34 @@
 // Export all components
 export { Background } from './Background';
+export type { BackgroundController, BackgroundProps } from './Background';
 export { default as Title } from './Title';
-export { DragGame, initDragGame } from './games/DragGame';
-export { default as FlappyGame } from './games/FlappyGame'; 
\ No newline at end of file
+export { Leaderboard } from './Leaderboard';
+export { NewsList } from './NewsList';
+export { PollWidget } from './PollWidget';
+export { DiscordPanel } from './DiscordPanel';
+export { IdeaForm } from './IdeaForm';
+export { MotionToggle } from './MotionToggle';
+export { SoundControl } from './SoundControl';
+export { LanguageSwitcher } from './LanguageSwitcher';
+export { ThemePicker } from './ThemePicker';
+export { createReducedMotion } from './reducedMotion';
+export { createRoute } from './route';
+export { onEvent } from './events';
+export { Gallery } from './gallery/Gallery';
+export { DragGame } from './games/DragGame';
+export { ArcadeHub } from './games/ArcadeHub';
+export { GameShell } from './games/GameShell';
+export {
+  registerGame,
+  getGames,
+  getGame,
+  isGameUnlocked,
+  subscribeToUnlocks,
+  getShareToken,
+  unlockWithShareToken
+} from './games/registry';
+export type { GameDescriptor, GameProps, UnlockCondition } from './games/registry';
+export { TrophyCase } from './achievements/TrophyCase';
+export { AchievementToasts } from './achievements/AchievementToasts';
+export { ACHIEVEMENTS, getAchievement, startAchievementTracking } from './achievements/registry';
+export type { AchievementDescriptor } from './achievements/registry';
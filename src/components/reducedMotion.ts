@@ -0,0 +1,12 @@
+import { Accessor, createSignal, onCleanup } from 'solid-js';
+import { motionPreference } from '../utils';
+
+/**
+ * Track whether animations should be calm
+ * Must be called inside a component; updates when the preference or OS setting changes.
+ */
+export function createReducedMotion(): Accessor<boolean> {
+  const [reduced, setReduced] = createSignal(motionPreference.isReduced());
+  onCleanup(motionPreference.subscribe(() => setReduced(motionPreference.isReduced())));
+  return reduced;
+}
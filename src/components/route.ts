@@ -0,0 +1,12 @@
+import { Accessor, createSignal, onCleanup } from 'solid-js';
+import { Route, router } from '../utils';
+
+/**
+ * Track the current route
+ * Must be called inside a component; updates on navigation and the back button.
+ */
+export function createRoute(): Accessor<Route> {
+  const [route, setRoute] = createSignal(router.getRoute());
+  onCleanup(router.subscribe(() => setRoute(router.getRoute())));
+  return route;
+}
@@ -0,0 +1,57 @@
+import gallery from 'virtual:gallery';
+import type { GalleryItem, GallerySource } from './types';
+
+/**
+ * Available gallery orderings
+ */
+export type GallerySort = 'newest' | 'oldest' | 'title' | 'artist';
+
+/**
+ * Get the gallery items by one artist (or all), in the requested order
+ * @param sort - Ordering to apply
+ * @param artist - Artist to filter by, or null for everyone
+ * @param items - Items to use (defaults to the whole gallery)
+ */
+export function getGalleryItems(
+  sort: GallerySort = 'newest',
+  artist: string | null = null,
+  items: GalleryItem[] = gallery
+): GalleryItem[] {
+  const filtered = artist ? items.filter(item => item.artist === artist) : [...items];
+
+  return filtered.sort((a, b) => {
+    switch (sort) {
+      case 'oldest':
+        return a.date.localeCompare(b.date);
+      case 'title':
+        return a.title.localeCompare(b.title);
+      case 'artist':
+        return a.artist.localeCompare(b.artist) || b.date.localeCompare(a.date);
+      default:
+        return b.date.localeCompare(a.date);
+    }
+  });
+}
+
+/**
+ * Collect the distinct artists of the gallery, alphabetically
+ */
+export function collectArtists(items: GalleryItem[] = gallery): string[] {
+  return [...new Set(items.map(item => item.artist))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Build an `srcset` attribute from an item's generated sizes
+ */
+export function toSrcSet(item: GalleryItem): string {
+  return item.sources.map(source => `${source.url} ${source.width}w`).join(', ');
+}
+
+/**
+ * Get the largest generated size, used in the lightbox
+ */
+export function largestSource(item: GalleryItem): GallerySource {
+  return item.sources[item.sources.length - 1];
+}
+
+export type { GalleryItem, GallerySource };
@@ -0,0 +1,34 @@
+import news from 'virtual:news';
+import type { NewsItem } from './types';
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the news items that are visible on a given day
+ * Expired items are dropped; pinned items come first, then newest first.
+ * @param items - Items to filter (defaults to the whole collection)
+ * @param now - Day to check expiry against
+ */
+export function getActiveNews(items: NewsItem[] = news, now: Date = new Date()): NewsItem[] {
+  const today = toDateKey(now);
+
+  return items
+    .filter(item => !item.expires || item.expires >= today)
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.date.localeCompare(a.date));
+}
+
+/**
+ * Collect the distinct tags used by a list of items, alphabetically
+ */
+export function collectTags(items: NewsItem[]): string[] {
+  return [...new Set(items.flatMap(item => item.tags))].sort();
+}
+
+export type { NewsItem };
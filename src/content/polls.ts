@@ -0,0 +1,19 @@
+import polls from 'virtual:polls';
+import { toDateKey } from './news';
+import type { Poll } from './types';
+
+export type { Poll, PollOption } from './types';
+
+/**
+ * Find a poll by id
+ */
+export function getPoll(id: string, items: Poll[] = polls): Poll | undefined {
+  return items.find(poll => poll.id === id);
+}
+
+/**
+ * Check whether a poll still accepts votes on a given day
+ */
+export function isPollOpen(poll: Poll, now: Date = new Date()): boolean {
+  return !poll.closes || poll.closes >= toDateKey(now);
+}
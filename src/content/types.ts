@@ -0,0 +1,74 @@
+/**
+ * Types shared by the content build plugins and the components that render content
+ */
+
+/**
+ * A news post or important link, parsed from a file in `content/news`
+ */
+export interface NewsItem {
+  /** File name without extension, unique per item */
+  slug: string;
+  title: string;
+  /** Publication date as YYYY-MM-DD */
+  date: string;
+  tags: string[];
+  /** Pinned items are listed before all others */
+  pinned: boolean;
+  /** Last day (YYYY-MM-DD) the item is shown */
+  expires?: string;
+  /** External link the title points to */
+  url?: string;
+  /** Id of a poll embedded below the post */
+  poll?: string;
+  /** Body rendered from markdown to HTML at build time */
+  html: string;
+}
+
+/**
+ * One generated size of a gallery image
+ */
+export interface GallerySource {
+  width: number;
+  url: string;
+}
+
+/**
+ * A community drawing, listed in `content/gallery/manifest.json`
+ */
+export interface GalleryItem {
+  /** Image file name without extension, unique per item */
+  id: string;
+  title: string;
+  artist: string;
+  /** Date the drawing was shared, as YYYY-MM-DD */
+  date: string;
+  /** Alternative text describing the drawing */
+  alt: string;
+  /** Intrinsic size of the original image */
+  width: number;
+  height: number;
+  /** Generated WebP sizes, smallest first */
+  sources: GallerySource[];
+}
+
+/**
+ * One answer of a poll
+ */
+export interface PollOption {
+  id: string;
+  label: string;
+}
+
+/**
+ * A community poll, defined in `content/polls`
+ */
+export interface Poll {
+  /** File name without extension, unique per poll */
+  id: string;
+  question: string;
+  /** Whether several options may be picked */
+  multiple: boolean;
+  options: PollOption[];
+  /** Last day (YYYY-MM-DD) votes are accepted */
+  closes?: string;
+}
@@ -0,0 +1,16 @@
+// Virtual modules generated by the content plugins in /plugins
+
+declare module 'virtual:news' {
+  const news: import('./types').NewsItem[];
+  export default news;
+}
+
+declare module 'virtual:gallery' {
+  const gallery: import('./types').GalleryItem[];
+  export default gallery;
+}
+
+declare module 'virtual:polls' {
+  const polls: import('./types').Poll[];
+  export default polls;
+}
@@ -0,0 +1,354 @@
+import type { Messages } from './en';
+
+/**
+ * Pick the Arabic plural form for a count
+ */
+function arabicCount(count: number, forms: { zero: string; one: string; two: string; few: string; many: string }): string {
+  const mod100 = count % 100;
+  if (count === 0) return forms.zero;
+  if (count === 1) return forms.one;
+  if (count === 2) return forms.two;
+  if (mod100 >= 3 && mod100 <= 10) return `${count} ${forms.few}`;
+  return `${count} ${forms.many}`;
+}
+
+/**
+ * Arabic messages
+ */
+export const ar: Messages = {
+  language: {
+    name: 'العربية',
+    label: 'اللغة'
+  },
+  keys: {
+    space: 'مسطرة المسافة',
+    up: '↑ السهم لأعلى',
+    down: '↓ السهم لأسفل',
+    arrows: 'مفاتيح الأسهم',
+    escape: 'Esc',
+    p: 'P',
+    gamepad: (button: string) => `زر ${button} في يد التحكم`
+  },
+  common: {
+    score: 'النقاط',
+    best: 'الأفضل',
+    loading: 'جارٍ التحميل...'
+  },
+  app: {
+    title: 'Deci.Dev',
+    joinDiscord: 'انضم إلى سيرفر ديسكورد',
+    newsHeading: 'روابط مهمة وأخبار',
+    galleryHeading: 'معرض الأصدقاء',
+    ideasIntro: 'نحتاج أفكاركم لنمنح موقع deci.dev روحًا مثل هذه الألعاب الصغيرة. شاركنا فكرتك هنا!',
+    copyright: '© 2025 lizard. جميع الحقوق محفوظة.'
+  },
+  nav: {
+    label: 'الأقسام',
+    home: 'الرئيسية',
+    games: 'الألعاب',
+    news: 'الأخبار',
+    about: 'عن الموقع'
+  },
+  theme: {
+    label: 'المظهر',
+    system: 'تلقائي',
+    dark: 'داكن',
+    light: 'فاتح',
+    contrast: 'تباين عالٍ',
+    seasons: {
+      ramadan: 'رمضان كريم! المظهر الموسمي مفعّل.'
+    }
+  },
+  motion: {
+    label: 'الحركة',
+    system: 'تلقائي',
+    reduced: 'هادئ',
+    full: 'كامل',
+    isReduced: 'الحركة هادئة',
+    isFull: 'الحركة مفعّلة'
+  },
+  sound: {
+    label: 'الصوت',
+    mute: 'كتم الصوت',
+    unmute: 'تشغيل الصوت',
+    settings: 'إعدادات الصوت',
+    volumes: {
+      master: 'مستوى الصوت',
+      sfx: 'المؤثرات',
+      music: 'الموسيقى'
+    }
+  },
+  games: {
+    layout: 'بذرة التوزيع:',
+    drag: {
+      title: 'اسحب واضرب',
+      description: 'اسحب الدائرة إلى الهدف أكبر عدد ممكن من المرات.'
+    },
+    flappy: {
+      title: 'الصاروخ السري',
+      description: 'طِر بالصاروخ عبر الفتحات. لمسة واحدة وتنتهي اللعبة!',
+      hint: 'بسّ... جرّب تبحث عن أسرار كونامي 🤫'
+    }
+  },
+  arcade: {
+    heading: 'صالة الألعاب',
+    locked: 'لعبة مقفلة'
+  },
+  shell: {
+    pause: 'إيقاف اللعبة مؤقتًا',
+    resume: 'استئناف اللعبة',
+    leaderboard: 'فتح لوحة المتصدرين',
+    close: 'إغلاق اللعبة',
+    paused: 'متوقفة مؤقتًا',
+    share: 'نسخ رابط هذه اللعبة',
+    copied: 'تم نسخ الرابط!',
+    leaderboardTitle: (game: string) => `لوحة متصدري ${game}`
+  },
+  achievements: {
+    heading: 'خزانة الجوائز',
+    unlockedCount: (unlocked: number, total: number) => `${unlocked} من ${total} مفتوحة`,
+    unlocked: 'تم فتح إنجاز!',
+    unlockedOn: (date: string) => `فُتح في ${date}`,
+    locked: 'مقفل',
+    progress: (current: number, target: number) => `${current} / ${target}`,
+    dismiss: 'إخفاء',
+    items: {
+      konami: { name: 'من الزمن الجميل', description: 'أدخل رمز كونامي' },
+      drag10: { name: 'إحماء', description: 'أصب 10 أهداف في لعبة اسحب واضرب' },
+      drag50: { name: 'رامٍ ماهر', description: 'أصب 50 هدفًا في لعبة اسحب واضرب' },
+      drag100: { name: 'جامع الأهداف', description: 'أصب 100 هدف في لعبة اسحب واضرب' },
+      flappy10: { name: 'إقلاع', description: 'اجمع 10 نقاط في الصاروخ السري' },
+      flappy25: { name: 'مسافر دائم', description: 'اجمع 25 نقطة في الصاروخ السري' },
+      title20: { name: 'دوّامة', description: 'انقر على العنوان 20 مرة' },
+      visits7: { name: 'زائر دائم', description: 'زر الموقع في 7 أيام مختلفة' }
+    }
+  },
+  daily: {
+    heading: 'تحدي اليوم',
+    intro: 'الجميع يلعب التوزيع نفسه اليوم، ولك محاولة واحدة محسوبة.',
+    badge: 'يومي',
+    play: 'العب تحدي اليوم',
+    played: (score: number) => `نتيجتك اليوم: ${score}`,
+    unfinished: 'لم تكتمل محاولة اليوم',
+    nextChallenge: 'يبدأ تحدٍ جديد عند منتصف الليل بتوقيت القاهرة.',
+    streak: (days: number) => `سلسلة ${arabicCount(days, {
+      zero: 'بلا أيام',
+      one: 'يوم واحد',
+      two: 'يومين',
+      few: 'أيام',
+      many: 'يومًا'
+    })}`,
+    bestStreak: (days: number) => `أطول سلسلة: ${arabicCount(days, {
+      zero: 'لا أيام',
+      one: 'يوم واحد',
+      two: 'يومان',
+      few: 'أيام',
+      many: 'يومًا'
+    })}`,
+    calendar: 'النتائج السابقة',
+    missed: (date: string) => `${date}: لا محاولة`,
+    result: (date: string, score: number) => `${date}: ${score}`,
+    copy: 'انسخ النتيجة',
+    copied: 'نُسخت! شاركها على ديسكورد.',
+    shareTitle: (game: string, day: string) => `تحدي Deci.Dev اليومي · ${game} · ${day}`,
+    shareScore: (score: number, streak: number) => `النتيجة ${score} · 🔥 ${streak}`
+  },
+  leaderboard: {
+    close: 'إغلاق لوحة المتصدرين',
+    topRun: 'ضمن أفضل 10:',
+    initials: 'الأحرف الأولى من اسمك',
+    save: 'حفظ',
+    savedAt: (rank: number) => `تم الحفظ في المركز #${rank}`,
+    empty: 'لا توجد نتائج بعد. كن الأول!',
+    export: 'تصدير',
+    import: 'استيراد',
+    importFailed: 'تعذّر استيراد النتائج من هذا الملف'
+  },
+  drag: {
+    heading: 'لعبة صغيرة',
+    leaderboardTitle: (mode: string) => `لوحة متصدري اللعبة الصغيرة: ${mode}`,
+    circle: 'الدائرة',
+    target: 'الهدف',
+    instructions: 'اسحب الدائرة إلى الهدف، أو حدّدها واستخدم مفاتيح الأسهم!',
+    konamiHint: 'بسّ... جرّب تبحث عن أسرار كونامي 🤫 لتفتح اللعبة المخفية',
+    targetIs: (direction: string) => `الهدف ${direction}.`,
+    hit: (score: number) => `إصابة! النقاط ${score}.`,
+    hazard: 'هدف يجب تجنّبه',
+    hazardHit: (score: number) => `أوه، هدف أحمر! النقاط ${score}.`,
+    mode: 'النمط',
+    modes: {
+      classic: { name: 'كلاسيكي', description: 'هدف واحد بلا وقت. استرخِ واجمع الإصابات.' },
+      timeAttack: { name: 'سباق الوقت', description: '60 ثانية. الإصابات السريعة تبني سلسلة تصل قيمتها إلى 4 نقاط.' },
+      drift: { name: 'انجراف', description: '60 ثانية من الأهداف المتحركة. السلاسل محسوبة.' },
+      swarm: { name: 'سرب', description: 'أصب كل الأهداف لتستدعي موجة أكبر. الأهداف الحمراء تخصم نقاطًا.' }
+    },
+    start: 'ابدأ الجولة',
+    timeLeft: 'الوقت',
+    combo: (combo: number) => `سلسلة ×${combo}`,
+    wave: (wave: number) => `الموجة ${wave}`,
+    summary: {
+      title: 'انتهت الجولة!',
+      score: 'النقاط',
+      hits: 'الإصابات',
+      hitsPerMinute: 'إصابات في الدقيقة',
+      bestCombo: 'أفضل سلسلة',
+      waves: 'موجات مكتملة',
+      hazards: 'أهداف حمراء لمستها',
+      newBest: 'رقم قياسي جديد!',
+      playAgain: 'العب مجددًا'
+    },
+    directions: {
+      up: 'للأعلى',
+      down: 'للأسفل',
+      left: 'إلى اليسار',
+      right: 'إلى اليمين',
+      join: ' و',
+      here: 'هنا تمامًا'
+    }
+  },
+  flappy: {
+    tapOrHold: 'المس أو اضغط مطولًا',
+    swipeDown: 'اسحب لأسفل',
+    fly: 'للطيران لأعلى',
+    dive: 'للغوص',
+    exit: 'للخروج من اللعبة',
+    pause: 'للإيقاف المؤقت أو الاستئناف',
+    start: 'ابدأ',
+    playAgain: 'العب مجددًا',
+    changeDifficulty: 'تغيير الصعوبة',
+    pressToStart: 'أو اضغط مسطرة المسافة للبدء',
+    difficulty: 'الصعوبة',
+    difficulties: {
+      easy: 'سهل',
+      normal: 'عادي',
+      hard: 'صعب'
+    },
+    difficultyHints: {
+      easy: 'فتحات واسعة وسرعة هادئة',
+      normal: 'الرحلة الكلاسيكية',
+      hard: 'فتحات ضيقة منذ الأنبوب الأول'
+    },
+    speedsUp: 'تضيق الفتحات ويزداد الصاروخ سرعة كلما زادت نقاطك.',
+    paused: 'متوقفة مؤقتًا',
+    resumeHint: 'اضغط P أو المس للاستئناف',
+    gameOver: 'انتهت اللعبة',
+    finalScore: (score: number) => `نقاطك: ${score}`,
+    newBest: 'رقم قياسي جديد!',
+    replay: {
+      heading: 'الإعادات',
+      raceGhost: (score: number) => `سابق شبح أفضل جولاتك (${score})`,
+      watchLast: 'شاهد هذه الجولة',
+      copyCode: 'انسخ كود الإعادة',
+      copied: 'نُسخ كود الإعادة!',
+      pasteLabel: 'كود الإعادة',
+      pastePlaceholder: 'الصق كود إعادة',
+      watch: 'شاهد',
+      invalid: 'هذا ليس كود إعادة صالحًا',
+      outdated: 'سُجلت هذه الإعادة بإصدار أقدم من اللعبة ولم يعد تشغيلها ممكنًا',
+      watching: 'إعادة',
+      play: 'تشغيل الإعادة',
+      pause: 'إيقاف الإعادة مؤقتًا',
+      scrub: 'موضع الإعادة',
+      time: (seconds: number, total: number) => `${seconds.toFixed(1)} / ${total.toFixed(1)} ث`,
+      verified: (score: number) => `نتيجة موثّقة ${score}`,
+      mismatch: (score: number) => `تدّعي ${score} ولا تتطابق عند الإعادة`,
+      exit: 'أغلق الإعادة'
+    },
+    konamiInfo: 'فُتحت هذه اللعبة السرية بكود كونامي:',
+    konamiTouch: '(على شاشات اللمس: اسحب في اتجاهات الأسهم ثم المس مرتين)'
+  },
+  news: {
+    all: 'الكل',
+    pinned: 'مثبّت',
+    empty: 'لا توجد أخبار حاليًا. عُد قريبًا!',
+    newer: 'الأحدث',
+    older: 'الأقدم',
+    page: (page: number, count: number) => `صفحة ${page} من ${count}`
+  },
+  gallery: {
+    artist: 'الفنان',
+    everyone: 'الجميع',
+    sort: 'الترتيب',
+    sorts: {
+      newest: 'الأحدث أولًا',
+      oldest: 'الأقدم أولًا',
+      title: 'العنوان',
+      artist: 'الفنان'
+    },
+    empty: 'لا توجد رسومات بعد. شارك رسمتك في سيرفر ديسكورد وسنضيفها هنا!',
+    open: (title: string, artist: string) => `فتح ${title} للفنان ${artist}`,
+    titleBy: (title: string, artist: string) => `${title} للفنان ${artist}`,
+    by: 'للفنان',
+    close: 'إغلاق عارض المعرض',
+    previous: 'الرسمة السابقة',
+    next: 'الرسمة التالية'
+  },
+  discord: {
+    fallbackName: 'مجتمع Deci.Dev',
+    fallback: 'تعال للدردشة ومشاركة المشاريع والعثور على من يبني معك.',
+    loading: 'جارٍ التحقق من المتصلين...',
+    online: (count: number) => `${count} متصل`,
+    members: (count: number) => arabicCount(count, {
+      zero: 'لا أعضاء',
+      one: 'عضو واحد',
+      two: 'عضوان',
+      few: 'أعضاء',
+      many: 'عضوًا'
+    }),
+    membersOnline: 'الأعضاء المتصلون الآن',
+    more: (count: number) => `+${count} آخرين`,
+    stale: 'هذه آخر أرقام معروفة؛ تعذّر الوصول إلى ديسكورد.'
+  },
+  poll: {
+    vote: 'صوّت',
+    sending: 'جارٍ الإرسال...',
+    pickMany: 'اختر ما تشاء من الإجابات',
+    loading: 'جارٍ تحميل النتائج...',
+    votes: (count: number) => arabicCount(count, {
+      zero: 'لا توجد أصوات',
+      one: 'صوت واحد',
+      two: 'صوتان',
+      few: 'أصوات',
+      many: 'صوت'
+    }),
+    closed: 'انتهى التصويت',
+    yourVote: 'صوتك',
+    retry: 'إعادة المحاولة',
+    loadFailed: 'تعذّر تحميل النتائج.',
+    voteFailed: 'تعذّر إرسال صوتك.'
+  },
+  ideas: {
+    category: 'التصنيف',
+    chooseCategory: 'اختر تصنيفًا...',
+    categories: {
+      game: 'لعبة صغيرة',
+      feature: 'ميزة في الموقع',
+      content: 'محتوى أو روابط',
+      design: 'الشكل والتصميم',
+      other: 'شيء آخر'
+    },
+    idea: 'فكرتك',
+    placeholder: 'لعبة صغيرة، صفحة، ميزة... أخبرنا بما يمنح deci.dev روحًا أكثر',
+    contact: 'وسيلة التواصل',
+    contactHint: '(اختياري، اسمك في ديسكورد أو بريدك الإلكتروني)',
+    website: 'الموقع',
+    send: 'أرسل الفكرة',
+    sending: 'جارٍ الإرسال...',
+    download: (count: number) => `تنزيل أفكاري (${count})`,
+    sent: 'شكرًا! تم إرسال فكرتك.',
+    queued: 'شكرًا! حُفظت فكرتك في هذا المتصفح. نزّلها من الأسفل وشاركها في ديسكورد.',
+    rateLimited: (minutes: number) => `ترسل الأفكار بسرعة كبيرة. حاول مجددًا بعد ${arabicCount(minutes, {
+      zero: 'لحظات',
+      one: 'دقيقة واحدة',
+      two: 'دقيقتين',
+      few: 'دقائق',
+      many: 'دقيقة'
+    })}.`,
+    sendFailed: 'تعذّر إرسال فكرتك. حاول مرة أخرى.',
+    errors: {
+      required: 'اختر تصنيفًا',
+      tooShort: (min: number) => `أخبرنا بالمزيد (${min} حرفًا على الأقل)`,
+      tooLong: (max: number) => `اجعلها أقل من ${max} حرف`
+    }
+  }
+};
@@ -0,0 +1,312 @@
+/**
+ * English messages, also the reference shape every other catalog must match
+ */
+export const en = {
+  language: {
+    name: 'English',
+    label: 'Language'
+  },
+  keys: {
+    space: 'Space',
+    up: '↑ Up',
+    down: '↓ Down',
+    arrows: 'arrow keys',
+    escape: 'Esc',
+    p: 'P',
+    gamepad: (button: string) => `Gamepad ${button}`
+  },
+  common: {
+    score: 'Score',
+    best: 'Best',
+    loading: 'Loading...'
+  },
+  app: {
+    title: 'Deci.Dev',
+    joinDiscord: 'Join Discord Server',
+    newsHeading: 'Important Links & News',
+    galleryHeading: "Friends' Gallery",
+    ideasIntro: 'We need ideas to give the deci.dev website soul, like these mini games. Share yours here!',
+    copyright: '© 2025 lizard. All rights reserved.'
+  },
+  nav: {
+    label: 'Sections',
+    home: 'Home',
+    games: 'Games',
+    news: 'News',
+    about: 'About'
+  },
+  theme: {
+    label: 'Theme',
+    system: 'Auto',
+    dark: 'Dark',
+    light: 'Light',
+    contrast: 'High contrast',
+    seasons: {
+      ramadan: 'Ramadan Kareem! A seasonal theme is on.'
+    }
+  },
+  motion: {
+    label: 'Animations',
+    system: 'Auto',
+    reduced: 'Calm',
+    full: 'Full',
+    isReduced: 'Animations are calm',
+    isFull: 'Animations are on'
+  },
+  sound: {
+    label: 'Sound',
+    mute: 'Mute sound',
+    unmute: 'Turn sound on',
+    settings: 'Sound settings',
+    volumes: {
+      master: 'Volume',
+      sfx: 'Effects',
+      music: 'Music'
+    }
+  },
+  games: {
+    layout: 'Layout seed:',
+    drag: {
+      title: 'Drag & Hit',
+      description: 'Drag the circle onto the target as many times as you can.'
+    },
+    flappy: {
+      title: 'Secret Rocket',
+      description: 'Fly the rocket through the gaps. One touch and it is over!',
+      hint: 'Psst... Try To search about Konami secrets 🤫'
+    }
+  },
+  arcade: {
+    heading: 'Arcade',
+    locked: 'Locked game'
+  },
+  shell: {
+    pause: 'Pause game',
+    resume: 'Resume game',
+    leaderboard: 'Open leaderboard',
+    close: 'Close game',
+    paused: 'Paused',
+    share: 'Copy link to this game',
+    copied: 'Link copied!',
+    leaderboardTitle: (game: string) => `${game} Leaderboard`
+  },
+  achievements: {
+    heading: 'Trophy case',
+    unlockedCount: (unlocked: number, total: number) => `${unlocked} of ${total} unlocked`,
+    unlocked: 'Achievement unlocked!',
+    unlockedOn: (date: string) => `Unlocked ${date}`,
+    locked: 'Locked',
+    progress: (current: number, target: number) => `${current} / ${target}`,
+    dismiss: 'Dismiss',
+    items: {
+      konami: { name: 'Old School', description: 'Enter the Konami code' },
+      drag10: { name: 'Warming Up', description: 'Hit 10 targets in Drag & Hit' },
+      drag50: { name: 'Sharpshooter', description: 'Hit 50 targets in Drag & Hit' },
+      drag100: { name: 'Bullseye Collector', description: 'Hit 100 targets in Drag & Hit' },
+      flappy10: { name: 'Taking Off', description: 'Score 10 in Secret Rocket' },
+      flappy25: { name: 'Frequent Flyer', description: 'Score 25 in Secret Rocket' },
+      title20: { name: 'Spin Doctor', description: 'Click the title 20 times' },
+      visits7: { name: 'Regular', description: 'Visit on 7 different days' }
+    }
+  },
+  daily: {
+    heading: 'Daily challenge',
+    intro: 'Everyone gets the same layout today, and you get one scored attempt.',
+    badge: 'Daily',
+    play: 'Play today\'s challenge',
+    played: (score: number) => `Today's score: ${score}`,
+    unfinished: 'Today\'s attempt was left unfinished',
+    nextChallenge: 'A new challenge starts at midnight, Cairo time.',
+    streak: (days: number) => `${days}-day streak`,
+    bestStreak: (days: number) => `Best streak: ${days} ${days === 1 ? 'day' : 'days'}`,
+    calendar: 'Past results',
+    missed: (date: string) => `${date}: no attempt`,
+    result: (date: string, score: number) => `${date}: ${score}`,
+    copy: 'Copy result',
+    copied: 'Copied! Share it on our Discord.',
+    shareTitle: (game: string, day: string) => `Deci.Dev Daily · ${game} · ${day}`,
+    shareScore: (score: number, streak: number) => `Score ${score} · 🔥 ${streak}`
+  },
+  leaderboard: {
+    close: 'Close leaderboard',
+    topRun: 'Top 10 run:',
+    initials: 'Your initials',
+    save: 'Save',
+    savedAt: (rank: number) => `Saved at rank #${rank}`,
+    empty: 'No scores yet. Be the first!',
+    export: 'Export',
+    import: 'Import',
+    importFailed: 'Could not import scores from this file'
+  },
+  drag: {
+    heading: 'Mini-Game',
+    leaderboardTitle: (mode: string) => `Mini-Game Leaderboard: ${mode}`,
+    circle: 'Circle',
+    target: 'Target',
+    instructions: 'Drag the circle to the target, or focus it and use the arrow keys!',
+    konamiHint: 'Psst... Try To search about Konami secrets 🤫 to open hidden mini game',
+    targetIs: (direction: string) => `Target is ${direction}.`,
+    hit: (score: number) => `Hit! Score ${score}.`,
+    hazard: 'Avoid target',
+    hazardHit: (score: number) => `Ouch, an avoid target! Score ${score}.`,
+    mode: 'Mode',
+    modes: {
+      classic: { name: 'Classic', description: 'One target, no clock. Relax and rack up hits.' },
+      timeAttack: { name: 'Time attack', description: '60 seconds. Quick hits build a combo worth up to 4 points.' },
+      drift: { name: 'Drift', description: '60 seconds of targets that drift around. Combos count.' },
+      swarm: { name: 'Swarm', description: 'Clear every target to call the next, bigger wave. Red targets cost points.' }
+    },
+    start: 'Start round',
+    timeLeft: 'Time',
+    combo: (combo: number) => `Combo ×${combo}`,
+    wave: (wave: number) => `Wave ${wave}`,
+    summary: {
+      title: 'Round over!',
+      score: 'Score',
+      hits: 'Hits',
+      hitsPerMinute: 'Hits per minute',
+      bestCombo: 'Best combo',
+      waves: 'Waves cleared',
+      hazards: 'Red targets touched',
+      newBest: 'New best!',
+      playAgain: 'Play again'
+    },
+    directions: {
+      up: 'up',
+      down: 'down',
+      left: 'to the left',
+      right: 'to the right',
+      join: ' and ',
+      here: 'right here'
+    }
+  },
+  flappy: {
+    tapOrHold: 'Tap or hold',
+    swipeDown: 'Swipe down',
+    fly: 'fly up',
+    dive: 'dive',
+    exit: 'exit the game',
+    pause: 'pause or resume',
+    start: 'Start',
+    playAgain: 'Play again',
+    changeDifficulty: 'Change difficulty',
+    pressToStart: 'or press Space to start',
+    difficulty: 'Difficulty',
+    difficulties: {
+      easy: 'Easy',
+      normal: 'Normal',
+      hard: 'Hard'
+    },
+    difficultyHints: {
+      easy: 'Wide gaps and a gentle pace',
+      normal: 'The classic ride',
+      hard: 'Narrow gaps from the first pipe'
+    },
+    speedsUp: 'Gaps tighten and the rocket speeds up as your score grows.',
+    paused: 'Paused',
+    resumeHint: 'Press P or tap to resume',
+    gameOver: 'Game over',
+    finalScore: (score: number) => `You scored ${score}`,
+    newBest: 'New best!',
+    replay: {
+      heading: 'Replays',
+      raceGhost: (score: number) => `Race the ghost of your best run (${score})`,
+      watchLast: 'Watch this run',
+      copyCode: 'Copy replay code',
+      copied: 'Replay code copied!',
+      pasteLabel: 'Replay code',
+      pastePlaceholder: 'Paste a replay code',
+      watch: 'Watch',
+      invalid: 'That is not a valid replay code',
+      outdated: 'This replay was recorded by an older version of the game and can no longer be played',
+      watching: 'Replay',
+      play: 'Play replay',
+      pause: 'Pause replay',
+      scrub: 'Replay position',
+      time: (seconds: number, total: number) => `${seconds.toFixed(1)} / ${total.toFixed(1)}s`,
+      verified: (score: number) => `Verified score ${score}`,
+      mismatch: (score: number) => `Claims ${score}, does not replay`,
+      exit: 'Close replay'
+    },
+    konamiInfo: 'This secret game was unlocked with the Konami Code:',
+    konamiTouch: '(on touch screens: swipe the arrows, then tap twice)'
+  },
+  news: {
+    all: 'All',
+    pinned: 'Pinned',
+    empty: 'No news right now. Check back soon!',
+    newer: 'Newer',
+    older: 'Older',
+    page: (page: number, count: number) => `Page ${page} of ${count}`
+  },
+  gallery: {
+    artist: 'Artist',
+    everyone: 'Everyone',
+    sort: 'Sort',
+    sorts: {
+      newest: 'Newest first',
+      oldest: 'Oldest first',
+      title: 'Title',
+      artist: 'Artist'
+    },
+    empty: 'No drawings yet. Share yours in the Discord server and we will add it here!',
+    open: (title: string, artist: string) => `Open ${title} by ${artist}`,
+    titleBy: (title: string, artist: string) => `${title} by ${artist}`,
+    by: 'by',
+    close: 'Close gallery viewer',
+    previous: 'Previous drawing',
+    next: 'Next drawing'
+  },
+  discord: {
+    fallbackName: 'Deci.Dev community',
+    fallback: 'Come chat, share projects and find people to build with.',
+    loading: 'Checking who is online...',
+    online: (count: number) => `${count} online`,
+    members: (count: number) => `${count} ${count === 1 ? 'member' : 'members'}`,
+    membersOnline: 'Members online now',
+    more: (count: number) => `+${count} more`,
+    stale: 'Showing the last known numbers; Discord could not be reached.'
+  },
+  poll: {
+    vote: 'Vote',
+    sending: 'Sending...',
+    pickMany: 'Pick as many as you like',
+    loading: 'Loading results...',
+    votes: (count: number) => `${count} vote${count === 1 ? '' : 's'}`,
+    closed: 'Poll closed',
+    yourVote: 'Your vote',
+    retry: 'Retry',
+    loadFailed: 'Could not load the results.',
+    voteFailed: 'Could not send your vote.'
+  },
+  ideas: {
+    category: 'Category',
+    chooseCategory: 'Choose one...',
+    categories: {
+      game: 'Mini-game',
+      feature: 'Site feature',
+      content: 'Content or links',
+      design: 'Look & feel',
+      other: 'Something else'
+    },
+    idea: 'Your idea',
+    placeholder: 'A mini-game, a page, a feature... tell us what would give deci.dev more soul',
+    contact: 'Contact',
+    contactHint: '(optional, Discord name or email)',
+    website: 'Website',
+    send: 'Send idea',
+    sending: 'Sending...',
+    download: (count: number) => `Download my ideas (${count})`,
+    sent: 'Thanks! Your idea was sent.',
+    queued: 'Thanks! Your idea is saved in this browser. Download it below and share it in Discord.',
+    rateLimited: (minutes: number) => `You are sending ideas quickly. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    sendFailed: 'Could not send your idea. Please try again.',
+    errors: {
+      required: 'Pick a category',
+      tooShort: (min: number) => `Tell us a bit more (at least ${min} characters)`,
+      tooLong: (max: number) => `Keep it under ${max} characters`
+    }
+  }
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,41 @@
+import { createSignal } from 'solid-js';
+import { Locale, localePreference } from '../utils/localePreference';
+import { en, Messages } from './en';
+import { ar } from './ar';
+
+export type { Messages } from './en';
+
+// Message catalogs for every supported language
+const CATALOGS: Record<Locale, Messages> = { en, ar };
+
+// Reactive copy of the shared preference so components re-render on switch
+const [locale, setCurrentLocale] = createSignal<Locale>(localePreference.getLocale());
+localePreference.subscribe(() => setCurrentLocale(localePreference.getLocale()));
+
+/**
+ * Current language, tracked by Solid
+ */
+export { locale };
+
+/**
+ * Messages in the current language, tracked by Solid
+ */
+export function t(): Messages {
+  return CATALOGS[locale()];
+}
+
+/**
+ * Get the messages of a specific language
+ */
+export function getMessages(target: Locale): Messages {
+  return CATALOGS[target];
+}
+
+/**
+ * Format a date in the current language
+ * @param date - Date object, timestamp, or YYYY-MM-DD string (read as local midnight)
+ */
+export function formatDate(date: Date | number | string): string {
+  const value = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00` : date;
+  return new Date(value).toLocaleDateString(locale());
+}
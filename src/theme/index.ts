@@ -0,0 +1,44 @@
+import { createSignal } from 'solid-js';
+import { themePreference } from '../utils/themePreference';
+import { resolveTheme, ThemeTokens, toCssVariables } from './tokens';
+
+export { resolveTheme, isRamadan, SEASONS } from './tokens';
+export type {
+  ThemeName,
+  ThemeColors,
+  ThemeShadows,
+  ThemeTokens,
+  SeasonName,
+  SeasonalTheme
+} from './tokens';
+
+/**
+ * Write a theme to <html> as CSS variables and the browser color scheme
+ */
+function applyTheme(tokens: ThemeTokens): void {
+  if (typeof document === 'undefined') return;
+
+  const root = document.documentElement;
+  Object.entries(toCssVariables(tokens)).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.style.colorScheme = tokens.colorScheme;
+  root.dataset.theme = tokens.name;
+  if (tokens.season) {
+    root.dataset.season = tokens.season;
+  } else {
+    delete root.dataset.season;
+  }
+}
+
+// Reactive copy of the resolved theme so components re-render on switch
+const [theme, setTheme] = createSignal<ThemeTokens>(resolveTheme(themePreference.getTheme()));
+applyTheme(theme());
+themePreference.subscribe(() => {
+  const tokens = resolveTheme(themePreference.getTheme());
+  applyTheme(tokens);
+  setTheme(tokens);
+});
+
+/**
+ * Current theme tokens, tracked by Solid
+ */
+export { theme };
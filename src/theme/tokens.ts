@@ -0,0 +1,278 @@
+/**
+ * Design tokens for every theme
+ * Components use the matching Tailwind colors (e.g. `bg-page`, `text-primary-ink`),
+ * which read the CSS variables written from these objects.
+ */
+
+/**
+ * Base themes the visitor can pick
+ */
+export type ThemeName = 'dark' | 'light' | 'contrast';
+
+/**
+ * Color roles shared by all themes
+ */
+export interface ThemeColors {
+  /** Page background and modal panels */
+  page: string;
+  /** Raised surfaces such as the main container and secondary buttons */
+  panel: string;
+  panelHover: string;
+  /** Recessed areas: inputs, cards and game fields */
+  well: string;
+  line: string;
+  ink: string;
+  inkSoft: string;
+  inkMuted: string;
+  inkFaint: string;
+  /** Main action color */
+  primary: string;
+  primaryHover: string;
+  primaryBright: string;
+  /** Primary-tinted text: headings, links and labels, from strongest to lightest */
+  primaryInk: string;
+  primarySoft: string;
+  primaryFaint: string;
+  /** Text on primary backgrounds */
+  onPrimary: string;
+  /** Scores, hints and focus rings */
+  highlight: string;
+  highlightSoft: string;
+  success: string;
+  danger: string;
+  /** Drag game target */
+  target: string;
+  /** Flappy game obstacles */
+  obstacle: string;
+  /** Site title and its glow */
+  title: string;
+  /** Floating background icons */
+  icon: string;
+}
+
+/**
+ * Box shadows used by animations, which cannot read CSS variables
+ */
+export interface ThemeShadows {
+  /** Resting button */
+  rest: string;
+  /** Hovered button */
+  lift: string;
+  /** Drag game hit flash */
+  glow: string;
+}
+
+/**
+ * A fully resolved theme
+ */
+export interface ThemeTokens {
+  name: ThemeName;
+  /** Seasonal theme layered on top, if any */
+  season?: SeasonName;
+  colorScheme: 'dark' | 'light';
+  colors: ThemeColors;
+  shadows: ThemeShadows;
+  /** Font Awesome icon classes for the background */
+  icons: string[];
+}
+
+/**
+ * Date-activated themes
+ */
+export type SeasonName = 'ramadan';
+
+/**
+ * Seasonal theme layered on dark and light themes while its dates are active
+ */
+export interface SeasonalTheme {
+  name: SeasonName;
+  isActive: (date: Date) => boolean;
+  /** Color overrides per color scheme */
+  colors: Record<'dark' | 'light', Partial<ThemeColors>>;
+  icons: string[];
+}
+
+const DEFAULT_ICONS = [
+  'fa-rocket', 'fa-star', 'fa-moon', 'fa-sun', 'fa-heart',
+  'fa-bolt', 'fa-code', 'fa-music', 'fa-fire', 'fa-gamepad'
+];
+
+const DARK: ThemeColors = {
+  page: '#1f2937',
+  panel: '#374151',
+  panelHover: '#4b5563',
+  well: '#111827',
+  line: '#4b5563',
+  ink: '#ffffff',
+  inkSoft: '#d1d5db',
+  inkMuted: '#9ca3af',
+  inkFaint: '#6b7280',
+  primary: '#4f46e5',
+  primaryHover: '#4338ca',
+  primaryBright: '#6366f1',
+  primaryInk: '#818cf8',
+  primarySoft: '#a5b4fc',
+  primaryFaint: '#c7d2fe',
+  onPrimary: '#ffffff',
+  highlight: '#facc15',
+  highlightSoft: '#fde047',
+  success: '#4ade80',
+  danger: '#f87171',
+  target: '#22c55e',
+  obstacle: '#ef4444',
+  title: '#0ea5e9',
+  icon: '#6366f1'
+};
+
+const LIGHT: ThemeColors = {
+  page: '#f3f4f6',
+  panel: '#ffffff',
+  panelHover: '#e5e7eb',
+  well: '#e9ebf0',
+  line: '#d1d5db',
+  ink: '#111827',
+  inkSoft: '#374151',
+  inkMuted: '#4b5563',
+  inkFaint: '#6b7280',
+  primary: '#4f46e5',
+  primaryHover: '#4338ca',
+  primaryBright: '#6366f1',
+  primaryInk: '#4338ca',
+  primarySoft: '#4f46e5',
+  primaryFaint: '#3730a3',
+  onPrimary: '#ffffff',
+  highlight: '#b45309',
+  highlightSoft: '#d97706',
+  success: '#15803d',
+  danger: '#b91c1c',
+  target: '#16a34a',
+  obstacle: '#dc2626',
+  title: '#0369a1',
+  icon: '#6366f1'
+};
+
+const CONTRAST: ThemeColors = {
+  page: '#000000',
+  panel: '#000000',
+  panelHover: '#262626',
+  well: '#000000',
+  line: '#ffffff',
+  ink: '#ffffff',
+  inkSoft: '#ffffff',
+  inkMuted: '#f5f5f5',
+  inkFaint: '#d4d4d4',
+  primary: '#ffff00',
+  primaryHover: '#e5e500',
+  primaryBright: '#ffff00',
+  primaryInk: '#ffff00',
+  primarySoft: '#00ffff',
+  primaryFaint: '#ffffff',
+  onPrimary: '#000000',
+  highlight: '#ffff00',
+  highlightSoft: '#ffff00',
+  success: '#00ff00',
+  danger: '#ff8080',
+  target: '#008a00',
+  obstacle: '#ff0000',
+  title: '#00ffff',
+  icon: '#ffffff'
+};
+
+const BASE_COLORS: Record<ThemeName, ThemeColors> = { dark: DARK, light: LIGHT, contrast: CONTRAST };
+
+/**
+ * Check whether a date falls in Ramadan (month 9 of the Umm al-Qura calendar)
+ * Returns false where the browser does not know the Islamic calendar.
+ */
+export function isRamadan(date: Date): boolean {
+  try {
+    const month = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', { month: 'numeric' })
+      .formatToParts(date)
+      .find(part => part.type === 'month')?.value;
+    return month === '9';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Seasonal themes, checked in order
+ */
+export const SEASONS: SeasonalTheme[] = [
+  {
+    name: 'ramadan',
+    isActive: isRamadan,
+    colors: {
+      dark: {
+        page: '#1e1b4b',
+        well: '#0f0d2e',
+        primary: '#b45309',
+        primaryHover: '#92400e',
+        primaryBright: '#d97706',
+        primaryInk: '#fbbf24',
+        primarySoft: '#fcd34d',
+        primaryFaint: '#fde68a',
+        title: '#fbbf24',
+        icon: '#fbbf24'
+      },
+      light: {
+        page: '#fdf6e3',
+        primary: '#b45309',
+        primaryHover: '#92400e',
+        primaryBright: '#d97706',
+        primaryInk: '#92400e',
+        primarySoft: '#b45309',
+        primaryFaint: '#78350f',
+        title: '#1e3a8a',
+        icon: '#d97706'
+      }
+    },
+    icons: [
+      'fa-moon', 'fa-star', 'fa-star-and-crescent', 'fa-mosque',
+      'fa-kaaba', 'fa-mug-hot', 'fa-utensils', 'fa-hands-praying'
+    ]
+  }
+];
+
+/**
+ * Turn a #rrggbb color into rgba() with the given alpha
+ */
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+/**
+ * Resolve a base theme, adding the seasonal theme active on the given date
+ * High contrast is never mixed with a season so it stays readable.
+ */
+export function resolveTheme(name: ThemeName, date: Date = new Date()): ThemeTokens {
+  const colorScheme = name === 'light' ? 'light' : 'dark';
+  const season = name === 'contrast' ? undefined : SEASONS.find(candidate => candidate.isActive(date));
+  const colors = { ...BASE_COLORS[name], ...season?.colors[colorScheme] };
+
+  return {
+    name,
+    season: season?.name,
+    colorScheme,
+    colors,
+    shadows: {
+      rest: '0 4px 6px rgba(0, 0, 0, 0.1)',
+      lift: `0 10px 15px ${withAlpha(colors.primaryBright, 0.4)}`,
+      glow: `0 0 30px ${withAlpha(colors.primaryBright, 0.8)}`
+    },
+    icons: season?.icons ?? DEFAULT_ICONS
+  };
+}
+
+/**
+ * CSS variables for a theme, e.g. `--theme-primary-ink`
+ */
+export function toCssVariables(tokens: ThemeTokens): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(tokens.colors).map(([role, value]) => [
+      `--theme-${role.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`,
+      value
+    ])
+  );
+}
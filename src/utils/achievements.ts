@@ -0,0 +1,252 @@
+/**
+ * Utility for tracking player stats and the achievements they unlock
+ */
+
+/**
+ * Stats that achievements are measured against
+ */
+export interface PlayerStats {
+  /** Targets hit over all runs, by game id */
+  hits: Record<string, number>;
+  /** Highest score reached, by game id (counted as soon as it is reached) */
+  bestScores: Record<string, number>;
+  titleClicks: number;
+  /** Number of different days with a visit */
+  visitDays: number;
+  /** Local date of the last visit, as YYYY-MM-DD */
+  lastVisit?: string;
+  /** Secrets found, e.g. `konami` */
+  secrets: string[];
+}
+
+/**
+ * When an achievement is unlocked
+ */
+export interface AchievementRule {
+  id: string;
+  /** Progress needed to unlock */
+  target: number;
+  /** Current progress from the stats */
+  progress: (stats: PlayerStats) => number;
+}
+
+/**
+ * Shape of the persisted data
+ */
+export interface AchievementData {
+  version: 1;
+  stats: PlayerStats;
+  /** ISO date each achievement was unlocked on, by id */
+  unlocked: Record<string, string>;
+}
+
+/**
+ * Format a date as a local YYYY-MM-DD day
+ */
+export function toLocalDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Stats of a new player
+ */
+function emptyStats(): PlayerStats {
+  return { hits: {}, bestScores: {}, titleClicks: 0, visitDays: 0, secrets: [] };
+}
+
+/**
+ * Read a parsed count as a non-negative whole number
+ */
+function parseCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+/**
+ * Read a parsed record of counts, dropping anything that is not a number
+ */
+function parseCounts(value: unknown): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (typeof value !== 'object' || value === null) return counts;
+
+  for (const [key, count] of Object.entries(value)) {
+    if (typeof count === 'number') counts[key] = parseCount(count);
+  }
+  return counts;
+}
+
+/**
+ * Validate parsed achievement data and return a clean copy
+ * @throws Error if the data does not have the expected shape
+ */
+export function parseAchievementData(value: unknown): AchievementData {
+  const data = value as Partial<AchievementData> | null;
+  if (!data || data.version !== 1 || typeof data.stats !== 'object' || data.stats === null) {
+    throw new Error('Unsupported achievement data format');
+  }
+
+  const stats = data.stats as Partial<PlayerStats>;
+  const unlocked: Record<string, string> = {};
+  for (const [id, date] of Object.entries(data.unlocked ?? {})) {
+    if (typeof date === 'string' && !Number.isNaN(Date.parse(date))) unlocked[id] = date;
+  }
+
+  return {
+    version: 1,
+    stats: {
+      hits: parseCounts(stats.hits),
+      bestScores: parseCounts(stats.bestScores),
+      titleClicks: parseCount(stats.titleClicks),
+      visitDays: parseCount(stats.visitDays),
+      lastVisit: typeof stats.lastVisit === 'string' ? stats.lastVisit : undefined,
+      secrets: Array.isArray(stats.secrets) ? stats.secrets.filter((s): s is string => typeof s === 'string') : []
+    },
+    unlocked
+  };
+}
+
+/**
+ * Achievement storage class for player stats and unlocked achievements
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class AchievementStorage {
+  private data: AchievementData;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for AchievementStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.achievements',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.data = this.load();
+  }
+
+  /**
+   * Get the current stats
+   */
+  getStats(): Readonly<PlayerStats> {
+    return this.data.stats;
+  }
+
+  /**
+   * Get when an achievement was unlocked
+   * @returns ISO date string, or undefined while it is locked
+   */
+  getUnlockedAt(id: string): string | undefined {
+    return this.data.unlocked[id];
+  }
+
+  /**
+   * Count a target hit in a game
+   */
+  addHit(gameId: string): void {
+    this.data.stats.hits[gameId] = (this.data.stats.hits[gameId] ?? 0) + 1;
+    this.save();
+  }
+
+  /**
+   * Record a score reached in a game, keeping the highest
+   */
+  recordScore(gameId: string, score: number): void {
+    if (score <= (this.data.stats.bestScores[gameId] ?? 0)) return;
+    this.data.stats.bestScores[gameId] = score;
+    this.save();
+  }
+
+  /**
+   * Count a click on the site title
+   */
+  addTitleClick(): void {
+    this.data.stats.titleClicks++;
+    this.save();
+  }
+
+  /**
+   * Count a visit, once per day
+   */
+  recordVisit(date: Date = new Date()): void {
+    const day = toLocalDay(date);
+    if (this.data.stats.lastVisit === day) return;
+
+    this.data.stats.lastVisit = day;
+    this.data.stats.visitDays++;
+    this.save();
+  }
+
+  /**
+   * Record a found secret
+   */
+  addSecret(secret: string): void {
+    if (this.data.stats.secrets.includes(secret)) return;
+    this.data.stats.secrets.push(secret);
+    this.save();
+  }
+
+  /**
+   * Unlock every achievement whose target is now reached
+   * Unlocked achievements stay unlocked even if their progress later drops.
+   * @returns Ids of the newly unlocked achievements
+   */
+  evaluate(rules: readonly AchievementRule[], date: Date = new Date()): string[] {
+    const fresh = rules
+      .filter(rule => !this.data.unlocked[rule.id] && rule.progress(this.data.stats) >= rule.target)
+      .map(rule => rule.id);
+
+    if (fresh.length > 0) {
+      fresh.forEach(id => { this.data.unlocked[id] = date.toISOString(); });
+      this.save();
+    }
+    return fresh;
+  }
+
+  /**
+   * Forget all stats and achievements
+   */
+  clear(): void {
+    this.data = { version: 1, stats: emptyStats(), unlocked: {} };
+    this.save();
+  }
+
+  /**
+   * Listen for stat and achievement changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read saved data, ignoring anything corrupt
+   */
+  private load(): AchievementData {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      if (raw) return parseAchievementData(JSON.parse(raw));
+    } catch (e) {
+      console.warn('Ignoring unreadable achievements', e);
+    }
+    return { version: 1, stats: emptyStats(), unlocked: {} };
+  }
+
+  /**
+   * Persist data and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.data));
+    } catch (e) {
+      console.warn('Failed to save achievements', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared achievement storage used across the site
+ */
+export const achievementStorage = new AchievementStorage();
@@ -0,0 +1,613 @@
+/**
+ * Typed animation service
+ * Uses GSAP (loaded from the CDN in index.html) when it is available and falls back to
+ * the Web Animations API, or to jumping straight to the final state, when it is not.
+ * Components should animate through `animation` instead of touching the `gsap` global.
+ */
+
+/**
+ * Something that can be animated: an element, a list of elements or a CSS selector
+ */
+export type AnimationTarget = Element | ArrayLike<Element> | string | null | undefined;
+
+/**
+ * A property value, or a function computing it per target
+ * Strings starting with `+=` or `-=` are relative to the current value.
+ */
+export type TweenValue = number | string | ((index: number, target: Element) => number | string);
+
+/**
+ * Properties the service knows how to animate
+ */
+export interface AnimatedProperties {
+  /** Horizontal translation, in px when a number */
+  x?: TweenValue;
+  /** Vertical translation, in px when a number */
+  y?: TweenValue;
+  scale?: TweenValue;
+  /** Rotation in degrees */
+  rotation?: TweenValue;
+  /** Alias of rotation */
+  rotate?: TweenValue;
+  /** Rotation around the vertical axis in degrees */
+  rotationY?: TweenValue;
+  opacity?: TweenValue;
+  left?: TweenValue;
+  top?: TweenValue;
+  width?: TweenValue;
+  height?: TweenValue;
+  boxShadow?: TweenValue;
+}
+
+/**
+ * How delays are spread over several targets
+ */
+export interface StaggerVars {
+  /** Seconds between two targets */
+  each: number;
+  /** Where the stagger starts */
+  from?: 'start' | 'center' | 'end' | 'random';
+}
+
+/**
+ * Options of a tween
+ */
+export interface TweenVars extends AnimatedProperties {
+  /** Seconds, defaults to 0.5 */
+  duration?: number;
+  /** Seconds before starting */
+  delay?: number;
+  /** GSAP ease name, e.g. `power2.out` */
+  ease?: string;
+  /** Extra runs after the first, -1 repeats forever */
+  repeat?: number;
+  /** Play every other repeat backwards */
+  yoyo?: boolean;
+  stagger?: number | StaggerVars;
+  /** Called once every target finished */
+  onComplete?: () => void;
+}
+
+/**
+ * A running animation
+ */
+export interface AnimationHandle {
+  /** Stop the animation where it is */
+  kill(): void;
+}
+
+/**
+ * A sequence of tweens played one after another
+ */
+export interface AnimationTimeline extends AnimationHandle {
+  /** Append a tween to the sequence */
+  to(target: AnimationTarget, vars: TweenVars): AnimationTimeline;
+}
+
+/**
+ * Options of a draggable element
+ */
+export interface DraggableOptions {
+  /** Element the dragged element must stay inside */
+  bounds: Element;
+  onDragStart?: () => void;
+  onDrag?: () => void;
+  onDragEnd?: () => void;
+}
+
+/**
+ * An element that can be dragged around
+ */
+export interface DraggableHandle {
+  enable(): void;
+  disable(): void;
+  /** Stop dragging for good and remove listeners */
+  kill(): void;
+}
+
+/**
+ * Operations the components use to animate
+ */
+export interface AnimationService {
+  /** Whether GSAP is doing the work */
+  readonly usingGsap: boolean;
+  /** Animate from the current values to `vars` */
+  to(target: AnimationTarget, vars: TweenVars): AnimationHandle;
+  /** Jump to `from`, then animate to `to` */
+  fromTo(target: AnimationTarget, from: AnimatedProperties, to: TweenVars): AnimationHandle;
+  /** Apply values immediately */
+  set(target: AnimationTarget, vars: AnimatedProperties): void;
+  /** Create a sequence of tweens that starts on the next tick */
+  timeline(options?: { repeat?: number }): AnimationTimeline;
+  /** Make an element draggable inside bounds */
+  draggable(element: HTMLElement, options: DraggableOptions): DraggableHandle;
+}
+
+// The parts of the GSAP globals this module relies on
+interface GsapTween {
+  kill(): void;
+}
+interface GsapTimeline extends GsapTween {
+  to(target: unknown, vars: object): GsapTimeline;
+}
+interface GsapGlobal {
+  to(target: unknown, vars: object): GsapTween;
+  fromTo(target: unknown, from: object, to: object): GsapTween;
+  set(target: unknown, vars: object): void;
+  timeline(vars?: object): GsapTimeline;
+  registerPlugin?(...plugins: unknown[]): void;
+}
+interface GsapDraggableGlobal {
+  create(target: Element, vars: object): DraggableHandle[];
+}
+type GsapWindow = typeof globalThis & {
+  gsap?: GsapGlobal;
+  Draggable?: GsapDraggableGlobal;
+  ScrollTrigger?: unknown;
+};
+
+let pluginsRegistered = false;
+
+/**
+ * Get the GSAP global, registering its plugins the first time
+ */
+function getGsap(): GsapGlobal | undefined {
+  const { gsap, Draggable, ScrollTrigger } = globalThis as GsapWindow;
+  if (!gsap) return undefined;
+
+  if (!pluginsRegistered) {
+    pluginsRegistered = true;
+    try {
+      const plugins = [Draggable, ScrollTrigger].filter(Boolean);
+      if (plugins.length > 0) gsap.registerPlugin?.(...plugins);
+    } catch (e) {
+      console.warn('Failed to register GSAP plugins', e);
+    }
+  }
+  return gsap;
+}
+
+/**
+ * Check whether GSAP is loaded
+ */
+export function isGsapAvailable(): boolean {
+  return getGsap() !== undefined;
+}
+
+/**
+ * Animation service backed by GSAP
+ */
+export function createGsapAnimation(gsap: GsapGlobal, Draggable?: GsapDraggableGlobal): AnimationService {
+  const fallback = createFallbackAnimation();
+
+  return {
+    usingGsap: true,
+    to: (target, vars) => gsap.to(target, vars),
+    fromTo: (target, from, to) => gsap.fromTo(target, from, to),
+    set: (target, vars) => gsap.set(target, vars),
+    timeline: (options = {}) => gsap.timeline(options),
+    draggable: (element, options) => {
+      if (!Draggable) return fallback.draggable(element, options);
+
+      return Draggable.create(element, {
+        type: 'x,y',
+        edgeResistance: 0.65,
+        inertia: true,
+        ...options
+      })[0];
+    }
+  };
+}
+
+// Transform components tracked per element by the fallback
+interface TransformState {
+  x: string;
+  y: string;
+  scale: number;
+  rotation: number;
+  rotationY: number;
+}
+
+type StyleProperty = 'opacity' | 'left' | 'top' | 'width' | 'height' | 'boxShadow';
+
+const STYLE_PROPERTIES: StyleProperty[] = ['opacity', 'left', 'top', 'width', 'height', 'boxShadow'];
+const DEFAULT_DURATION = 0.5;
+
+const transforms = new WeakMap<Element, TransformState>();
+
+/**
+ * Resolve a target to a list of elements
+ */
+function toElements(target: AnimationTarget): Element[] {
+  if (!target) return [];
+  if (typeof target === 'string') return [...document.querySelectorAll(target)];
+  if (target instanceof Element) return [target];
+  return Array.from(target);
+}
+
+/**
+ * Read the tracked transform of an element
+ * A `translate()` or `rotate()` already present in the inline style is picked up the first time.
+ */
+function getTransform(element: Element): TransformState {
+  let state = transforms.get(element);
+  if (!state) {
+    const inline = (element as HTMLElement).style?.transform ?? '';
+    const translate = /translate\(([^,)]+),\s*([^)]+)\)/.exec(inline);
+    const rotation = /rotate\((-?[\d.]+)deg\)/.exec(inline);
+    state = {
+      x: translate ? translate[1].trim() : '0px',
+      y: translate ? translate[2].trim() : '0px',
+      scale: 1,
+      rotation: rotation ? Number(rotation[1]) : 0,
+      rotationY: 0
+    };
+    transforms.set(element, state);
+  }
+  return state;
+}
+
+/**
+ * Build the CSS transform for a transform state
+ */
+function toTransform(state: TransformState): string {
+  return `translate(${state.x}, ${state.y}) rotate(${state.rotation}deg) rotateY(${state.rotationY}deg) scale(${state.scale})`;
+}
+
+/**
+ * Apply a number value, which may be relative to the current one
+ */
+function resolveNumber(current: number, value: number | string): number {
+  if (typeof value === 'number') return value;
+
+  const relative = /^([+-])=(-?[\d.]+)/.exec(value);
+  if (relative) {
+    return current + (relative[1] === '+' ? 1 : -1) * Number(relative[2]);
+  }
+  return parseFloat(value) || 0;
+}
+
+/**
+ * Apply a length value, which may be relative to the current one
+ */
+function resolveLength(current: string, value: number | string): string {
+  if (typeof value === 'number') return `${value}px`;
+
+  const relative = /^([+-])=(-?[\d.]+)([a-z%]*)/.exec(value);
+  if (relative) {
+    const unit = relative[3] || current.replace(/^-?[\d.]+/, '') || 'px';
+    return `${resolveNumber(parseFloat(current) || 0, `${relative[1]}=${relative[2]}`)}${unit}`;
+  }
+  return value;
+}
+
+/**
+ * Compute the end state of one element for a set of properties
+ */
+function resolveProperties(
+  element: Element,
+  index: number,
+  vars: AnimatedProperties
+): { transform: TransformState; styles: Partial<Record<StyleProperty, string>> } {
+  const value = (property: TweenValue | undefined) =>
+    typeof property === 'function' ? property(index, element) : property;
+
+  const current = getTransform(element);
+  const transform = { ...current };
+  const x = value(vars.x);
+  const y = value(vars.y);
+  const scale = value(vars.scale);
+  const rotation = value(vars.rotation ?? vars.rotate);
+  const rotationY = value(vars.rotationY);
+
+  if (x !== undefined) transform.x = resolveLength(current.x, x);
+  if (y !== undefined) transform.y = resolveLength(current.y, y);
+  if (scale !== undefined) transform.scale = resolveNumber(current.scale, scale);
+  if (rotation !== undefined) transform.rotation = resolveNumber(current.rotation, rotation);
+  if (rotationY !== undefined) transform.rotationY = resolveNumber(current.rotationY, rotationY);
+
+  const styles: Partial<Record<StyleProperty, string>> = {};
+  STYLE_PROPERTIES.forEach(property => {
+    const resolved = value(vars[property]);
+    if (resolved === undefined) return;
+    styles[property] = property === 'opacity'
+      ? String(resolveNumber(Number(getComputedStyle(element).opacity), resolved))
+      : resolveLength(getComputedStyle(element)[property], resolved);
+  });
+
+  return { transform, styles };
+}
+
+/**
+ * Apply an end state to an element immediately
+ */
+function applyState(element: Element, transform: TransformState, styles: Partial<Record<StyleProperty, string>>): void {
+  transforms.set(element, transform);
+  const style = (element as HTMLElement).style;
+  if (!style) return;
+
+  style.transform = toTransform(transform);
+  Object.assign(style, styles);
+}
+
+/**
+ * Translate a GSAP ease name to a CSS easing
+ */
+function toCssEasing(ease: string | undefined): string {
+  if (!ease || ease === 'none') return ease ? 'linear' : 'ease-out';
+  if (ease.startsWith('back') || ease.startsWith('elastic')) return 'cubic-bezier(0.34, 1.56, 0.64, 1)';
+  if (ease.endsWith('.inOut')) return 'ease-in-out';
+  if (ease.endsWith('.in') || ease.includes('.in(')) return 'ease-in';
+  return 'ease-out';
+}
+
+/**
+ * Compute the stagger delay of each target, in seconds
+ */
+function staggerDelays(count: number, stagger: TweenVars['stagger']): number[] {
+  if (!stagger) return new Array(count).fill(0);
+
+  const { each, from = 'start' } = typeof stagger === 'number' ? { each: stagger } : stagger;
+  const order = [...Array(count).keys()];
+
+  if (from === 'end') order.reverse();
+  if (from === 'random') order.sort(() => Math.random() - 0.5);
+  if (from === 'center') {
+    const middle = (count - 1) / 2;
+    return order.map(index => Math.abs(index - middle) * each);
+  }
+
+  const delays = new Array(count).fill(0);
+  order.forEach((index, position) => {
+    delays[index] = position * each;
+  });
+  return delays;
+}
+
+/**
+ * Animation service using the Web Animations API
+ * Elements that cannot animate jump to their final state.
+ */
+export function createFallbackAnimation(): AnimationService {
+  const canAnimate = (element: Element) => typeof (element as HTMLElement).animate === 'function';
+
+  const to = (target: AnimationTarget, vars: TweenVars): AnimationHandle => {
+    const elements = toElements(target);
+    const delays = staggerDelays(elements.length, vars.stagger);
+    const animations: Animation[] = [];
+    let remaining = elements.length;
+    let killed = false;
+
+    const finishOne = () => {
+      remaining--;
+      if (remaining === 0 && !killed) vars.onComplete?.();
+    };
+
+    if (elements.length === 0) {
+      setTimeout(() => vars.onComplete?.(), 0);
+    }
+
+    elements.forEach((element, index) => {
+      const startTransform = getTransform(element);
+      const { transform, styles } = resolveProperties(element, index, vars);
+      const duration = (vars.duration ?? DEFAULT_DURATION) * 1000;
+      const repeat = vars.repeat ?? 0;
+
+      // Infinite or instant animations without animation support just settle
+      if (!canAnimate(element) || duration === 0) {
+        applyState(element, transform, styles);
+        setTimeout(finishOne, 0);
+        return;
+      }
+
+      const computed = getComputedStyle(element);
+      const fromFrame: Keyframe = { transform: toTransform(startTransform) };
+      const toFrame: Keyframe = { transform: toTransform(transform) };
+      (Object.keys(styles) as StyleProperty[]).forEach(property => {
+        fromFrame[property] = computed[property];
+        toFrame[property] = styles[property];
+      });
+
+      const animation = (element as HTMLElement).animate([fromFrame, toFrame], {
+        duration,
+        delay: ((vars.delay ?? 0) + delays[index]) * 1000,
+        easing: toCssEasing(vars.ease),
+        iterations: repeat < 0 ? Infinity : repeat + 1,
+        direction: vars.yoyo ? 'alternate' : 'normal',
+        fill: 'both'
+      });
+      animations.push(animation);
+
+      animation.onfinish = () => {
+        // A yoyo with an even number of runs ends where it started
+        const backAtStart = vars.yoyo && (repeat + 1) % 2 === 0;
+        if (backAtStart) {
+          applyState(element, startTransform, Object.fromEntries(
+            Object.keys(styles).map(property => [property, fromFrame[property]])
+          ));
+        } else {
+          applyState(element, transform, styles);
+        }
+        animation.cancel();
+        finishOne();
+      };
+    });
+
+    return {
+      kill: () => {
+        killed = true;
+        animations.forEach(animation => {
+          animation.onfinish = null;
+          animation.commitStyles?.();
+          animation.cancel();
+        });
+      }
+    };
+  };
+
+  const set = (target: AnimationTarget, vars: AnimatedProperties) => {
+    toElements(target).forEach((element, index) => {
+      const { transform, styles } = resolveProperties(element, index, vars);
+      applyState(element, transform, styles);
+    });
+  };
+
+  const timeline = (options: { repeat?: number } = {}): AnimationTimeline => {
+    const steps: [AnimationTarget, TweenVars][] = [];
+    const repeat = options.repeat ?? 0;
+    let current: AnimationHandle | undefined;
+    let killed = false;
+    let runs = 0;
+
+    const play = (index: number) => {
+      if (killed) return;
+
+      if (index >= steps.length) {
+        runs++;
+        // Without animation support every step is instant, so do not loop
+        const animated = steps.some(([target]) => toElements(target).some(canAnimate));
+        if (animated && (repeat < 0 || runs <= repeat)) play(0);
+        return;
+      }
+
+      const [target, vars] = steps[index];
+      current = to(target, {
+        ...vars,
+        onComplete: () => {
+          vars.onComplete?.();
+          play(index + 1);
+        }
+      });
+    };
+
+    // Start once the steps have been added, like a GSAP timeline
+    setTimeout(() => play(0), 0);
+
+    const handle: AnimationTimeline = {
+      to: (target, vars) => {
+        steps.push([target, vars]);
+        return handle;
+      },
+      kill: () => {
+        killed = true;
+        current?.kill();
+      }
+    };
+    return handle;
+  };
+
+  const draggable = (element: HTMLElement, options: DraggableOptions): DraggableHandle => {
+    let enabled = true;
+    let pointerId: number | null = null;
+    let start = { x: 0, y: 0 };
+    let origin = { x: 0, y: 0 };
+    let limits = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+    const previousTouchAction = element.style.touchAction;
+
+    const handleDown = (e: PointerEvent) => {
+      if (!enabled || pointerId !== null) return;
+
+      pointerId = e.pointerId;
+      element.setPointerCapture?.(e.pointerId);
+      const state = getTransform(element);
+      const rect = element.getBoundingClientRect();
+      const bounds = options.bounds.getBoundingClientRect();
+      start = { x: e.clientX, y: e.clientY };
+      origin = { x: parseFloat(state.x) || 0, y: parseFloat(state.y) || 0 };
+      limits = {
+        minX: bounds.left - rect.left,
+        maxX: bounds.right - rect.right,
+        minY: bounds.top - rect.top,
+        maxY: bounds.bottom - rect.bottom
+      };
+      options.onDragStart?.();
+      e.preventDefault();
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+
+      const dx = Math.min(limits.maxX, Math.max(limits.minX, e.clientX - start.x));
+      const dy = Math.min(limits.maxY, Math.max(limits.minY, e.clientY - start.y));
+      const state = getTransform(element);
+      applyState(element, { ...state, x: `${origin.x + dx}px`, y: `${origin.y + dy}px` }, {});
+      options.onDrag?.();
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (e.pointerId !== pointerId) return;
+
+      pointerId = null;
+      options.onDragEnd?.();
+    };
+
+    element.style.touchAction = 'none';
+    element.addEventListener('pointerdown', handleDown);
+    element.addEventListener('pointermove', handleMove);
+    element.addEventListener('pointerup', handleUp);
+    element.addEventListener('pointercancel', handleUp);
+
+    return {
+      enable: () => {
+        enabled = true;
+      },
+      disable: () => {
+        enabled = false;
+        pointerId = null;
+      },
+      kill: () => {
+        enabled = false;
+        element.style.touchAction = previousTouchAction;
+        element.removeEventListener('pointerdown', handleDown);
+        element.removeEventListener('pointermove', handleMove);
+        element.removeEventListener('pointerup', handleUp);
+        element.removeEventListener('pointercancel', handleUp);
+      }
+    };
+  };
+
+  return {
+    usingGsap: false,
+    to,
+    fromTo: (target, from, vars) => {
+      set(target, from);
+      return to(target, vars);
+    },
+    set,
+    timeline,
+    draggable
+  };
+}
+
+let activeService: AnimationService | undefined;
+
+/**
+ * Get the service matching what is loaded
+ * Decided on first use, after the CDN scripts in index.html have run.
+ */
+function getService(): AnimationService {
+  if (!activeService) {
+    const gsap = getGsap();
+    if (gsap) {
+      activeService = createGsapAnimation(gsap, (globalThis as GsapWindow).Draggable);
+    } else {
+      console.warn('GSAP not available, using fallback animations');
+      activeService = createFallbackAnimation();
+    }
+  }
+  return activeService;
+}
+
+/**
+ * Shared animation service used across the site
+ */
+export const animation: AnimationService = {
+  get usingGsap() {
+    return getService().usingGsap;
+  },
+  to: (target, vars) => getService().to(target, vars),
+  fromTo: (target, from, to) => getService().fromTo(target, from, to),
+  set: (target, vars) => getService().set(target, vars),
+  timeline: options => getService().timeline(options),
+  draggable: (element, options) => getService().draggable(element, options)
+};
@@ -0,0 +1,288 @@
+/**
+ * Utility for sound effects and music
+ * Everything is synthesized with the Web Audio API from the note data below, so there
+ * are no audio files to load. Browsers only allow sound after the visitor interacts
+ * with the page, so the engine stays silent until the first click, tap or key press.
+ */
+import { AUDIO_CHANNELS, AudioChannel, audioPreference, AudioPreference } from './audioPreference';
+
+/**
+ * Sound effects the site can play
+ */
+export type SoundEffect = 'flap' | 'dive' | 'pass' | 'crash' | 'hit' | 'hazard' | 'roundOver' | 'unlock';
+
+/**
+ * One synthesized note of a sound effect
+ */
+interface Tone {
+  wave: OscillatorType | 'noise';
+  /** Start frequency in Hz (ignored for noise) */
+  frequency: number;
+  /** Frequency to slide to by the end of the note */
+  slideTo?: number;
+  /** Seconds */
+  duration: number;
+  /** Seconds after the effect starts */
+  delay?: number;
+  /** Peak volume from 0 to 1 (default: 0.5) */
+  gain?: number;
+}
+
+const SOUND_EFFECTS: Record<SoundEffect, Tone[]> = {
+  flap: [{ wave: 'square', frequency: 440, slideTo: 880, duration: 0.08, gain: 0.3 }],
+  dive: [{ wave: 'square', frequency: 660, slideTo: 220, duration: 0.1, gain: 0.25 }],
+  pass: [
+    { wave: 'square', frequency: 988, duration: 0.06, gain: 0.3 },
+    { wave: 'square', frequency: 1319, duration: 0.1, delay: 0.06, gain: 0.3 }
+  ],
+  crash: [
+    { wave: 'noise', frequency: 0, duration: 0.4, gain: 0.6 },
+    { wave: 'sawtooth', frequency: 220, slideTo: 40, duration: 0.5, gain: 0.4 }
+  ],
+  hit: [
+    { wave: 'triangle', frequency: 523, duration: 0.06 },
+    { wave: 'triangle', frequency: 784, duration: 0.12, delay: 0.05 }
+  ],
+  hazard: [{ wave: 'sawtooth', frequency: 180, slideTo: 90, duration: 0.25, gain: 0.4 }],
+  roundOver: [
+    { wave: 'square', frequency: 784, duration: 0.12, gain: 0.3 },
+    { wave: 'square', frequency: 659, duration: 0.12, delay: 0.12, gain: 0.3 },
+    { wave: 'square', frequency: 523, duration: 0.3, delay: 0.24, gain: 0.3 }
+  ],
+  unlock: [
+    { wave: 'triangle', frequency: 523, duration: 0.1 },
+    { wave: 'triangle', frequency: 659, duration: 0.1, delay: 0.1 },
+    { wave: 'triangle', frequency: 784, duration: 0.1, delay: 0.2 },
+    { wave: 'triangle', frequency: 1047, duration: 0.3, delay: 0.3 }
+  ]
+};
+
+// Background track: one MIDI note per eighth (null rests), looped
+const MUSIC_TEMPO = 132;
+const MUSIC_MELODY: (number | null)[] = [
+  72, null, 76, 79, 76, null, 72, null, 74, null, 77, 81, 77, null, 74, null,
+  76, null, 79, 83, 79, null, 76, 79, 77, 76, 74, 72, 74, null, null, null
+];
+const MUSIC_BASS: (number | null)[] = [
+  48, null, 48, null, 55, null, 55, null, 50, null, 50, null, 57, null, 57, null,
+  52, null, 52, null, 59, null, 59, null, 53, null, 55, null, 43, null, 55, null
+];
+
+// How far ahead music notes are scheduled, and how often, in seconds
+const MUSIC_LOOKAHEAD = 0.1;
+const MUSIC_TICK = 0.025;
+
+// Older Safari only has the prefixed constructor
+type AudioWindow = Window & { AudioContext?: typeof AudioContext; webkitAudioContext?: typeof AudioContext };
+
+// Gestures that let the page start audio
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchend'];
+
+/**
+ * Convert a MIDI note number to a frequency in Hz
+ */
+function midiToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Sound engine with one bus per volume channel
+ */
+export class AudioEngine {
+  private context: AudioContext | undefined;
+  private buses: Partial<Record<AudioChannel, GainNode>> = {};
+  private noise: AudioBuffer | undefined;
+  private musicTimer: ReturnType<typeof setInterval> | undefined;
+  private musicStep = 0;
+  private nextNoteTime = 0;
+  private musicWanted = false;
+
+  /**
+   * Constructor for AudioEngine
+   * @param preference - Settings the volumes follow
+   * @param win - Window to listen for the unlocking gesture on (defaults to the global window)
+   */
+  constructor(
+    private preference: AudioPreference = audioPreference,
+    private win: Window | undefined = typeof window !== 'undefined' ? window : undefined
+  ) {
+    UNLOCK_EVENTS.forEach(type => this.win?.addEventListener(type, this.unlock, { capture: true }));
+    this.preference.subscribe(() => this.applyVolumes());
+  }
+
+  /**
+   * Whether the browser has let the page start audio
+   */
+  isUnlocked(): boolean {
+    return this.context?.state === 'running';
+  }
+
+  /**
+   * Play a sound effect, if sound is allowed and not muted
+   */
+  play(effect: SoundEffect): void {
+    const context = this.context;
+    const bus = this.buses.sfx;
+    if (!context || !bus || !this.isUnlocked() || this.preference.isMuted()) return;
+
+    const start = context.currentTime;
+    SOUND_EFFECTS[effect].forEach(tone => this.playTone(tone, start + (tone.delay ?? 0), bus));
+  }
+
+  /**
+   * Start the looping background track
+   * If audio is still locked, the track starts with the first gesture.
+   */
+  startMusic(): void {
+    this.musicWanted = true;
+    if (!this.context || this.musicTimer !== undefined) return;
+
+    this.musicStep = 0;
+    this.nextNoteTime = this.context.currentTime + 0.05;
+    this.musicTimer = setInterval(() => this.scheduleMusic(), MUSIC_TICK * 1000);
+  }
+
+  /**
+   * Stop the background track
+   */
+  stopMusic(): void {
+    this.musicWanted = false;
+    if (this.musicTimer !== undefined) clearInterval(this.musicTimer);
+    this.musicTimer = undefined;
+  }
+
+  /**
+   * Create or resume the audio context from a user gesture
+   */
+  private unlock = (): void => {
+    if (!this.context) {
+      const win = this.win as AudioWindow | undefined;
+      const Context = win?.AudioContext ?? win?.webkitAudioContext;
+      if (!Context) return;
+
+      try {
+        this.context = new Context();
+      } catch (e) {
+        console.warn('Sound is not available', e);
+        this.detach();
+        return;
+      }
+      this.createGraph(this.context);
+    }
+
+    this.context.resume().then(() => {
+      if (this.isUnlocked()) {
+        this.detach();
+        if (this.musicWanted) this.startMusic();
+      }
+    }).catch(e => console.warn('Failed to start sound', e));
+  };
+
+  /**
+   * Stop listening for unlocking gestures
+   */
+  private detach(): void {
+    UNLOCK_EVENTS.forEach(type => this.win?.removeEventListener(type, this.unlock, { capture: true }));
+  }
+
+  /**
+   * Build the gain buses (sfx and music feed master) and the noise sample
+   */
+  private createGraph(context: AudioContext): void {
+    const master = context.createGain();
+    master.connect(context.destination);
+    this.buses.master = master;
+
+    for (const channel of AUDIO_CHANNELS) {
+      if (channel === 'master') continue;
+      const bus = context.createGain();
+      bus.connect(master);
+      this.buses[channel] = bus;
+    }
+
+    this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = this.noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    this.applyVolumes();
+  }
+
+  /**
+   * Match the buses to the settings, fading briefly to avoid clicks
+   */
+  private applyVolumes(): void {
+    const context = this.context;
+    if (!context) return;
+
+    const { muted, volumes } = this.preference.getSettings();
+    for (const channel of AUDIO_CHANNELS) {
+      const value = channel === 'master' && muted ? 0 : volumes[channel];
+      this.buses[channel]?.gain.setTargetAtTime(value, context.currentTime, 0.02);
+    }
+  }
+
+  /**
+   * Play one note with a short attack and a decaying tail
+   */
+  private playTone(tone: Tone, start: number, bus: GainNode): void {
+    const context = this.context!;
+    const end = start + tone.duration;
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(tone.gain ?? 0.5, start + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, end);
+    envelope.connect(bus);
+
+    let source: AudioScheduledSourceNode;
+    if (tone.wave === 'noise') {
+      const noise = context.createBufferSource();
+      noise.buffer = this.noise!;
+      source = noise;
+    } else {
+      const oscillator = context.createOscillator();
+      oscillator.type = tone.wave;
+      oscillator.frequency.setValueAtTime(tone.frequency, start);
+      if (tone.slideTo) oscillator.frequency.exponentialRampToValueAtTime(tone.slideTo, end);
+      source = oscillator;
+    }
+
+    source.connect(envelope);
+    source.start(start);
+    source.stop(end + 0.02);
+    source.onended = () => envelope.disconnect();
+  }
+
+  /**
+   * Schedule the track's notes that fall within the lookahead window
+   */
+  private scheduleMusic(): void {
+    const context = this.context;
+    const bus = this.buses.music;
+    if (!context || !bus) return;
+
+    const eighth = 60 / MUSIC_TEMPO / 2;
+
+    // After a stall (e.g. a background tab) pick the beat up from now instead of catching up
+    if (this.nextNoteTime < context.currentTime) this.nextNoteTime = context.currentTime + 0.05;
+
+    while (this.nextNoteTime < context.currentTime + MUSIC_LOOKAHEAD) {
+      const melody = MUSIC_MELODY[this.musicStep];
+      const bass = MUSIC_BASS[this.musicStep];
+      if (melody !== null) {
+        this.playTone({ wave: 'square', frequency: midiToFrequency(melody), duration: eighth * 0.9, gain: 0.15 }, this.nextNoteTime, bus);
+      }
+      if (bass !== null) {
+        this.playTone({ wave: 'triangle', frequency: midiToFrequency(bass), duration: eighth * 1.8, gain: 0.3 }, this.nextNoteTime, bus);
+      }
+
+      this.musicStep = (this.musicStep + 1) % MUSIC_MELODY.length;
+      this.nextNoteTime += eighth;
+    }
+  }
+}
+
+/**
+ * Shared sound engine used across the site
+ */
+export const audio = new AudioEngine();
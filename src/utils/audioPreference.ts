@@ -0,0 +1,126 @@
+/**
+ * Utility for the site-wide sound settings
+ */
+
+/**
+ * Volume channels: everything, sound effects and background music
+ */
+export type AudioChannel = 'master' | 'sfx' | 'music';
+
+export const AUDIO_CHANNELS: AudioChannel[] = ['master', 'sfx', 'music'];
+
+/**
+ * What the visitor chose
+ */
+export interface AudioSettings {
+  muted: boolean;
+  /** Volumes from 0 to 1 */
+  volumes: Record<AudioChannel, number>;
+}
+
+const DEFAULT_SETTINGS: AudioSettings = {
+  muted: false,
+  volumes: { master: 0.8, sfx: 0.8, music: 0.4 }
+};
+
+/**
+ * Sound settings persisted in localStorage
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class AudioPreference {
+  private settings: AudioSettings;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for AudioPreference
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.audio',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.settings = this.load();
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): AudioSettings {
+    return { muted: this.settings.muted, volumes: { ...this.settings.volumes } };
+  }
+
+  /**
+   * Check whether sound is muted
+   */
+  isMuted(): boolean {
+    return this.settings.muted;
+  }
+
+  /**
+   * Mute or unmute all sound
+   */
+  setMuted(muted: boolean): void {
+    if (muted === this.settings.muted) return;
+
+    this.settings.muted = muted;
+    this.save();
+  }
+
+  /**
+   * Set the volume of a channel
+   * @param volume - From 0 to 1, clamped
+   */
+  setVolume(channel: AudioChannel, volume: number): void {
+    const value = Math.min(1, Math.max(0, volume));
+    if (value === this.settings.volumes[channel]) return;
+
+    this.settings.volumes[channel] = value;
+    this.save();
+  }
+
+  /**
+   * Listen for changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read saved settings, keeping defaults for anything missing or corrupt
+   */
+  private load(): AudioSettings {
+    const settings: AudioSettings = { muted: DEFAULT_SETTINGS.muted, volumes: { ...DEFAULT_SETTINGS.volumes } };
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed = raw ? JSON.parse(raw) as Partial<AudioSettings> | null : null;
+      if (typeof parsed?.muted === 'boolean') settings.muted = parsed.muted;
+      for (const channel of AUDIO_CHANNELS) {
+        const volume = parsed?.volumes?.[channel];
+        if (typeof volume === 'number' && volume >= 0 && volume <= 1) settings.volumes[channel] = volume;
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable sound settings', e);
+    }
+    return settings;
+  }
+
+  /**
+   * Persist settings and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.settings));
+    } catch (e) {
+      console.warn('Failed to save sound settings', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared sound settings used across the site
+ */
+export const audioPreference = new AudioPreference();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, DailyStorage, getDailyKey, getDailySeed } from './daily';
+
+describe('getDailyKey', () => {
+  it('rolls over at midnight in Cairo rather than UTC', () => {
+    // Cairo is UTC+2 in winter
+    expect(getDailyKey(new Date('2025-01-14T21:59:00Z'))).toBe('2025-01-14');
+    expect(getDailyKey(new Date('2025-01-14T22:00:00Z'))).toBe('2025-01-15');
+  });
+
+  it('follows daylight saving time in Cairo', () => {
+    // Cairo is UTC+3 in summer
+    expect(getDailyKey(new Date('2025-07-14T20:59:00Z'))).toBe('2025-07-14');
+    expect(getDailyKey(new Date('2025-07-14T21:00:00Z'))).toBe('2025-07-15');
+  });
+});
+
+describe('addDays', () => {
+  it('moves across month and year ends', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    expect(addDays('2025-03-01', -28)).toBe('2025-02-01');
+  });
+});
+
+describe('getDailySeed', () => {
+  it('gives every player the same seed per game and day', () => {
+    expect(getDailySeed('flappy', '2025-01-15')).toBe(getDailySeed('flappy', '2025-01-15'));
+    expect(getDailySeed('flappy', '2025-01-15')).not.toBe(getDailySeed('flappy', '2025-01-16'));
+    expect(getDailySeed('flappy', '2025-01-15')).not.toBe(getDailySeed('drag:timeAttack', '2025-01-15'));
+  });
+});
+
+describe('DailyStorage', () => {
+  it('allows one attempt per game and day', () => {
+    const storage = new DailyStorage('test', undefined);
+
+    expect(storage.start('flappy', '2025-01-15')).toBe(true);
+    expect(storage.start('flappy', '2025-01-15')).toBe(false);
+    expect(storage.finish('flappy', '2025-01-15', 12)).toBe(true);
+    expect(storage.finish('flappy', '2025-01-15', 40)).toBe(false);
+    expect(storage.getResult('flappy', '2025-01-15')).toEqual({ score: 12, finished: true });
+  });
+
+  it('counts an abandoned attempt as played', () => {
+    const storage = new DailyStorage('test', undefined);
+    storage.start('flappy', '2025-01-15');
+
+    expect(storage.getResult('flappy', '2025-01-15')).toEqual({ score: 0, finished: false });
+    expect(storage.start('flappy', '2025-01-15')).toBe(false);
+  });
+
+  it('keeps a streak alive until the day after the last attempt ends', () => {
+    const storage = new DailyStorage('test', undefined);
+    ['2025-01-13', '2025-01-14', '2025-01-15'].forEach(day => storage.start('flappy', day));
+
+    expect(storage.getStreak('flappy', '2025-01-15')).toBe(3);
+    expect(storage.getStreak('flappy', '2025-01-16')).toBe(3);
+    expect(storage.getStreak('flappy', '2025-01-17')).toBe(0);
+  });
+
+  it('remembers the longest streak', () => {
+    const storage = new DailyStorage('test', undefined);
+    ['2024-12-30', '2024-12-31', '2025-01-01', '2025-01-05'].forEach(day => storage.start('flappy', day));
+
+    expect(storage.getBestStreak('flappy')).toBe(3);
+    expect(storage.getBestStreak('drag:timeAttack')).toBe(0);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Utility for the daily challenges
+ * A challenge day follows the calendar in Cairo, so everyone plays the same layout
+ * on the same day wherever they are.
+ */
+import { seedFromText } from './random';
+
+// Time zone that decides when a new challenge starts
+export const DAILY_TIME_ZONE = 'Africa/Cairo';
+
+/**
+ * Result of one daily attempt
+ */
+export interface DailyResult {
+  score: number;
+  /** False while the attempt is in progress, or if it was abandoned */
+  finished: boolean;
+}
+
+/**
+ * Get the challenge day of a moment as YYYY-MM-DD
+ */
+export function getDailyKey(date: Date = new Date()): string {
+  // en-CA writes dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: DAILY_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * Move a YYYY-MM-DD day by a number of days
+ */
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Seed of a game's challenge on a day, the same for every player
+ */
+export function getDailySeed(gameId: string, day: string): number {
+  return seedFromText(`daily:${gameId}:${day}`);
+}
+
+/**
+ * Daily storage class keeping one attempt per game and day
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class DailyStorage {
+  private results: Record<string, Record<string, DailyResult>>;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for DailyStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.daily',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.results = this.load();
+  }
+
+  /**
+   * Get the attempt of a day, if there was one
+   */
+  getResult(gameId: string, day: string): DailyResult | undefined {
+    return this.results[gameId]?.[day];
+  }
+
+  /**
+   * Start the attempt of a day
+   * The attempt counts from here, so leaving a run does not earn a retry.
+   * @returns False if the day was already attempted
+   */
+  start(gameId: string, day: string): boolean {
+    if (this.getResult(gameId, day)) return false;
+
+    this.results[gameId] = { ...this.results[gameId], [day]: { score: 0, finished: false } };
+    this.save();
+    return true;
+  }
+
+  /**
+   * Record the score of a started attempt
+   * @returns False if there is no attempt in progress for the day
+   */
+  finish(gameId: string, day: string, score: number): boolean {
+    const result = this.getResult(gameId, day);
+    if (!result || result.finished) return false;
+
+    this.results[gameId][day] = { score, finished: true };
+    this.save();
+    return true;
+  }
+
+  /**
+   * Count consecutive attempted days ending on a day
+   * A streak still counts until the end of the day after its last attempt.
+   */
+  getStreak(gameId: string, today: string): number {
+    let day = this.getResult(gameId, today) ? today : addDays(today, -1);
+    let streak = 0;
+    while (this.getResult(gameId, day)) {
+      streak++;
+      day = addDays(day, -1);
+    }
+    return streak;
+  }
+
+  /**
+   * Longest run of consecutive attempted days
+   */
+  getBestStreak(gameId: string): number {
+    const days = Object.keys(this.results[gameId] ?? {}).sort();
+    let best = 0;
+    let streak = 0;
+    days.forEach((day, index) => {
+      streak = index > 0 && addDays(days[index - 1], 1) === day ? streak + 1 : 1;
+      best = Math.max(best, streak);
+    });
+    return best;
+  }
+
+  /**
+   * Forget all attempts
+   */
+  clear(): void {
+    this.results = {};
+    this.save();
+  }
+
+  /**
+   * Listen for new attempts and results
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read saved attempts, ignoring anything corrupt
+   */
+  private load(): Record<string, Record<string, DailyResult>> {
+    const results: Record<string, Record<string, DailyResult>> = {};
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : {};
+      if (typeof parsed === 'object' && parsed !== null) {
+        for (const [gameId, days] of Object.entries(parsed)) {
+          if (typeof days !== 'object' || days === null) continue;
+          for (const [day, value] of Object.entries(days)) {
+            const result = value as Partial<DailyResult> | null;
+            if (/^\d{4}-\d{2}-\d{2}$/.test(day) && result && typeof result.score === 'number') {
+              results[gameId] = { ...results[gameId], [day]: { score: result.score, finished: result.finished === true } };
+            }
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable daily results', e);
+    }
+    return results;
+  }
+
+  /**
+   * Persist attempts and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.results));
+    } catch (e) {
+      console.warn('Failed to save daily results', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared daily storage used by all mini-games
+ */
+export const dailyStorage = new DailyStorage();
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getInviteCode, parseDiscordInvite, parseDiscordWidget } from './discord';
+
+describe('parseDiscordWidget', () => {
+  it('reads the name, online count and members', () => {
+    const widget = parseDiscordWidget({
+      id: '1',
+      name: 'DECI Devs',
+      presence_count: 3,
+      members: [
+        { id: 'a', username: 'ada', avatar_url: 'https://cdn.example/a.png', status: 'online' },
+        { id: 'b', username: 'bob', avatar_url: '', status: 'idle' },
+        { id: 'c', username: 'cy', status: 'dnd' }
+      ]
+    });
+
+    expect(widget).toEqual({
+      name: 'DECI Devs',
+      onlineCount: 3,
+      members: [
+        { id: 'a', username: 'ada', avatarUrl: 'https://cdn.example/a.png', status: 'online' },
+        { id: 'b', username: 'bob', avatarUrl: undefined, status: 'idle' },
+        { id: 'c', username: 'cy', avatarUrl: undefined, status: 'dnd' }
+      ]
+    });
+  });
+
+  it('skips malformed members and treats unknown statuses as online', () => {
+    const widget = parseDiscordWidget({
+      name: 'DECI Devs',
+      presence_count: 1,
+      members: [null, { id: 1, username: 'x' }, { id: 'a', username: 'ada', status: 'streaming' }]
+    });
+
+    expect(widget.members).toEqual([{ id: 'a', username: 'ada', avatarUrl: undefined, status: 'online' }]);
+  });
+
+  it('rejects data that is not a widget', () => {
+    expect(() => parseDiscordWidget(null)).toThrow('Invalid Discord widget');
+    expect(() => parseDiscordWidget({ name: 'x', members: [] })).toThrow('Invalid Discord widget');
+    expect(() => parseDiscordWidget({ code: 50004, message: 'Widget Disabled' })).toThrow('Invalid Discord widget');
+  });
+});
+
+describe('parseDiscordInvite', () => {
+  it('reads the member and online counts', () => {
+    const invite = parseDiscordInvite({
+      code: 'abc',
+      guild: { id: '1', name: 'DECI Devs' },
+      approximate_member_count: 120,
+      approximate_presence_count: 14
+    });
+
+    expect(invite).toEqual({ name: 'DECI Devs', memberCount: 120, onlineCount: 14 });
+  });
+
+  it('leaves out what the invite does not say', () => {
+    expect(parseDiscordInvite({ approximate_member_count: 5 })).toEqual({
+      name: undefined,
+      memberCount: 5,
+      onlineCount: undefined
+    });
+  });
+
+  it('rejects an invite without counts', () => {
+    expect(() => parseDiscordInvite({ code: 'abc', guild: { name: 'DECI Devs' } })).toThrow('Invalid Discord invite');
+    expect(() => parseDiscordInvite(undefined)).toThrow('Invalid Discord invite');
+  });
+});
+
+describe('getInviteCode', () => {
+  it('reads the code from the usual invite links', () => {
+    expect(getInviteCode('https://discord.gg/hhYF8heujS')).toBe('hhYF8heujS');
+    expect(getInviteCode('https://discord.com/invite/abc-123')).toBe('abc-123');
+    expect(getInviteCode('https://discordapp.com/invite/xyz')).toBe('xyz');
+    expect(getInviteCode('https://example.com/abc')).toBeUndefined();
+  });
+});
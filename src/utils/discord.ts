@@ -0,0 +1,267 @@
+/**
+ * Utility for showing the community Discord server
+ * Reads the server's public widget (name, online members) and the invite's member
+ * count, caching both so the page does not ask Discord on every visit and still has
+ * something to show offline.
+ */
+
+/**
+ * Invite link for the Join button
+ */
+export const DISCORD_INVITE_URL: string = import.meta.env.VITE_DISCORD_INVITE_URL || 'https://discord.gg/hhYF8heujS';
+
+/**
+ * An online member shown in the widget
+ */
+export interface DiscordMember {
+  id: string;
+  username: string;
+  /** Missing when the member has no avatar */
+  avatarUrl?: string;
+  status: 'online' | 'idle' | 'dnd';
+}
+
+/**
+ * What is known about the server
+ * Each part is optional because the widget and the invite are fetched separately.
+ */
+export interface DiscordServerInfo {
+  name?: string;
+  onlineCount?: number;
+  memberCount?: number;
+  members: DiscordMember[];
+  /** When the data was fetched (ms since epoch) */
+  fetchedAt: number;
+  /** True when the data comes from an expired cache because Discord could not be reached */
+  stale?: boolean;
+}
+
+/**
+ * Read the widget JSON of a server
+ * @throws Error if the data does not have the expected shape
+ */
+export function parseDiscordWidget(value: unknown): Pick<DiscordServerInfo, 'name' | 'onlineCount' | 'members'> {
+  const data = value as { name?: unknown; presence_count?: unknown; members?: unknown } | null;
+  if (!data || typeof data.name !== 'string' || typeof data.presence_count !== 'number' || !Array.isArray(data.members)) {
+    throw new Error('Invalid Discord widget');
+  }
+
+  const members: DiscordMember[] = [];
+  for (const item of data.members) {
+    const member = item as { id?: unknown; username?: unknown; avatar_url?: unknown; status?: unknown } | null;
+    if (!member || typeof member.id !== 'string' || typeof member.username !== 'string') continue;
+
+    members.push({
+      id: member.id,
+      username: member.username,
+      avatarUrl: typeof member.avatar_url === 'string' && member.avatar_url ? member.avatar_url : undefined,
+      status: member.status === 'idle' || member.status === 'dnd' ? member.status : 'online'
+    });
+  }
+
+  return { name: data.name, onlineCount: data.presence_count, members };
+}
+
+/**
+ * Read the member counts of an invite
+ * @throws Error if the data does not have the expected shape
+ */
+export function parseDiscordInvite(value: unknown): Pick<DiscordServerInfo, 'name' | 'onlineCount' | 'memberCount'> {
+  const data = value as { guild?: { name?: unknown }; approximate_member_count?: unknown; approximate_presence_count?: unknown } | null;
+  if (!data || typeof data.approximate_member_count !== 'number') {
+    throw new Error('Invalid Discord invite');
+  }
+
+  return {
+    name: typeof data.guild?.name === 'string' ? data.guild.name : undefined,
+    memberCount: data.approximate_member_count,
+    onlineCount: typeof data.approximate_presence_count === 'number' ? data.approximate_presence_count : undefined
+  };
+}
+
+/**
+ * Get the code of an invite link, e.g. `abc` from `https://discord.gg/abc`
+ */
+export function getInviteCode(inviteUrl: string): string | undefined {
+  const match = /(?:discord\.gg|discord(?:app)?\.com\/invite)\/([\w-]+)/.exec(inviteUrl);
+  return match?.[1];
+}
+
+/**
+ * Options for DiscordWidget
+ */
+export interface DiscordWidgetOptions {
+  /** API root, without trailing slash (default: Discord's public API) */
+  apiUrl?: string;
+  /** Server id; the widget must be enabled in the server settings */
+  serverId?: string;
+  /** Invite code to read the member count from */
+  inviteCode?: string;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Milliseconds before a request is abandoned */
+  timeout?: number;
+  /** Milliseconds cached data is used without asking again */
+  cacheTtl?: number;
+  /** Storage used to cache data across visits */
+  storage?: Storage;
+  storageKey?: string;
+}
+
+/**
+ * Fetches server info from Discord's public endpoints
+ *
+ * - `GET {apiUrl}/guilds/:serverId/widget.json` returns the name, online count and online members
+ * - `GET {apiUrl}/invites/:code?with_counts=true` returns the member count
+ */
+export class DiscordWidget {
+  private apiUrl: string;
+  private fetchFn: typeof fetch;
+  private timeout: number;
+  private cacheTtl: number;
+  private storage: Storage | undefined;
+  private storageKey: string;
+  private cached: DiscordServerInfo | undefined;
+  private pending: Promise<DiscordServerInfo> | undefined;
+
+  /**
+   * Constructor for DiscordWidget
+   * @param options - Server, invite and fetch, timeout and cache overrides
+   */
+  constructor(private options: DiscordWidgetOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? 'https://discord.com/api').replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 5000;
+    this.cacheTtl = options.cacheTtl ?? 5 * 60 * 1000;
+    this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    this.storageKey = options.storageKey ?? 'deci.discord';
+    this.cached = this.load();
+  }
+
+  /**
+   * Get the server info, from the cache while it is fresh
+   * Falls back to expired cached data when Discord cannot be reached.
+   * @throws Error if nothing could be fetched and nothing is cached
+   */
+  getInfo(): Promise<DiscordServerInfo> {
+    if (this.cached && Date.now() - this.cached.fetchedAt < this.cacheTtl) {
+      return Promise.resolve(this.cached);
+    }
+
+    // Several panels asking at once share one request
+    this.pending ??= this.refresh().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Fetch the widget and the invite counts, keeping whatever succeeds
+   */
+  private async refresh(): Promise<DiscordServerInfo> {
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    const { serverId, inviteCode } = this.options;
+
+    const [widget, invite] = offline ? [undefined, undefined] : await Promise.all([
+      serverId
+        ? this.request(`/guilds/${encodeURIComponent(serverId)}/widget.json`).then(parseDiscordWidget).catch(this.warn)
+        : undefined,
+      inviteCode
+        ? this.request(`/invites/${encodeURIComponent(inviteCode)}?with_counts=true`).then(parseDiscordInvite).catch(this.warn)
+        : undefined
+    ]);
+
+    if (!widget && !invite) {
+      if (this.cached) return { ...this.cached, stale: true };
+      throw new Error(offline ? 'Offline' : 'Discord could not be reached');
+    }
+
+    // The widget knows exactly who is online; the invite only estimates it
+    const info: DiscordServerInfo = {
+      name: widget?.name ?? invite?.name,
+      onlineCount: widget?.onlineCount ?? invite?.onlineCount,
+      memberCount: invite?.memberCount,
+      members: widget?.members ?? [],
+      fetchedAt: Date.now()
+    };
+    this.cached = info;
+    this.save(info);
+    return info;
+  }
+
+  /**
+   * Log a failed request and carry on without its data
+   */
+  private warn = (e: unknown): undefined => {
+    console.warn('Failed to fetch Discord data', e);
+    return undefined;
+  };
+
+  /**
+   * Send a request and parse the JSON response
+   * @throws Error with a `status` property for non-2xx responses
+   */
+  private async request(path: string): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchFn(this.apiUrl + path, { signal: controller.signal });
+      if (!response.ok) {
+        throw Object.assign(new Error(`Discord responded with ${response.status}`), { status: response.status });
+      }
+      return await response.json();
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') {
+        throw new Error('Discord did not respond in time');
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Read cached info, ignoring anything corrupt
+   */
+  private load(): DiscordServerInfo | undefined {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed = raw ? JSON.parse(raw) as Partial<DiscordServerInfo> | null : null;
+      if (parsed && typeof parsed.fetchedAt === 'number' && Array.isArray(parsed.members)) {
+        return { ...parsed, members: parsed.members, fetchedAt: parsed.fetchedAt, stale: undefined };
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable Discord cache', e);
+    }
+    return undefined;
+  }
+
+  /**
+   * Cache info for later visits
+   */
+  private save(info: DiscordServerInfo): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(info));
+    } catch (e) {
+      console.warn('Failed to cache Discord data', e);
+    }
+  }
+}
+
+/**
+ * Create the Discord widget configured for this build
+ * Reads `VITE_DISCORD_SERVER_ID` for the widget and the invite link for the member count;
+ * `VITE_DISCORD_API_URL` points both at another server, such as the local fixture.
+ */
+export function createDiscordWidget(
+  serverId: string | undefined = import.meta.env.VITE_DISCORD_SERVER_ID,
+  apiUrl: string | undefined = import.meta.env.VITE_DISCORD_API_URL
+): DiscordWidget {
+  return new DiscordWidget({ serverId, apiUrl, inviteCode: getInviteCode(DISCORD_INVITE_URL) });
+}
+
+/**
+ * Shared Discord widget used across the site
+ */
+export const discordWidget = createDiscordWidget();
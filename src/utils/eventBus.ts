@@ -0,0 +1,108 @@
+/**
+ * Utility for site-wide events
+ * Lets games and widgets react to each other without sharing DOM nodes or globals.
+ */
+
+/**
+ * Every site event and its payload
+ */
+export interface SiteEvents {
+  /** A trophy should appear, at viewport percentages */
+  trophy: { x: number; y: number };
+  /** A target was hit in a game */
+  targetHit: { gameId: string };
+  /** The running score of a game changed */
+  scoreChanged: { gameId: string; score: number };
+  /** A game was opened in the arcade shell */
+  gameOpened: { gameId: string };
+  /** The arcade shell was closed */
+  gameClosed: { gameId: string };
+  /** A run ended with a final score */
+  gameOver: { gameId: string; score: number };
+  /** A secret was found for the first time */
+  secretUnlocked: { secret: string };
+  /** The site title was clicked */
+  titleClicked: Record<string, never>;
+  /** An achievement was unlocked */
+  achievementUnlocked: { id: string };
+}
+
+/**
+ * A recorded event, kept in development builds
+ */
+export interface EventLogEntry<Events> {
+  name: keyof Events;
+  payload: Events[keyof Events];
+  time: number;
+}
+
+// Number of events kept in the development log
+const LOG_SIZE = 100;
+
+/**
+ * Typed publish/subscribe bus
+ */
+export class EventBus<Events extends object> {
+  private handlers = new Map<keyof Events, Set<(payload: never) => void>>();
+  private log: EventLogEntry<Events>[] = [];
+
+  /**
+   * Constructor for EventBus
+   * @param debug - Keep a log of recent events and print them to the console
+   */
+  constructor(private debug: boolean = false) {}
+
+  /**
+   * Listen for an event
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof Events>(name: K, handler: (payload: Events[K]) => void): () => void {
+    let handlers = this.handlers.get(name);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(name, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(name, handler);
+  }
+
+  /**
+   * Stop listening for an event
+   */
+  off<K extends keyof Events>(name: K, handler: (payload: Events[K]) => void): void {
+    this.handlers.get(name)?.delete(handler);
+  }
+
+  /**
+   * Send an event to every handler
+   * A failing handler is logged and does not stop the others.
+   */
+  emit<K extends keyof Events>(name: K, payload: Events[K]): void {
+    if (this.debug) {
+      this.log.push({ name, payload, time: Date.now() });
+      if (this.log.length > LOG_SIZE) this.log.shift();
+      console.debug(`[event] ${String(name)}`, payload);
+    }
+
+    // Copy so handlers may unsubscribe while the event is delivered
+    [...(this.handlers.get(name) ?? [])].forEach(handler => {
+      try {
+        (handler as (payload: Events[K]) => void)(payload);
+      } catch (e) {
+        console.error(`Error in ${String(name)} handler`, e);
+      }
+    });
+  }
+
+  /**
+   * Get the recent events, oldest first (empty unless debugging)
+   */
+  getLog(): readonly EventLogEntry<Events>[] {
+    return this.log;
+  }
+}
+
+/**
+ * Shared event bus used across the site, logging events in development
+ */
+export const eventBus = new EventBus<SiteEvents>(import.meta.env.DEV);
@@ -0,0 +1,279 @@
+/**
+ * Input abstraction for mini-games
+ * Keyboard, pointer/touch and gamepad events are translated into
+ * game-specific commands, so a game only ever reacts to commands.
+ */
+
+/**
+ * Callback receiving translated commands
+ */
+export type CommandListener<T extends string> = (command: T) => void;
+
+/**
+ * A source of input commands
+ * `attach` starts listening and returns a function that stops it again.
+ */
+export interface InputSource<T extends string> {
+  attach(emit: CommandListener<T>): () => void;
+}
+
+/**
+ * Input controller class that merges several input sources
+ * New sources can be added at any time without touching listeners.
+ */
+export class InputController<T extends string> {
+  private sources: InputSource<T>[] = [];
+  private detachers: (() => void)[] = [];
+  private listeners = new Set<CommandListener<T>>();
+  private enabled: boolean = false;
+  private boundEmit: CommandListener<T>;
+
+  /**
+   * Constructor for InputController
+   * @param sources - Initial input sources
+   */
+  constructor(sources: InputSource<T>[] = []) {
+    this.boundEmit = this.emit.bind(this);
+    sources.forEach(source => this.addSource(source));
+  }
+
+  /**
+   * Add an input source, attaching it right away if the controller is running
+   */
+  addSource(source: InputSource<T>): void {
+    this.sources.push(source);
+    if (this.enabled) {
+      this.detachers.push(source.attach(this.boundEmit));
+    }
+  }
+
+  /**
+   * Listen for commands
+   * @returns Function that removes the listener
+   */
+  onCommand(listener: CommandListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Start listening on all sources
+   */
+  start(): void {
+    if (this.enabled) return;
+
+    this.enabled = true;
+    this.detachers = this.sources.map(source => source.attach(this.boundEmit));
+  }
+
+  /**
+   * Stop listening on all sources
+   */
+  stop(): void {
+    if (!this.enabled) return;
+
+    this.enabled = false;
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+  }
+
+  /**
+   * Forward a command to all listeners
+   */
+  private emit(command: T): void {
+    this.listeners.forEach(listener => listener(command));
+  }
+}
+
+/**
+ * Check whether an event target is a text field the user is typing into
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Create a keyboard source from a key-to-command map
+ * @param bindings - Map of `KeyboardEvent.key` values to commands
+ * @param target - Element to listen on (defaults to document)
+ */
+export function createKeyboardSource<T extends string>(
+  bindings: Partial<Record<string, T>>,
+  target: EventTarget = document
+): InputSource<T> {
+  return {
+    attach(emit) {
+      const handleKeyDown = (e: Event) => {
+        if (isEditableTarget(e.target)) return;
+
+        const command = bindings[(e as KeyboardEvent).key];
+        if (command) {
+          emit(command);
+          e.preventDefault();
+        }
+      };
+
+      target.addEventListener('keydown', handleKeyDown);
+      return () => target.removeEventListener('keydown', handleKeyDown);
+    }
+  };
+}
+
+/**
+ * Gestures recognized by the pointer source
+ */
+export interface PointerBindings<T extends string> {
+  /** Emitted when the pointer goes down */
+  tap?: T;
+  /** Emitted repeatedly while the pointer is held down */
+  hold?: T;
+  /** Emitted for every swipe step upward */
+  swipeUp?: T;
+  /** Emitted for every swipe step downward */
+  swipeDown?: T;
+}
+
+export interface PointerSourceOptions {
+  /** Delay between repeated hold commands in milliseconds */
+  holdInterval?: number;
+  /** Vertical distance in pixels that counts as one swipe step */
+  swipeDistance?: number;
+}
+
+/**
+ * Create a pointer source for mouse, touch and pen input on an element
+ * A swipe cancels the hold repeat until the pointer is lifted.
+ */
+export function createPointerSource<T extends string>(
+  element: HTMLElement,
+  bindings: PointerBindings<T>,
+  options: PointerSourceOptions = {}
+): InputSource<T> {
+  const holdInterval = options.holdInterval ?? 120;
+  const swipeDistance = options.swipeDistance ?? 40;
+
+  return {
+    attach(emit) {
+      let activePointer: number | null = null;
+      let anchorY = 0;
+      let holdTimer: number | undefined;
+
+      const stopHold = () => {
+        if (holdTimer !== undefined) {
+          clearInterval(holdTimer);
+          holdTimer = undefined;
+        }
+      };
+
+      const handlePointerDown = (e: PointerEvent) => {
+        if (activePointer !== null) return;
+
+        activePointer = e.pointerId;
+        anchorY = e.clientY;
+        element.setPointerCapture?.(e.pointerId);
+
+        if (bindings.tap) emit(bindings.tap);
+        if (bindings.hold) {
+          const hold = bindings.hold;
+          holdTimer = window.setInterval(() => emit(hold), holdInterval);
+        }
+        e.preventDefault();
+      };
+
+      const handlePointerMove = (e: PointerEvent) => {
+        if (e.pointerId !== activePointer) return;
+
+        const deltaY = e.clientY - anchorY;
+        if (Math.abs(deltaY) < swipeDistance) return;
+
+        stopHold();
+        anchorY = e.clientY;
+
+        const command = deltaY > 0 ? bindings.swipeDown : bindings.swipeUp;
+        if (command) emit(command);
+      };
+
+      const handlePointerUp = (e: PointerEvent) => {
+        if (e.pointerId !== activePointer) return;
+
+        activePointer = null;
+        stopHold();
+      };
+
+      // Stop the browser from scrolling or zooming while playing
+      const previousTouchAction = element.style.touchAction;
+      element.style.touchAction = 'none';
+
+      element.addEventListener('pointerdown', handlePointerDown);
+      element.addEventListener('pointermove', handlePointerMove);
+      element.addEventListener('pointerup', handlePointerUp);
+      element.addEventListener('pointercancel', handlePointerUp);
+
+      return () => {
+        stopHold();
+        element.style.touchAction = previousTouchAction;
+        element.removeEventListener('pointerdown', handlePointerDown);
+        element.removeEventListener('pointermove', handlePointerMove);
+        element.removeEventListener('pointerup', handlePointerUp);
+        element.removeEventListener('pointercancel', handlePointerUp);
+      };
+    }
+  };
+}
+
+/**
+ * Standard gamepad button indices
+ */
+export const GamepadButton = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  Start: 9,
+  DpadUp: 12,
+  DpadDown: 13
+} as const;
+
+/**
+ * Create a gamepad source that emits a command when a button is pressed
+ * Gamepads are polled once per animation frame while attached.
+ * @param bindings - Map of standard button indices to commands
+ */
+export function createGamepadSource<T extends string>(
+  bindings: Partial<Record<number, T>>
+): InputSource<T> {
+  return {
+    attach(emit) {
+      if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+        return () => {};
+      }
+
+      const previous = new Map<number, boolean[]>();
+      let frameId = 0;
+
+      const poll = () => {
+        for (const pad of navigator.getGamepads()) {
+          if (!pad) continue;
+
+          const before = previous.get(pad.index) ?? [];
+          const pressed = pad.buttons.map(button => button.pressed);
+
+          pressed.forEach((isPressed, index) => {
+            const command = bindings[index];
+            if (command && isPressed && !before[index]) {
+              emit(command);
+            }
+          });
+
+          previous.set(pad.index, pressed);
+        }
+
+        frameId = requestAnimationFrame(poll);
+      };
+
+      frameId = requestAnimationFrame(poll);
+      return () => cancelAnimationFrame(frameId);
+    }
+  };
+}
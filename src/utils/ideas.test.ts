@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CHAT_MESSAGE_MAX, escapeChatText, formatIdea, IDEA_LIMITS, IdeaDraft, validateIdea } from './ideas';
+
+const validDraft: IdeaDraft = {
+  category: 'game',
+  description: 'A memory game with DECI course icons',
+  contact: ''
+};
+
+describe('validateIdea', () => {
+  it('accepts a complete draft', () => {
+    expect(validateIdea(validDraft)).toEqual({});
+  });
+
+  it('requires a known category', () => {
+    expect(validateIdea({ ...validDraft, category: '' })).toEqual({ category: 'required' });
+  });
+
+  it('checks the description length without surrounding spaces', () => {
+    const short = `  ${'x'.repeat(IDEA_LIMITS.descriptionMin - 1)}  `;
+    const long = 'x'.repeat(IDEA_LIMITS.descriptionMax + 1);
+
+    expect(validateIdea({ ...validDraft, description: short })).toEqual({ description: 'tooShort' });
+    expect(validateIdea({ ...validDraft, description: 'x'.repeat(IDEA_LIMITS.descriptionMin) })).toEqual({});
+    expect(validateIdea({ ...validDraft, description: long })).toEqual({ description: 'tooLong' });
+  });
+
+  it('limits the contact length', () => {
+    const contact = 'x'.repeat(IDEA_LIMITS.contactMax + 1);
+
+    expect(validateIdea({ ...validDraft, contact })).toEqual({ contact: 'tooLong' });
+  });
+
+  it('reports every problem at once', () => {
+    expect(validateIdea({ category: '', description: '', contact: '' })).toEqual({
+      category: 'required',
+      description: 'tooShort'
+    });
+  });
+});
+
+describe('formatIdea', () => {
+  it('breaks up mentions and escapes markdown in visitor text', () => {
+    const message = formatIdea({
+      id: '1',
+      category: 'feature',
+      description: '@everyone look at **this** <@&123>',
+      contact: '@here',
+      submittedAt: '2025-01-01T00:00:00.000Z'
+    });
+
+    expect(message).not.toMatch(/@(everyone|here|&)/);
+    expect(message).toContain('\\*\\*this\\*\\*');
+    expect(message.startsWith('New feature idea:\n')).toBe(true);
+  });
+
+  it('stays within the chat message limit when escaping grows the text', () => {
+    const message = formatIdea({
+      id: '1',
+      category: 'feature',
+      description: '*_~'.repeat(IDEA_LIMITS.descriptionMax / 3) + '@',
+      contact: '#'.repeat(IDEA_LIMITS.contactMax),
+      submittedAt: '2025-01-01T00:00:00.000Z'
+    });
+
+    expect(message.length).toBeLessThanOrEqual(CHAT_MESSAGE_MAX);
+    expect(message).toMatch(/^New feature idea:\n(\\[*_~])+…\nContact: /);
+    expect(message.endsWith('\\#'.repeat(IDEA_LIMITS.contactMax))).toBe(true);
+  });
+
+  it('leaves plain text readable', () => {
+    expect(escapeChatText('Add a dark mode')).toBe('Add a dark mode');
+  });
+});
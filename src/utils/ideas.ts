@@ -0,0 +1,414 @@
+/**
+ * Utility for collecting website ideas from visitors
+ * Submissions go through a transport so they can be queued locally or sent to a webhook.
+ */
+
+/**
+ * Categories an idea can be filed under
+ */
+export const IDEA_CATEGORIES = ['game', 'feature', 'content', 'design', 'other'] as const;
+
+export type IdeaCategory = typeof IDEA_CATEGORIES[number];
+
+/**
+ * Length limits enforced on the form and before sending
+ */
+export const IDEA_LIMITS = {
+  descriptionMin: 20,
+  descriptionMax: 1000,
+  contactMax: 100
+};
+
+/**
+ * Longest message Discord accepts
+ */
+export const CHAT_MESSAGE_MAX = 2000;
+
+/**
+ * What the visitor types into the form
+ */
+export interface IdeaDraft {
+  category: IdeaCategory | '';
+  description: string;
+  /** Optional Discord name or email to follow up with */
+  contact: string;
+}
+
+/**
+ * A validated idea ready to be sent
+ */
+export interface IdeaSubmission {
+  id: string;
+  category: IdeaCategory;
+  description: string;
+  contact?: string;
+  /** ISO date string of when the idea was submitted */
+  submittedAt: string;
+}
+
+/**
+ * What is wrong with a form field; the form turns it into a message
+ */
+export type IdeaError = 'required' | 'tooShort' | 'tooLong';
+
+/**
+ * Validation problems per form field
+ */
+export type IdeaErrors = Partial<Record<keyof IdeaDraft, IdeaError>>;
+
+/**
+ * Destination for submitted ideas
+ */
+export interface IdeaTransport {
+  /**
+   * Deliver an idea
+   * @throws Error if it could not be delivered
+   */
+  send(idea: IdeaSubmission): Promise<void>;
+}
+
+/**
+ * Create an empty draft
+ */
+export function emptyIdeaDraft(): IdeaDraft {
+  return { category: '', description: '', contact: '' };
+}
+
+/**
+ * Check a draft and describe every problem found
+ * @returns An empty object when the draft is valid
+ */
+export function validateIdea(draft: IdeaDraft): IdeaErrors {
+  const errors: IdeaErrors = {};
+  const description = draft.description.trim();
+
+  if (!IDEA_CATEGORIES.includes(draft.category as IdeaCategory)) {
+    errors.category = 'required';
+  }
+  if (description.length < IDEA_LIMITS.descriptionMin) {
+    errors.description = 'tooShort';
+  } else if (description.length > IDEA_LIMITS.descriptionMax) {
+    errors.description = 'tooLong';
+  }
+  if (draft.contact.trim().length > IDEA_LIMITS.contactMax) {
+    errors.contact = 'tooLong';
+  }
+
+  return errors;
+}
+
+/**
+ * Turn a valid draft into a submission
+ * @throws Error if the draft is invalid
+ */
+export function toIdeaSubmission(draft: IdeaDraft, now: Date = new Date()): IdeaSubmission {
+  const [problem] = Object.entries(validateIdea(draft));
+  if (problem) {
+    throw new Error(`Invalid idea: ${problem[0]} is ${problem[1]}`);
+  }
+
+  return {
+    id: `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    category: draft.category as IdeaCategory,
+    description: draft.description.trim(),
+    contact: draft.contact.trim() || undefined,
+    submittedAt: now.toISOString()
+  };
+}
+
+/**
+ * Autosaved form draft kept in localStorage
+ */
+export class IdeaDraftStorage {
+  /**
+   * Constructor for IdeaDraftStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.ideaDraft',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {}
+
+  /**
+   * Read the saved draft, or an empty one if there is none
+   */
+  load(): IdeaDraft {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed = raw ? JSON.parse(raw) as Partial<IdeaDraft> : {};
+      return {
+        category: IDEA_CATEGORIES.includes(parsed.category as IdeaCategory) ? parsed.category as IdeaCategory : '',
+        description: typeof parsed.description === 'string' ? parsed.description : '',
+        contact: typeof parsed.contact === 'string' ? parsed.contact : ''
+      };
+    } catch (e) {
+      console.warn('Ignoring unreadable idea draft', e);
+      return emptyIdeaDraft();
+    }
+  }
+
+  /**
+   * Save the draft, or forget it when it is empty
+   */
+  save(draft: IdeaDraft): void {
+    if (!draft.category && !draft.description && !draft.contact) {
+      this.clear();
+      return;
+    }
+
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(draft));
+    } catch (e) {
+      console.warn('Failed to save idea draft', e);
+    }
+  }
+
+  /**
+   * Forget the saved draft
+   */
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch (e) {
+      console.warn('Failed to clear idea draft', e);
+    }
+  }
+}
+
+/**
+ * Limits how often one browser can submit
+ * Allows a number of submissions per window with a pause between each.
+ */
+export class SubmissionRateLimiter {
+  /**
+   * Constructor for SubmissionRateLimiter
+   * @param maxPerWindow - Submissions allowed per window
+   * @param windowMs - Length of the window
+   * @param minIntervalMs - Pause required between two submissions
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private maxPerWindow: number = 3,
+    private windowMs: number = 60 * 60 * 1000,
+    private minIntervalMs: number = 30 * 1000,
+    private storageKey: string = 'deci.ideaTimes',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {}
+
+  /**
+   * Get how long to wait before the next submission is allowed
+   * @returns Milliseconds to wait, 0 when a submission is allowed now
+   */
+  retryAfter(now: number = Date.now()): number {
+    const times = this.load(now);
+    if (times.length === 0) return 0;
+
+    const sinceLast = now - times[times.length - 1];
+    const intervalWait = Math.max(0, this.minIntervalMs - sinceLast);
+    const windowWait = times.length >= this.maxPerWindow ? times[0] + this.windowMs - now : 0;
+    return Math.max(intervalWait, windowWait);
+  }
+
+  /**
+   * Remember a submission
+   */
+  record(now: number = Date.now()): void {
+    const times = [...this.load(now), now];
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(times));
+    } catch (e) {
+      console.warn('Failed to save submission times', e);
+    }
+  }
+
+  /**
+   * Read submission times still inside the window, oldest first
+   */
+  private load(now: number): number[] {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter((time): time is number => typeof time === 'number' && now - time < this.windowMs)
+          .sort((a, b) => a - b);
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable submission times', e);
+    }
+    return [];
+  }
+}
+
+/**
+ * Transport keeping ideas in a localStorage queue
+ * The queue can be downloaded as JSON and shared with the maintainers.
+ */
+export class LocalIdeaTransport implements IdeaTransport {
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for LocalIdeaTransport
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.ideaQueue',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {}
+
+  async send(idea: IdeaSubmission): Promise<void> {
+    const queue = [...this.getQueue(), idea];
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(queue));
+    } catch (e) {
+      throw new Error('Could not save your idea in this browser');
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Get the queued ideas, oldest first
+   */
+  getQueue(): IdeaSubmission[] {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed as IdeaSubmission[] : [];
+    } catch (e) {
+      console.warn('Ignoring unreadable idea queue', e);
+      return [];
+    }
+  }
+
+  /**
+   * Serialize the queue for download
+   */
+  exportJSON(): string {
+    return JSON.stringify({ version: 1, ideas: this.getQueue() }, null, 2);
+  }
+
+  /**
+   * Empty the queue
+   */
+  clear(): void {
+    try {
+      this.storage?.removeItem(this.storageKey);
+    } catch (e) {
+      console.warn('Failed to clear idea queue', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Listen for queue changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+/**
+ * Options for WebhookIdeaTransport
+ */
+export interface WebhookIdeaTransportOptions {
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Milliseconds before a request is abandoned */
+  timeout?: number;
+}
+
+/**
+ * Transport posting ideas as JSON to a webhook
+ * The body is `{ content, allowed_mentions, idea }`: `content` is a readable summary
+ * (the field Discord webhooks display), `idea` the structured submission.
+ * Mentions are disabled so visitor text cannot ping the server.
+ *
+ * The URL ships in the public bundle, so in production it must point at a server-side
+ * relay that rate-limits and forwards to Discord, never at a raw Discord webhook URL.
+ */
+export class WebhookIdeaTransport implements IdeaTransport {
+  private fetchFn: typeof fetch;
+  private timeout: number;
+
+  /**
+   * Constructor for WebhookIdeaTransport
+   * @param url - Webhook address
+   * @param options - Optional fetch and timeout overrides
+   */
+  constructor(private url: string, options: WebhookIdeaTransportOptions = {}) {
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 8000;
+  }
+
+  async send(idea: IdeaSubmission): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchFn(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: formatIdea(idea), allowed_mentions: { parse: [] }, idea }),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Idea server responded with ${response.status}`);
+      }
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') {
+        throw new Error('Idea server did not respond in time');
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Escape chat markdown and break up mentions so visitor text shows as typed
+ */
+export function escapeChatText(text: string): string {
+  return text
+    .replace(/[\\*_~`|>#[\]()-]/g, '\\$&')
+    // A zero-width space after @ keeps @everyone, @here and <@id> from resolving
+    .replace(/@/g, '@\u200b');
+}
+
+/**
+ * Format an idea as a short chat message
+ * Visitor text is escaped, see escapeChatText. Escaping can double the description,
+ * so it is cut to keep the message within CHAT_MESSAGE_MAX.
+ */
+export function formatIdea(idea: IdeaSubmission): string {
+  const header = `New ${idea.category} idea:\n`;
+  const contact = idea.contact ? `\nContact: ${escapeChatText(idea.contact)}` : '';
+  const room = CHAT_MESSAGE_MAX - header.length - contact.length;
+
+  let description = escapeChatText(idea.description);
+  if (description.length > room) {
+    description = description.slice(0, room - 1);
+    // Drop a backslash whose escaped character was cut off
+    if (/(^|[^\\])(\\\\)*\\$/.test(description)) description = description.slice(0, -1);
+    description += '…';
+  }
+  return `${header}${description}${contact}`;
+}
+
+/**
+ * Create the idea transport configured for this build
+ * Uses the webhook when `VITE_IDEA_WEBHOOK_URL` is set, the local queue otherwise.
+ */
+export function createIdeaTransport(webhookUrl: string | undefined = import.meta.env.VITE_IDEA_WEBHOOK_URL): IdeaTransport {
+  return webhookUrl ? new WebhookIdeaTransport(webhookUrl) : new LocalIdeaTransport();
+}
+
+/**
+ * Shared idea transport used across the site
+ */
+export const ideaTransport = createIdeaTransport();
@@ -1,5 +1,122 @@
 // Export all utility functions
 export { 
-  SecretCodeDetector, 
-  setupSecretCodeDetection 
-} from './secretCode'; 
\ No newline at end of file
+  SecretCodeRegistry, 
+  secretCodes,
+  setupSecretCodeDetection,
+  KONAMI_CODE,
+  KONAMI_GESTURE
+} from './secretCode';
+export type { GestureToken, SecretCodeOptions } from './secretCode';
+export {
+  ScoreStorage,
+  scoreStorage,
+  normalizeInitials,
+  MAX_LEADERBOARD_ENTRIES
+} from './scoreStorage';
+export type { ScoreEntry, GameScores, ScoreData } from './scoreStorage';
+export {
+  InputController,
+  createKeyboardSource,
+  createPointerSource,
+  createGamepadSource,
+  GamepadButton,
+  isEditableTarget
+} from './gameInput';
+export type {
+  InputSource,
+  CommandListener,
+  PointerBindings,
+  PointerSourceOptions
+} from './gameInput';
+export { UnlockStorage, unlockStorage, createShareToken, isValidShareToken } from './unlocks';
+export {
+  LocalPollStorage,
+  HttpPollStorage,
+  VoteLedger,
+  voteLedger,
+  pollStorage,
+  createPollStorage,
+  validateBallot
+} from './pollStorage';
+export type { PollResults, PollStorageAdapter, HttpPollStorageOptions } from './pollStorage';
+export {
+  IDEA_CATEGORIES,
+  IDEA_LIMITS,
+  CHAT_MESSAGE_MAX,
+  IdeaDraftStorage,
+  SubmissionRateLimiter,
+  LocalIdeaTransport,
+  WebhookIdeaTransport,
+  ideaTransport,
+  createIdeaTransport,
+  emptyIdeaDraft,
+  validateIdea,
+  toIdeaSubmission,
+  formatIdea,
+  escapeChatText
+} from './ideas';
+export type {
+  IdeaCategory,
+  IdeaDraft,
+  IdeaSubmission,
+  IdeaError,
+  IdeaErrors,
+  IdeaTransport,
+  WebhookIdeaTransportOptions
+} from './ideas';
+export {
+  animation,
+  createGsapAnimation,
+  createFallbackAnimation,
+  isGsapAvailable
+} from './animation';
+export type {
+  AnimationService,
+  AnimationTarget,
+  AnimationHandle,
+  AnimationTimeline,
+  AnimatedProperties,
+  TweenVars,
+  TweenValue,
+  StaggerVars,
+  DraggableOptions,
+  DraggableHandle
+} from './animation';
+export { MotionPreference, motionPreference, MOTION_SETTINGS } from './motionPreference';
+export type { MotionSetting } from './motionPreference';
+export {
+  LocalePreference,
+  localePreference,
+  LOCALES,
+  detectLocale,
+  getDirection
+} from './localePreference';
+export type { Locale } from './localePreference';
+export { HashRouter, router, parseRoute, formatRoute } from './router';
+export type { Route } from './router';
+export { ThemePreference, themePreference, THEME_SETTINGS } from './themePreference';
+export type { ThemeSetting } from './themePreference';
+export { EventBus, eventBus } from './eventBus';
+export type { SiteEvents, EventLogEntry } from './eventBus';
+export { AchievementStorage, achievementStorage, toLocalDay } from './achievements';
+export type { PlayerStats, AchievementRule, AchievementData } from './achievements';
+export { createSeed, createRandom, createStream, formatSeed, parseSeed, seedFromText } from './random';
+export type { RandomStream } from './random';
+export { ReplayStorage, replayStorage } from './replayStorage';
+export type { SavedReplay } from './replayStorage';
+export { DailyStorage, dailyStorage, DAILY_TIME_ZONE, getDailyKey, getDailySeed, addDays } from './daily';
+export type { DailyResult } from './daily';
+export { AudioPreference, audioPreference, AUDIO_CHANNELS } from './audioPreference';
+export type { AudioChannel, AudioSettings } from './audioPreference';
+export { AudioEngine, audio } from './audio';
+export type { SoundEffect } from './audio';
+export {
+  DiscordWidget,
+  discordWidget,
+  createDiscordWidget,
+  parseDiscordWidget,
+  parseDiscordInvite,
+  getInviteCode,
+  DISCORD_INVITE_URL
+} from './discord';
+export type { DiscordMember, DiscordServerInfo, DiscordWidgetOptions } from './discord';
@@ -0,0 +1,114 @@
+/**
+ * Utility for the site language
+ * Detects the browser language on first visit and remembers the visitor's pick.
+ */
+
+/**
+ * Languages the site is translated into
+ */
+export type Locale = 'en' | 'ar';
+
+export const LOCALES: Locale[] = ['en', 'ar'];
+
+// Languages written right to left
+const RTL_LOCALES: Locale[] = ['ar'];
+
+/**
+ * Pick the first supported language from a browser language list
+ * @param languages - BCP 47 tags in order of preference, e.g. navigator.languages
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const tag of languages) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (LOCALES.includes(base as Locale)) return base as Locale;
+  }
+  return 'en';
+}
+
+/**
+ * Get the text direction of a language
+ */
+export function getDirection(locale: Locale): 'ltr' | 'rtl' {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Language preference persisted in localStorage
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class LocalePreference {
+  private locale: Locale;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for LocalePreference
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.locale',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.locale = this.load();
+    this.applyToDocument();
+  }
+
+  /**
+   * Get the current language
+   */
+  getLocale(): Locale {
+    return this.locale;
+  }
+
+  /**
+   * Switch language and remember it
+   */
+  setLocale(locale: Locale): void {
+    if (locale === this.locale) return;
+
+    this.locale = locale;
+    try {
+      this.storage?.setItem(this.storageKey, locale);
+    } catch (e) {
+      console.warn('Failed to save language', e);
+    }
+    this.applyToDocument();
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Listen for language changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read the saved language, or detect it from the browser
+   */
+  private load(): Locale {
+    try {
+      const saved = this.storage?.getItem(this.storageKey);
+      if (LOCALES.includes(saved as Locale)) return saved as Locale;
+    } catch (e) {
+      console.warn('Ignoring unreadable language', e);
+    }
+    return detectLocale(typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []);
+  }
+
+  /**
+   * Mirror the language on <html> so the browser lays the page out in its direction
+   */
+  private applyToDocument(): void {
+    if (typeof document === 'undefined') return;
+    document.documentElement.lang = this.locale;
+    document.documentElement.dir = getDirection(this.locale);
+  }
+}
+
+/**
+ * Shared language preference used across the site
+ */
+export const localePreference = new LocalePreference();
@@ -0,0 +1,116 @@
+/**
+ * Utility for the site-wide motion preference
+ * Follows the OS `prefers-reduced-motion` setting unless the visitor picks a mode.
+ */
+
+/**
+ * What the visitor chose: follow the OS, or force a mode
+ */
+export type MotionSetting = 'system' | 'reduced' | 'full';
+
+export const MOTION_SETTINGS: MotionSetting[] = ['system', 'reduced', 'full'];
+
+// Class set on <html> while motion is reduced, used by the stylesheet
+const REDUCED_CLASS = 'reduce-motion';
+
+/**
+ * Motion preference persisted in localStorage
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class MotionPreference {
+  private setting: MotionSetting;
+  private listeners = new Set<() => void>();
+  private query: MediaQueryList | undefined;
+
+  /**
+   * Constructor for MotionPreference
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.motion',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.setting = this.load();
+    this.query = typeof matchMedia === 'function' ? matchMedia('(prefers-reduced-motion: reduce)') : undefined;
+
+    // Follow OS changes while the setting is 'system'
+    this.query?.addEventListener?.('change', () => {
+      if (this.setting === 'system') this.notify();
+    });
+    this.applyClass();
+  }
+
+  /**
+   * Get what the visitor chose
+   */
+  getSetting(): MotionSetting {
+    return this.setting;
+  }
+
+  /**
+   * Check whether animations should be calm right now
+   */
+  isReduced(): boolean {
+    if (this.setting === 'system') return this.query?.matches ?? false;
+    return this.setting === 'reduced';
+  }
+
+  /**
+   * Choose a mode
+   */
+  setSetting(setting: MotionSetting): void {
+    if (setting === this.setting) return;
+
+    this.setting = setting;
+    try {
+      this.storage?.setItem(this.storageKey, setting);
+    } catch (e) {
+      console.warn('Failed to save motion preference', e);
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for changes of the effective preference
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read the saved setting, ignoring anything unknown
+   */
+  private load(): MotionSetting {
+    try {
+      const saved = this.storage?.getItem(this.storageKey);
+      if (MOTION_SETTINGS.includes(saved as MotionSetting)) return saved as MotionSetting;
+    } catch (e) {
+      console.warn('Ignoring unreadable motion preference', e);
+    }
+    return 'system';
+  }
+
+  /**
+   * Mirror the preference on the document for CSS
+   */
+  private applyClass(): void {
+    if (typeof document === 'undefined') return;
+    document.documentElement.classList.toggle(REDUCED_CLASS, this.isReduced());
+  }
+
+  /**
+   * Update the document and notify listeners
+   */
+  private notify(): void {
+    this.applyClass();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared motion preference used across the site
+ */
+export const motionPreference = new MotionPreference();
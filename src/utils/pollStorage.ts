@@ -0,0 +1,365 @@
+/**
+ * Utility for storing community poll votes
+ * Votes go through an adapter so the site can count them locally or on a server.
+ */
+import type { Poll } from '../content/types';
+
+/**
+ * Vote counts of one poll
+ */
+export interface PollResults {
+  /** Votes per option id */
+  counts: Record<string, number>;
+  /** Number of ballots cast (a multi-choice ballot counts once) */
+  total: number;
+}
+
+/**
+ * Backend that keeps poll results
+ */
+export interface PollStorageAdapter {
+  /**
+   * Fetch the current results of a poll
+   */
+  getResults(poll: Poll): Promise<PollResults>;
+
+  /**
+   * Cast a ballot
+   * @returns Results including the new ballot
+   * @throws Error if the ballot is invalid or was rejected
+   */
+  submitVote(poll: Poll, optionIds: string[]): Promise<PollResults>;
+}
+
+/**
+ * Check a ballot against the poll definition
+ * @throws Error describing why the ballot is invalid
+ */
+export function validateBallot(poll: Poll, optionIds: string[]): void {
+  if (optionIds.length === 0) {
+    throw new Error('Pick an answer first');
+  }
+  if (!poll.multiple && optionIds.length > 1) {
+    throw new Error('Only one answer can be picked');
+  }
+  if (new Set(optionIds).size !== optionIds.length) {
+    throw new Error('An answer was picked twice');
+  }
+  if (optionIds.some(id => !poll.options.some(option => option.id === id))) {
+    throw new Error('Unknown answer');
+  }
+}
+
+/**
+ * Validate results received from storage or a server
+ * @throws Error if the data does not have the expected shape
+ */
+export function parsePollResults(value: unknown): PollResults {
+  const data = value as Partial<PollResults> | null;
+  if (
+    !data ||
+    typeof data.counts !== 'object' ||
+    data.counts === null ||
+    typeof data.total !== 'number' ||
+    !Number.isFinite(data.total)
+  ) {
+    throw new Error('Invalid poll results');
+  }
+
+  const counts: Record<string, number> = {};
+  for (const [id, count] of Object.entries(data.counts)) {
+    if (typeof count !== 'number' || !Number.isFinite(count)) {
+      throw new Error('Invalid poll results');
+    }
+    counts[id] = Math.max(0, Math.floor(count));
+  }
+
+  return { counts, total: Math.max(0, Math.floor(data.total)) };
+}
+
+/**
+ * Record of the ballots cast from this browser
+ * Used to allow one vote per poll and to remember what was picked.
+ */
+export class VoteLedger {
+  private votes: Record<string, string[]>;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for VoteLedger
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.pollVotes',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.votes = this.load();
+  }
+
+  /**
+   * Get the options picked in a poll, or null if this browser has not voted
+   */
+  getVote(pollId: string): string[] | null {
+    return this.votes[pollId] ?? null;
+  }
+
+  /**
+   * Check whether this browser already voted in a poll
+   */
+  hasVoted(pollId: string): boolean {
+    return pollId in this.votes;
+  }
+
+  /**
+   * Remember a ballot
+   */
+  record(pollId: string, optionIds: string[]): void {
+    this.votes[pollId] = [...optionIds];
+    this.save();
+  }
+
+  /**
+   * Listen for recorded ballots
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read recorded ballots, ignoring anything corrupt
+   */
+  private load(): Record<string, string[]> {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : {};
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const votes: Record<string, string[]> = {};
+        for (const [pollId, optionIds] of Object.entries(parsed)) {
+          if (Array.isArray(optionIds) && optionIds.every(id => typeof id === 'string')) {
+            votes[pollId] = optionIds;
+          }
+        }
+        return votes;
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable poll votes', e);
+    }
+    return {};
+  }
+
+  /**
+   * Persist recorded ballots and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.votes));
+    } catch (e) {
+      console.warn('Failed to save poll votes', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared ledger of the ballots cast from this browser
+ */
+export const voteLedger = new VoteLedger();
+
+/**
+ * Poll storage keeping results in localStorage
+ * Only counts ballots cast from this browser; useful for development and
+ * as a fallback when no poll server is configured.
+ */
+export class LocalPollStorage implements PollStorageAdapter {
+  /**
+   * Constructor for LocalPollStorage
+   * @param storageKey - localStorage key to persist under
+   * @param ledger - Ledger enforcing one vote per browser
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.polls',
+    private ledger: VoteLedger = voteLedger,
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {}
+
+  async getResults(poll: Poll): Promise<PollResults> {
+    return this.load()[poll.id] ?? { counts: {}, total: 0 };
+  }
+
+  async submitVote(poll: Poll, optionIds: string[]): Promise<PollResults> {
+    validateBallot(poll, optionIds);
+    if (this.ledger.hasVoted(poll.id)) {
+      throw new Error('You already voted in this poll');
+    }
+
+    const all = this.load();
+    const results = all[poll.id] ?? { counts: {}, total: 0 };
+    optionIds.forEach(id => {
+      results.counts[id] = (results.counts[id] ?? 0) + 1;
+    });
+    results.total++;
+    all[poll.id] = results;
+
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(all));
+    } catch (e) {
+      console.warn('Failed to save poll results', e);
+    }
+    this.ledger.record(poll.id, optionIds);
+    return results;
+  }
+
+  /**
+   * Read saved results, ignoring anything corrupt
+   */
+  private load(): Record<string, PollResults> {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : {};
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        const all: Record<string, PollResults> = {};
+        for (const [pollId, results] of Object.entries(parsed)) {
+          all[pollId] = parsePollResults(results);
+        }
+        return all;
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable poll results', e);
+    }
+    return {};
+  }
+}
+
+/**
+ * Options for HttpPollStorage
+ */
+export interface HttpPollStorageOptions {
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Milliseconds before a request is abandoned */
+  timeout?: number;
+  /** Ledger enforcing one vote per browser */
+  ledger?: VoteLedger;
+  /** Storage used to persist the anonymous voter id */
+  storage?: Storage;
+}
+
+/**
+ * Poll storage backed by an HTTP API
+ *
+ * - `GET {baseUrl}/polls/:id` returns `{ counts, total }`
+ * - `POST {baseUrl}/polls/:id/votes` with `{ voterId, options }` returns `{ counts, total }`,
+ *   or status 409 if the voter already voted
+ */
+export class HttpPollStorage implements PollStorageAdapter {
+  private fetchFn: typeof fetch;
+  private timeout: number;
+  private ledger: VoteLedger;
+  private storage: Storage | undefined;
+
+  /**
+   * Constructor for HttpPollStorage
+   * @param baseUrl - API root, without trailing slash
+   * @param options - Optional fetch, timeout, ledger and storage overrides
+   */
+  constructor(private baseUrl: string, options: HttpPollStorageOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    this.timeout = options.timeout ?? 5000;
+    this.ledger = options.ledger ?? voteLedger;
+    this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+
+  async getResults(poll: Poll): Promise<PollResults> {
+    return parsePollResults(await this.request(`/polls/${encodeURIComponent(poll.id)}`));
+  }
+
+  async submitVote(poll: Poll, optionIds: string[]): Promise<PollResults> {
+    validateBallot(poll, optionIds);
+    if (this.ledger.hasVoted(poll.id)) {
+      throw new Error('You already voted in this poll');
+    }
+
+    const body = JSON.stringify({ voterId: this.getVoterId(), options: optionIds });
+    try {
+      const results = parsePollResults(await this.request(`/polls/${encodeURIComponent(poll.id)}/votes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body
+      }));
+      this.ledger.record(poll.id, optionIds);
+      return results;
+    } catch (e) {
+      // The server remembers voters across browsers' storage being cleared
+      if ((e as { status?: number }).status === 409) {
+        this.ledger.record(poll.id, optionIds);
+        throw new Error('You already voted in this poll');
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   * @throws Error with a `status` property for non-2xx responses
+   */
+  private async request(path: string, init: RequestInit = {}): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchFn(this.baseUrl + path, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw Object.assign(new Error(`Poll server responded with ${response.status}`), { status: response.status });
+      }
+      return await response.json();
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') {
+        throw new Error('Poll server did not respond in time');
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Get the anonymous id identifying this browser to the server
+   */
+  private getVoterId(): string {
+    const key = 'deci.voterId';
+    try {
+      const saved = this.storage?.getItem(key);
+      if (saved) return saved;
+    } catch {
+      // Fall through and generate a new id
+    }
+
+    const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    try {
+      this.storage?.setItem(key, id);
+    } catch (e) {
+      console.warn('Failed to save voter id', e);
+    }
+    return id;
+  }
+}
+
+/**
+ * Create the poll storage configured for this build
+ * Uses the HTTP API when `VITE_POLL_API_URL` is set, localStorage otherwise.
+ */
+export function createPollStorage(apiUrl: string | undefined = import.meta.env.VITE_POLL_API_URL): PollStorageAdapter {
+  return apiUrl ? new HttpPollStorage(apiUrl) : new LocalPollStorage();
+}
+
+/**
+ * Shared poll storage used across the site
+ */
+export const pollStorage = createPollStorage();
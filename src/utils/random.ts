@@ -0,0 +1,73 @@
+/**
+ * Utility for reproducible random numbers
+ */
+
+/**
+ * Pick a new 32-bit seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a seeded source of random numbers in [0, 1)
+ * The same seed always gives the same sequence (mulberry32).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Independent random sequences drawn from one seed
+ * Each part of the site uses its own stream, so pinning a seed reproduces a game
+ * layout no matter how many numbers other parts have drawn.
+ */
+export type RandomStream = 'obstacles' | 'targets' | 'background';
+
+/**
+ * Turn text into a seed by hashing it (FNV-1a)
+ */
+export function seedFromText(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create the named stream of a seed
+ */
+export function createStream(seed: number, stream: RandomStream): () => number {
+  return createRandom(seedFromText(`${seed >>> 0}:${stream}`));
+}
+
+/**
+ * Write a seed as short text, e.g. for links
+ */
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(36);
+}
+
+/**
+ * Read a seed written by formatSeed
+ * Any other text (such as a challenge name) is hashed into a seed, so it still pins a layout.
+ * @returns The seed, or undefined for empty text
+ */
+export function parseSeed(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  if (!value) return undefined;
+
+  if (/^[0-9a-z]{1,7}$/.test(value)) {
+    const seed = parseInt(value, 36);
+    if (seed <= 0xffffffff) return seed;
+  }
+  return seedFromText(value);
+}
@@ -0,0 +1,119 @@
+/**
+ * Utility for keeping the best recorded run of each game
+ */
+
+/**
+ * A saved run
+ */
+export interface SavedReplay {
+  score: number;
+  /** Replay code as exported by the game */
+  code: string;
+}
+
+/**
+ * Replay storage class keeping one best run per key (e.g. game and difficulty)
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class ReplayStorage {
+  private replays: Record<string, SavedReplay>;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for ReplayStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.replays',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.replays = this.load();
+  }
+
+  /**
+   * Get the best run saved under a key
+   */
+  getBest(key: string): SavedReplay | undefined {
+    return this.replays[key];
+  }
+
+  /**
+   * Save a run if it beats the one saved under its key
+   * @returns True if the run was saved
+   */
+  offer(key: string, score: number, code: string): boolean {
+    const saved = this.replays[key];
+    if (saved && saved.score >= score) return false;
+
+    this.replays[key] = { score, code };
+    this.save();
+    return true;
+  }
+
+  /**
+   * Forget the run saved under a key
+   */
+  remove(key: string): void {
+    if (!(key in this.replays)) return;
+
+    delete this.replays[key];
+    this.save();
+  }
+
+  /**
+   * Forget all saved runs
+   */
+  clear(): void {
+    this.replays = {};
+    this.save();
+  }
+
+  /**
+   * Listen for newly saved runs
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read saved runs, ignoring anything corrupt
+   */
+  private load(): Record<string, SavedReplay> {
+    const replays: Record<string, SavedReplay> = {};
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : {};
+      if (typeof parsed === 'object' && parsed !== null) {
+        for (const [key, value] of Object.entries(parsed)) {
+          const replay = value as Partial<SavedReplay> | null;
+          if (replay && typeof replay.score === 'number' && typeof replay.code === 'string') {
+            replays[key] = { score: replay.score, code: replay.code };
+          }
+        }
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable replays', e);
+    }
+    return replays;
+  }
+
+  /**
+   * Persist runs and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.replays));
+    } catch (e) {
+      console.warn('Failed to save replays', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared replay storage used by all mini-games
+ */
+export const replayStorage = new ReplayStorage();
@@ -0,0 +1,198 @@
+/**
+ * Utility for hash-based routing
+ * URLs look like `/#/games/drag` so deep links work on static hosts such as
+ * GitHub Pages without any server-side fallback.
+ */
+import { formatSeed, parseSeed } from './random';
+
+/**
+ * A page of the site
+ */
+export type Route =
+  | { name: 'home' }
+  | { name: 'games' }
+  /**
+   * A game opened in the arcade shell, optionally with a share token that unlocks it
+   * and a seed that pins its layout
+   */
+  | { name: 'game'; gameId: string; token?: string; seed?: number }
+  | { name: 'news' }
+  | { name: 'about' };
+
+/**
+ * Read a route from a path such as `/games/flappy?unlock=abc&seed=xyz`
+ * Unknown paths resolve to the home page.
+ */
+export function parseRoute(path: string): Route {
+  const [pathname, query = ''] = path.split('?');
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // Malformed escapes in a hand-edited URL
+    return { name: 'home' };
+  }
+
+  if (segments.length === 0) return { name: 'home' };
+
+  if (segments[0] === 'games') {
+    if (segments.length === 1) return { name: 'games' };
+    if (segments.length === 2) {
+      const params = new URLSearchParams(query);
+      const route: Route = { name: 'game', gameId: segments[1] };
+      const token = params.get('unlock');
+      const seed = parseSeed(params.get('seed') ?? '');
+      if (token) route.token = token;
+      if (seed !== undefined) route.seed = seed;
+      return route;
+    }
+  }
+
+  if (segments.length === 1 && (segments[0] === 'news' || segments[0] === 'about')) {
+    return { name: segments[0] };
+  }
+
+  return { name: 'home' };
+}
+
+/**
+ * Write a route as a path, the inverse of parseRoute
+ */
+export function formatRoute(route: Route): string {
+  switch (route.name) {
+    case 'home':
+      return '/';
+    case 'games':
+    case 'news':
+    case 'about':
+      return `/${route.name}`;
+    case 'game': {
+      const path = `/games/${encodeURIComponent(route.gameId)}`;
+      const params = new URLSearchParams();
+      if (route.token) params.set('unlock', route.token);
+      if (route.seed !== undefined) params.set('seed', formatSeed(route.seed));
+      const query = params.toString();
+      return query ? `${path}?${query}` : path;
+    }
+  }
+}
+
+// Marker stored in history entries created by the router
+const STATE_KEY = 'deciRoute';
+
+/**
+ * Router keeping the current route in the URL hash
+ * Entries pushed by the router can be left with the back button.
+ */
+export class HashRouter {
+  private route: Route;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for HashRouter
+   * @param win - Window whose location and history are used (defaults to the global window)
+   */
+  constructor(private win: Window | undefined = typeof window !== 'undefined' ? window : undefined) {
+    this.route = this.read();
+
+    // Back/forward buttons and hand-edited URLs
+    this.win?.addEventListener('popstate', () => this.sync());
+    this.win?.addEventListener('hashchange', () => this.sync());
+  }
+
+  /**
+   * Get the current route
+   */
+  getRoute(): Route {
+    return this.route;
+  }
+
+  /**
+   * Build a full link to a route, e.g. for sharing
+   */
+  getUrl(route: Route): string {
+    const base = this.win ? `${this.win.location.origin}${this.win.location.pathname}` : '';
+    return `${base}#${formatRoute(route)}`;
+  }
+
+  /**
+   * Go to a route, adding a history entry
+   */
+  navigate(route: Route): void {
+    this.update(route, 'push');
+  }
+
+  /**
+   * Go to a route without adding a history entry
+   */
+  replace(route: Route): void {
+    this.update(route, 'replace');
+  }
+
+  /**
+   * Leave the current route
+   * Goes back in history when the router added the current entry, so the back button
+   * and the in-page close buttons agree; otherwise replaces it with the fallback.
+   */
+  back(fallback: Route): void {
+    if (this.win?.history.state?.[STATE_KEY]) {
+      this.win.history.back();
+    } else {
+      this.replace(fallback);
+    }
+  }
+
+  /**
+   * Listen for route changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Parse the route from the current hash
+   */
+  private read(): Route {
+    return parseRoute(this.win?.location.hash.replace(/^#/, '') ?? '');
+  }
+
+  /**
+   * Write a route to the URL and notify listeners
+   */
+  private update(route: Route, mode: 'push' | 'replace'): void {
+    const hash = `#${formatRoute(route)}`;
+    if (this.win && this.win.location.hash !== hash) {
+      const state = { [STATE_KEY]: true };
+      if (mode === 'push') {
+        this.win.history.pushState(state, '', hash);
+      } else {
+        this.win.history.replaceState(this.win.history.state ?? null, '', hash);
+      }
+    }
+    this.set(route);
+  }
+
+  /**
+   * Pick up a route change made outside the router
+   */
+  private sync(): void {
+    this.set(this.read());
+  }
+
+  /**
+   * Store the route and notify listeners if it changed
+   */
+  private set(route: Route): void {
+    if (formatRoute(route) === formatRoute(this.route)) return;
+
+    this.route = route;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared router used across the site
+ */
+export const router = new HashRouter();
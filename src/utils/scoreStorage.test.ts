@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ScoreData, ScoreStorage } from './scoreStorage';
+
+/**
+ * Build an export file with one game
+ */
+function scoreFile(gameId: string, best: number, entries: [string, number, string][]): string {
+  const data: ScoreData = {
+    version: 1,
+    games: {
+      [gameId]: { best, entries: entries.map(([initials, score, date]) => ({ initials, score, date })) }
+    }
+  };
+  return JSON.stringify(data);
+}
+
+describe('ScoreStorage.importJSON', () => {
+  it('merges imported entries into the leaderboard by rank', () => {
+    const storage = new ScoreStorage('test', undefined);
+    storage.addEntry('flappy', 'AAA', 10, new Date('2025-01-01T00:00:00Z'));
+    storage.addEntry('flappy', 'BBB', 30, new Date('2025-01-02T00:00:00Z'));
+
+    storage.importJSON(scoreFile('flappy', 20, [['CCC', 20, '2025-01-03T00:00:00.000Z']]));
+
+    expect(storage.getTopScores('flappy').map(entry => entry.initials)).toEqual(['BBB', 'CCC', 'AAA']);
+  });
+
+  it('skips entries that are already saved', () => {
+    const storage = new ScoreStorage('test', undefined);
+    storage.addEntry('flappy', 'AAA', 10, new Date('2025-01-01T00:00:00Z'));
+
+    storage.importJSON(storage.exportJSON());
+
+    expect(storage.getTopScores('flappy')).toHaveLength(1);
+  });
+
+  it('keeps the higher of the saved and imported bests', () => {
+    const storage = new ScoreStorage('test', undefined);
+    storage.recordScore('flappy', 50);
+    storage.recordScore('drag:classic', 5);
+
+    storage.importJSON(scoreFile('flappy', 40, []));
+    storage.importJSON(scoreFile('drag:classic', 9, []));
+
+    expect(storage.getBest('flappy')).toBe(50);
+    expect(storage.getBest('drag:classic')).toBe(9);
+  });
+
+  it('adds games it did not know about', () => {
+    const storage = new ScoreStorage('test', undefined);
+
+    storage.importJSON(scoreFile('drag:swarm', 0, [['ZED', 14, '2025-01-03T00:00:00.000Z']]));
+
+    expect(storage.getBest('drag:swarm')).toBe(14);
+    expect(storage.getTopScores('drag:swarm')[0].initials).toBe('ZED');
+  });
+
+  it('keeps only the top ten entries', () => {
+    const storage = new ScoreStorage('test', undefined);
+    const entries = Array.from({ length: 12 }, (_, index): [string, number, string] => ['AAA', index + 1, '2025-01-01T00:00:00.000Z']);
+
+    storage.importJSON(scoreFile('flappy', 12, entries));
+
+    const scores = storage.getTopScores('flappy').map(entry => entry.score);
+    expect(scores).toHaveLength(10);
+    expect(scores[0]).toBe(12);
+    expect(scores[9]).toBe(3);
+  });
+
+  it('rejects files that are not score exports and leaves scores untouched', () => {
+    const storage = new ScoreStorage('test', undefined);
+    storage.recordScore('flappy', 5);
+
+    expect(() => storage.importJSON('not json')).toThrow('Score file is not valid JSON');
+    expect(() => storage.importJSON('{"version":2,"games":{}}')).toThrow();
+    expect(() => storage.importJSON(scoreFile('flappy', 1, [['AAA', 1, 'yesterday']]))).toThrow();
+    expect(storage.getBest('flappy')).toBe(5);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Utility for persisting mini-game scores in localStorage
+ */
+
+/**
+ * Maximum number of entries kept per game leaderboard
+ */
+export const MAX_LEADERBOARD_ENTRIES = 10;
+
+/**
+ * A single leaderboard entry
+ */
+export interface ScoreEntry {
+  initials: string;
+  score: number;
+  /** ISO date string of when the run was saved */
+  date: string;
+}
+
+/**
+ * Saved scores for one game
+ */
+export interface GameScores {
+  best: number;
+  entries: ScoreEntry[];
+}
+
+/**
+ * Shape of the persisted (and exported) data
+ */
+export interface ScoreData {
+  version: 1;
+  games: Record<string, GameScores>;
+}
+
+/**
+ * Normalize player initials to up to three uppercase letters or digits
+ */
+export function normalizeInitials(initials: string): string {
+  return initials.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+}
+
+/**
+ * Sort entries by score (highest first, earlier runs win ties) and trim the list
+ */
+function rankEntries(entries: ScoreEntry[]): ScoreEntry[] {
+  return [...entries]
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+    .slice(0, MAX_LEADERBOARD_ENTRIES);
+}
+
+/**
+ * Validate a parsed entry and return a clean copy
+ */
+function parseEntry(value: unknown): ScoreEntry {
+  const entry = value as Partial<ScoreEntry> | null;
+  if (
+    !entry ||
+    typeof entry.initials !== 'string' ||
+    typeof entry.score !== 'number' ||
+    !Number.isFinite(entry.score) ||
+    typeof entry.date !== 'string' ||
+    Number.isNaN(Date.parse(entry.date))
+  ) {
+    throw new Error('Invalid score entry');
+  }
+
+  return {
+    initials: normalizeInitials(entry.initials) || '???',
+    score: Math.max(0, Math.floor(entry.score)),
+    date: entry.date
+  };
+}
+
+/**
+ * Validate parsed score data and return a clean copy
+ * @throws Error if the data does not have the expected shape
+ */
+export function parseScoreData(value: unknown): ScoreData {
+  const data = value as Partial<ScoreData> | null;
+  if (!data || data.version !== 1 || typeof data.games !== 'object' || data.games === null) {
+    throw new Error('Unsupported score data format');
+  }
+
+  const games: Record<string, GameScores> = {};
+  for (const [gameId, raw] of Object.entries(data.games)) {
+    const scores = raw as Partial<GameScores> | null;
+    if (!scores || typeof scores.best !== 'number' || !Array.isArray(scores.entries)) {
+      throw new Error(`Invalid scores for game "${gameId}"`);
+    }
+
+    const entries = rankEntries(scores.entries.map(parseEntry));
+    games[gameId] = {
+      best: Math.max(Math.floor(scores.best) || 0, entries[0]?.score ?? 0),
+      entries
+    };
+  }
+
+  return { version: 1, games };
+}
+
+/**
+ * Score storage class for best scores and per-game leaderboards
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class ScoreStorage {
+  private data: ScoreData;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for ScoreStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.scores',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.data = this.load();
+  }
+
+  /**
+   * Get the best score for a game
+   */
+  getBest(gameId: string): number {
+    return this.data.games[gameId]?.best ?? 0;
+  }
+
+  /**
+   * Get the leaderboard for a game, highest score first
+   */
+  getTopScores(gameId: string): ScoreEntry[] {
+    return [...(this.data.games[gameId]?.entries ?? [])];
+  }
+
+  /**
+   * Check whether a score would make it onto the leaderboard
+   */
+  qualifies(gameId: string, score: number): boolean {
+    if (score <= 0) return false;
+
+    const entries = this.data.games[gameId]?.entries ?? [];
+    return entries.length < MAX_LEADERBOARD_ENTRIES || score > entries[entries.length - 1].score;
+  }
+
+  /**
+   * Record a finished run, updating the best score if needed
+   * @returns True if the score is a new best
+   */
+  recordScore(gameId: string, score: number): boolean {
+    const scores = this.getGame(gameId);
+    if (score <= scores.best) return false;
+
+    scores.best = score;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Add a named entry to a game's leaderboard
+   * @returns The 1-based rank of the entry, or 0 if it did not qualify
+   */
+  addEntry(gameId: string, initials: string, score: number, date: Date = new Date()): number {
+    if (!this.qualifies(gameId, score)) return 0;
+
+    const scores = this.getGame(gameId);
+    const entry: ScoreEntry = {
+      initials: normalizeInitials(initials) || '???',
+      score,
+      date: date.toISOString()
+    };
+
+    scores.entries = rankEntries([...scores.entries, entry]);
+    scores.best = Math.max(scores.best, score);
+    this.save();
+
+    return scores.entries.indexOf(entry) + 1;
+  }
+
+  /**
+   * Export all scores as a JSON string
+   */
+  exportJSON(): string {
+    return JSON.stringify(this.data, null, 2);
+  }
+
+  /**
+   * Import scores from a JSON string, merging them with the saved ones
+   * @throws Error if the JSON is malformed or has the wrong shape
+   */
+  importJSON(json: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Score file is not valid JSON');
+    }
+
+    const imported = parseScoreData(parsed);
+    for (const [gameId, incoming] of Object.entries(imported.games)) {
+      const scores = this.getGame(gameId);
+      const known = new Set(scores.entries.map(e => `${e.initials}|${e.score}|${e.date}`));
+      const fresh = incoming.entries.filter(e => !known.has(`${e.initials}|${e.score}|${e.date}`));
+
+      scores.entries = rankEntries([...scores.entries, ...fresh]);
+      scores.best = Math.max(scores.best, incoming.best);
+    }
+
+    this.save();
+  }
+
+  /**
+   * Remove all saved scores
+   */
+  clear(): void {
+    this.data = { version: 1, games: {} };
+    this.save();
+  }
+
+  /**
+   * Listen for score changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Get (or create) the mutable scores for a game
+   */
+  private getGame(gameId: string): GameScores {
+    if (!this.data.games[gameId]) {
+      this.data.games[gameId] = { best: 0, entries: [] };
+    }
+    return this.data.games[gameId];
+  }
+
+  /**
+   * Read saved scores, ignoring anything corrupt
+   */
+  private load(): ScoreData {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      if (raw) return parseScoreData(JSON.parse(raw));
+    } catch (e) {
+      console.warn('Ignoring unreadable saved scores', e);
+    }
+    return { version: 1, games: {} };
+  }
+
+  /**
+   * Persist scores and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(this.data));
+    } catch (e) {
+      console.warn('Failed to save scores', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared score storage used by all mini-games
+ */
+export const scoreStorage = new ScoreStorage();
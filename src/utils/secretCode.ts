@@ -1,88 +1,238 @@
 /**
- * Utility for detecting secret code input (Konami code)
+ * Utility for detecting secret code input (Konami code and friends)
  */
 
 /**
- * Secret code detector class for handling keyboard sequences
- * Can detect patterns like the Konami code (up up down down left right left right b a)
+ * Touch gestures that can be part of a secret sequence
  */
-export class SecretCodeDetector {
-  private sequence: string[] = [];
-  private secretCode: string[];
-  private callback: () => void;
+export type GestureToken = 'SwipeUp' | 'SwipeDown' | 'SwipeLeft' | 'SwipeRight' | 'Tap';
+
+/**
+ * Options for a registered sequence
+ */
+export interface SecretCodeOptions {
+  /** Maximum time in milliseconds allowed between two inputs */
+  maxDelay?: number;
+  /** Match keys exactly instead of ignoring case (default: false) */
+  caseSensitive?: boolean;
+}
+
+// A registered sequence with its handler
+interface SecretCodeEntry {
+  sequence: string[];
+  handler: () => void;
+  options: SecretCodeOptions;
+}
+
+// A recorded input with the time it happened
+interface InputRecord {
+  token: string;
+  time: number;
+}
+
+/**
+ * Secret code registry class for handling keyboard and gesture sequences
+ * Many named sequences share one set of global listeners, and each one
+ * can detect patterns like the Konami code (up up down down left right left right b a)
+ */
+export class SecretCodeRegistry {
+  private codes = new Map<string, SecretCodeEntry>();
+  private history: InputRecord[] = [];
   private enabled: boolean = false;
-  private boundHandler: (e: KeyboardEvent) => void;
-  
+  private touchStart: { x: number; y: number; time: number } | null = null;
+  private boundKeyHandler: (e: KeyboardEvent) => void;
+  private boundTouchStartHandler: (e: TouchEvent) => void;
+  private boundTouchEndHandler: (e: TouchEvent) => void;
+
+  /**
+   * Constructor for SecretCodeRegistry
+   * @param swipeDistance - Minimum distance in pixels for a swipe
+   * @param tapDistance - Maximum movement in pixels for a tap
+   */
+  constructor(private swipeDistance: number = 30, private tapDistance: number = 10) {
+    this.boundKeyHandler = this.handleKeyDown.bind(this);
+    this.boundTouchStartHandler = this.handleTouchStart.bind(this);
+    this.boundTouchEndHandler = this.handleTouchEnd.bind(this);
+  }
+
+  /**
+   * Register a named sequence, replacing any previous one with the same name
+   * @param name - Unique name of the sequence
+   * @param sequence - Key values and/or gesture tokens to detect
+   * @param handler - Function to call when the sequence is entered
+   * @param options - Timing and matching options
+   * @returns Function that unregisters the sequence
+   */
+  register(
+    name: string,
+    sequence: readonly string[],
+    handler: () => void,
+    options: SecretCodeOptions = {}
+  ): () => void {
+    if (sequence.length === 0) {
+      throw new Error(`Secret code "${name}" must not be empty`);
+    }
+
+    const entry: SecretCodeEntry = { sequence: [...sequence], handler, options };
+    this.codes.set(name, entry);
+
+    return () => {
+      if (this.codes.get(name) === entry) {
+        this.unregister(name);
+      }
+    };
+  }
+
+  /**
+   * Remove a registered sequence
+   */
+  unregister(name: string): void {
+    this.codes.delete(name);
+  }
+
   /**
-   * Constructor for SecretCodeDetector
-   * @param secretCode - Array of key strings to detect
-   * @param callback - Function to call when code is detected
+   * Check whether a sequence is registered
    */
-  constructor(secretCode: string[], callback: () => void) {
-    this.secretCode = secretCode;
-    this.callback = callback;
-    this.boundHandler = this.handleKeyDown.bind(this);
+  has(name: string): boolean {
+    return this.codes.has(name);
   }
-  
+
   /**
-   * Start listening for the secret code
+   * Start listening for secret codes
    */
   start(): void {
     if (this.enabled) return;
-    
+
     this.enabled = true;
-    document.addEventListener('keydown', this.boundHandler);
+    document.addEventListener('keydown', this.boundKeyHandler);
+    document.addEventListener('touchstart', this.boundTouchStartHandler, { passive: true });
+    document.addEventListener('touchend', this.boundTouchEndHandler, { passive: true });
   }
-  
+
   /**
-   * Stop listening for the secret code
+   * Stop listening for secret codes
    */
   stop(): void {
     if (!this.enabled) return;
-    
+
     this.enabled = false;
-    document.removeEventListener('keydown', this.boundHandler);
-    this.sequence = [];
+    document.removeEventListener('keydown', this.boundKeyHandler);
+    document.removeEventListener('touchstart', this.boundTouchStartHandler);
+    document.removeEventListener('touchend', this.boundTouchEndHandler);
+    this.history = [];
+    this.touchStart = null;
   }
-  
+
   /**
-   * Handle keydown events and check for code matches
+   * Feed one input into the registry and fire any completed sequence
+   * @param token - Key value or gesture token
+   * @param time - Time of the input in milliseconds
+   */
+  input(token: string, time: number = Date.now()): void {
+    this.history.push({ token, time });
+
+    // Only keep as much history as the longest sequence needs
+    const maxLength = Math.max(0, ...[...this.codes.values()].map(entry => entry.sequence.length));
+    if (this.history.length > maxLength) {
+      this.history.splice(0, this.history.length - maxLength);
+    }
+
+    for (const entry of [...this.codes.values()]) {
+      if (this.sequenceMatches(entry)) {
+        // Reset sequence
+        this.history = [];
+
+        // Call the handler
+        entry.handler();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Handle keydown events
    */
   private handleKeyDown(e: KeyboardEvent): void {
-    // Add the key to the sequence
-    this.sequence.push(e.key);
-    
-    // Trim sequence to match secret code length
-    if (this.sequence.length > this.secretCode.length) {
-      this.sequence.shift();
+    this.input(e.key);
+  }
+
+  /**
+   * Remember where a single-finger touch started
+   */
+  private handleTouchStart(e: TouchEvent): void {
+    if (e.touches.length !== 1) {
+      this.touchStart = null;
+      return;
     }
-    
-    // Check if the sequence matches the secret code
-    if (this.sequenceMatches()) {
-      // Reset sequence
-      this.sequence = [];
-      
-      // Call the callback
-      this.callback();
+
+    const touch = e.touches[0];
+    this.touchStart = { x: touch.clientX, y: touch.clientY, time: Date.now() };
+  }
+
+  /**
+   * Turn a finished touch into a tap or swipe token
+   */
+  private handleTouchEnd(e: TouchEvent): void {
+    if (!this.touchStart || e.changedTouches.length === 0) return;
+
+    const touch = e.changedTouches[0];
+    const dx = touch.clientX - this.touchStart.x;
+    const dy = touch.clientY - this.touchStart.y;
+    this.touchStart = null;
+
+    const gesture = this.classifyGesture(dx, dy);
+    if (gesture) {
+      this.input(gesture);
     }
   }
-  
+
   /**
-   * Check if current sequence matches the secret code
+   * Classify a touch movement as a gesture token
    */
-  private sequenceMatches(): boolean {
-    // Only check if the sequence is the same length as the secret code
-    if (this.sequence.length !== this.secretCode.length) {
+  private classifyGesture(dx: number, dy: number): GestureToken | null {
+    const distance = Math.hypot(dx, dy);
+
+    if (distance <= this.tapDistance) return 'Tap';
+    if (distance < this.swipeDistance) return null;
+
+    if (Math.abs(dx) > Math.abs(dy)) {
+      return dx > 0 ? 'SwipeRight' : 'SwipeLeft';
+    }
+    return dy > 0 ? 'SwipeDown' : 'SwipeUp';
+  }
+
+  /**
+   * Check if the most recent inputs match a registered sequence
+   */
+  private sequenceMatches(entry: SecretCodeEntry): boolean {
+    const { sequence, options } = entry;
+
+    // Only check once enough inputs were recorded
+    if (this.history.length < sequence.length) {
       return false;
     }
-    
-    // Check each key in the sequence
-    for (let i = 0; i < this.secretCode.length; i++) {
-      if (this.sequence[i] !== this.secretCode[i]) {
+
+    const recent = this.history.slice(-sequence.length);
+
+    // Check each input in the sequence
+    for (let i = 0; i < sequence.length; i++) {
+      const expected = options.caseSensitive ? sequence[i] : sequence[i].toLowerCase();
+      const actual = options.caseSensitive ? recent[i].token : recent[i].token.toLowerCase();
+
+      if (actual !== expected) {
+        return false;
+      }
+
+      // Check the pause since the previous input
+      if (
+        i > 0 &&
+        options.maxDelay !== undefined &&
+        recent[i].time - recent[i - 1].time > options.maxDelay
+      ) {
         return false;
       }
     }
-    
+
     return true;
   }
 }
@@ -90,21 +240,42 @@ export class SecretCodeDetector {
 /**
  * Konami code sequence: up, up, down, down, left, right, left, right, b, a
  */
-const KONAMI_CODE = [
-  'ArrowUp', 'ArrowUp', 
-  'ArrowDown', 'ArrowDown', 
-  'ArrowLeft', 'ArrowRight', 
-  'ArrowLeft', 'ArrowRight', 
+export const KONAMI_CODE = [
+  'ArrowUp', 'ArrowUp',
+  'ArrowDown', 'ArrowDown',
+  'ArrowLeft', 'ArrowRight',
+  'ArrowLeft', 'ArrowRight',
   'b', 'a'
 ];
 
 /**
- * Set up secret code detection with a callback
+ * Touch version of the Konami code: swipes for the arrows, then two taps for b and a
+ */
+export const KONAMI_GESTURE: GestureToken[] = [
+  'SwipeUp', 'SwipeUp',
+  'SwipeDown', 'SwipeDown',
+  'SwipeLeft', 'SwipeRight',
+  'SwipeLeft', 'SwipeRight',
+  'Tap', 'Tap'
+];
+
+/**
+ * Shared registry used for all secrets on the site
+ */
+export const secretCodes = new SecretCodeRegistry();
+
+/**
+ * Set up Konami code detection (keyboard and touch) with a callback
  * @param callback - Function to call when code is detected
- * @returns The SecretCodeDetector instance
+ * @returns Function that stops detecting the code
  */
-export function setupSecretCodeDetection(callback: () => void): SecretCodeDetector {
-  const detector = new SecretCodeDetector(KONAMI_CODE, callback);
-  detector.start();
-  return detector;
-} 
\ No newline at end of file
+export function setupSecretCodeDetection(callback: () => void): () => void {
+  const unregisterKeys = secretCodes.register('konami', KONAMI_CODE, callback, { maxDelay: 2000 });
+  const unregisterTouch = secretCodes.register('konami-touch', KONAMI_GESTURE, callback, { maxDelay: 2000 });
+  secretCodes.start();
+
+  return () => {
+    unregisterKeys();
+    unregisterTouch();
+  };
+}
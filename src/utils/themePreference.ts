@@ -0,0 +1,108 @@
+/**
+ * Utility for the site color theme
+ * Follows the OS color scheme and contrast settings unless the visitor picks a theme.
+ */
+
+/**
+ * What the visitor chose: follow the OS, or force a theme
+ */
+export type ThemeSetting = 'system' | 'dark' | 'light' | 'contrast';
+
+export const THEME_SETTINGS: ThemeSetting[] = ['system', 'dark', 'light', 'contrast'];
+
+/**
+ * Theme preference persisted in localStorage
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class ThemePreference {
+  private setting: ThemeSetting;
+  private listeners = new Set<() => void>();
+  private lightQuery: MediaQueryList | undefined;
+  private contrastQuery: MediaQueryList | undefined;
+
+  /**
+   * Constructor for ThemePreference
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.theme',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.setting = this.load();
+    this.lightQuery = typeof matchMedia === 'function' ? matchMedia('(prefers-color-scheme: light)') : undefined;
+    this.contrastQuery = typeof matchMedia === 'function' ? matchMedia('(prefers-contrast: more)') : undefined;
+
+    // Follow OS changes while the setting is 'system'
+    const followSystem = () => {
+      if (this.setting === 'system') this.notify();
+    };
+    this.lightQuery?.addEventListener?.('change', followSystem);
+    this.contrastQuery?.addEventListener?.('change', followSystem);
+  }
+
+  /**
+   * Get what the visitor chose
+   */
+  getSetting(): ThemeSetting {
+    return this.setting;
+  }
+
+  /**
+   * Get the theme to show right now
+   */
+  getTheme(): Exclude<ThemeSetting, 'system'> {
+    if (this.setting !== 'system') return this.setting;
+    if (this.contrastQuery?.matches) return 'contrast';
+    return this.lightQuery?.matches ? 'light' : 'dark';
+  }
+
+  /**
+   * Choose a theme
+   */
+  setSetting(setting: ThemeSetting): void {
+    if (setting === this.setting) return;
+
+    this.setting = setting;
+    try {
+      this.storage?.setItem(this.storageKey, setting);
+    } catch (e) {
+      console.warn('Failed to save theme', e);
+    }
+    this.notify();
+  }
+
+  /**
+   * Listen for changes of the effective theme
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read the saved setting, ignoring anything unknown
+   */
+  private load(): ThemeSetting {
+    try {
+      const saved = this.storage?.getItem(this.storageKey);
+      if (THEME_SETTINGS.includes(saved as ThemeSetting)) return saved as ThemeSetting;
+    } catch (e) {
+      console.warn('Ignoring unreadable theme', e);
+    }
+    return 'system';
+  }
+
+  /**
+   * Notify listeners
+   */
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared theme preference used across the site
+ */
+export const themePreference = new ThemePreference();
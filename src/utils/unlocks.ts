@@ -0,0 +1,121 @@
+/**
+ * Utility for remembering which secrets a visitor has found
+ */
+
+/**
+ * Create the token that unlocks a secret from a shared link
+ * Tokens only keep secrets out of plain sight in URLs; anyone holding a link can pass it on.
+ */
+export function createShareToken(secret: string): string {
+  // FNV-1a over the salted secret name
+  let hash = 0x811c9dc5;
+  for (const char of `deci.dev:${secret}`) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Check whether a token from a shared link belongs to a secret
+ */
+export function isValidShareToken(secret: string, token: string): boolean {
+  return token === createShareToken(secret);
+}
+
+/**
+ * Unlock storage class persisting found secrets in localStorage
+ * Falls back to in-memory storage when localStorage is unavailable
+ */
+export class UnlockStorage {
+  private unlocked: Set<string>;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Constructor for UnlockStorage
+   * @param storageKey - localStorage key to persist under
+   * @param storage - Storage backend (defaults to localStorage when available)
+   */
+  constructor(
+    private storageKey: string = 'deci.unlocks',
+    private storage: Storage | undefined = typeof localStorage !== 'undefined' ? localStorage : undefined
+  ) {
+    this.unlocked = this.load();
+  }
+
+  /**
+   * Check whether a secret has been found
+   */
+  isUnlocked(key: string): boolean {
+    return this.unlocked.has(key);
+  }
+
+  /**
+   * Get every found secret
+   */
+  getUnlocked(): string[] {
+    return [...this.unlocked];
+  }
+
+  /**
+   * Mark a secret as found
+   * @returns True if it was not found before
+   */
+  unlock(key: string): boolean {
+    if (this.unlocked.has(key)) return false;
+
+    this.unlocked.add(key);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Forget all found secrets
+   */
+  clear(): void {
+    this.unlocked.clear();
+    this.save();
+  }
+
+  /**
+   * Listen for newly found secrets
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Read found secrets, ignoring anything corrupt
+   */
+  private load(): Set<string> {
+    try {
+      const raw = this.storage?.getItem(this.storageKey);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      if (Array.isArray(parsed)) {
+        return new Set(parsed.filter((key): key is string => typeof key === 'string'));
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable unlocks', e);
+    }
+    return new Set();
+  }
+
+  /**
+   * Persist found secrets and notify listeners
+   */
+  private save(): void {
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify([...this.unlocked]));
+    } catch (e) {
+      console.warn('Failed to save unlocks', e);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Shared unlock storage used across the site
+ */
+export const unlockStorage = new UnlockStorage();
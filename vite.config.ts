@@ -1,13 +1,27 @@
+/// <reference types="vitest/config" />
 import tailwindcss from '@tailwindcss/vite';
 import { defineConfig } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
+import { galleryContent } from './plugins/galleryContent';
+import { newsContent } from './plugins/newsContent';
+import { pollsContent } from './plugins/pollsContent';
 
 export default defineConfig({
-  plugins: [solidPlugin(), tailwindcss()],
+  plugins: [
+    solidPlugin(),
+    tailwindcss(),
+    newsContent('content/news', 'content/polls'),
+    galleryContent('content/gallery'),
+    pollsContent('content/polls')
+  ],
   server: {
     port: 3000,
   },
   build: {
     target: 'esnext',
   },
+  test: {
+    // Tests cover the pure game and data modules, which need no DOM
+    environment: 'node',
+  },
 });